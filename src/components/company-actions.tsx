@@ -0,0 +1,54 @@
+import { Action, ActionPanel, Icon, Toast, showToast } from "@raycast/api";
+import { CompanyState } from "../hooks/use-companies";
+
+interface CompanyActionsProps {
+  state: CompanyState;
+  isGrouped?: boolean;
+  onToggleGroup?: () => void;
+}
+
+/**
+ * Choix de la société des requêtes et regroupement des résultats par société, sur les bases multi-sociétés
+ */
+export function CompanyActions({ state, isGrouped, onToggleGroup }: CompanyActionsProps) {
+  if (!state.isMultiCompany) return null;
+
+  const isSelected = (id: number | null) =>
+    id === null ? !state.selection : state.selection?.length === 1 && state.selection[0] === id;
+
+  const select = async (id: number | null, name: string) => {
+    state.select(id === null ? null : [id]);
+    await showToast({ style: Toast.Style.Success, title: "Company", message: name });
+  };
+
+  return (
+    <ActionPanel.Section title="Companies">
+      <ActionPanel.Submenu
+        title="Switch Company"
+        icon={Icon.Building}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}>
+        <Action
+          title="All My Companies"
+          icon={isSelected(null) ? Icon.CheckCircle : Icon.Circle}
+          onAction={() => select(null, "All my companies")}
+        />
+        {state.companies.map(company => (
+          <Action
+            key={company.id}
+            title={company.name}
+            icon={isSelected(company.id) ? Icon.CheckCircle : Icon.Circle}
+            onAction={() => select(company.id, company.name)}
+          />
+        ))}
+      </ActionPanel.Submenu>
+      {onToggleGroup && (
+        <Action
+          title={isGrouped ? "Ungroup Companies" : "Group by Company"}
+          icon={Icon.AppWindowList}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "g" }}
+          onAction={onToggleGroup}
+        />
+      )}
+    </ActionPanel.Section>
+  );
+}
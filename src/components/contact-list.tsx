@@ -0,0 +1,200 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { useCompanies } from "../hooks/use-companies";
+import { useOdooError } from "../hooks/use-odoo-error";
+import { useOdooProfile } from "../hooks/use-odoo-profile";
+import { useOdooUrls } from "../hooks/use-odoo-urls";
+import { usePaginatedSearch } from "../hooks/use-paginated-search";
+import { PAGE_SIZE } from "../services/odoo";
+import { getPartnerFields, getTagNames } from "../services/partners";
+import { QUERY_SCHEMAS, compileQuery, parseQuery } from "../services/query";
+import { OdooPage, OdooPartner } from "../types";
+import { formatRecordCount } from "../utils/format";
+import { CompanyActions } from "./company-actions";
+import { ErrorEmptyView } from "./error-empty-view";
+import { ExportActions } from "./export-actions";
+import { PartnerActions } from "./partner-actions";
+import { PartnerDetail } from "./partner-detail";
+import { ProfileDropdown } from "./profile-dropdown";
+import { ProfileEmptyView } from "./profile-empty-view";
+
+const QUERY_SCHEMA = QUERY_SCHEMAS["res.partner"];
+
+// Filtres prédéfinis du sélecteur, exprimés dans la syntaxe de recherche
+const PRESETS: Record<string, string> = { all: "", companies: "type:company", people: "type:person" };
+
+// Page de contacts avec les noms de leurs étiquettes
+type PartnerPage = OdooPage<OdooPartner> & { tags: Record<number, string> };
+
+interface ContactListProps {
+  company?: OdooPartner; // Contacts d'une société
+  initialQuery?: string;
+}
+
+export function ContactList({ company, initialQuery }: ContactListProps) {
+  const { profiles, profile, odooService, baseUrl, isLoading: isLoadingProfile, switchProfile } = useOdooProfile();
+  const urls = useOdooUrls(odooService, baseUrl);
+  const [searchText, setSearchText] = useState(initialQuery || "");
+  const [filter, setFilter] = useState("all");
+  const [fields, setFields] = useState<string[] | null>(null);
+  const [tagNames, setTagNames] = useState<Record<number, string>>({});
+  const { error, report, clear, retry, retryCount } = useOdooError();
+  const companies = useCompanies(odooService);
+
+  // Domaine de la recherche : nom, e-mail, téléphone et filtres (tag:, salesperson:me, type:company...)
+  const buildDomain = (query: string) => [
+    ...(company ? [["parent_id", "=", company.id]] : []),
+    ...compileQuery(parseQuery(query, QUERY_SCHEMA), QUERY_SCHEMA, odooService?.peekUid() ?? null),
+  ];
+
+  // Fonction pour charger une page de contacts et les noms de leurs étiquettes,
+  // triés par nom complet pour garder chaque société avec ses contacts
+  const fetchPartners = async (query: string, offset: number, signal: AbortSignal): Promise<PartnerPage> => {
+    if (!odooService || !fields) return { records: [], total: 0, hasMore: false, tags: {} };
+
+    const page = await odooService.searchPage<OdooPartner>(
+      "res.partner",
+      buildDomain(query),
+      { fields, limit: PAGE_SIZE, offset, order: "complete_name, id" },
+      { signal },
+    );
+    const tags = await getTagNames(odooService, page.records, { signal }).catch(error => {
+      if (!signal.aborted) console.error("Error loading contact tags:", error);
+      return {};
+    });
+    return { ...page, tags };
+  };
+
+  const {
+    records: partners,
+    hasMore,
+    total,
+    isLoading,
+    setIsLoading,
+    loadMore,
+  } = usePaginatedSearch<OdooPartner, PartnerPage>({
+    name: "contacts",
+    searchText,
+    key: companies.selectionKey,
+    enabled: !!fields,
+    fetchPage: fetchPartners,
+    onPage: page => setTagNames(current => ({ ...current, ...page.tags })),
+    onSuccess: clear,
+    onError: report,
+  });
+
+  // Effect pour vérifier les champs disponibles sur la base du profil actif
+  useEffect(() => {
+    if (!odooService) {
+      setIsLoading(false);
+      return;
+    }
+
+    // La recherche reprend une fois les champs du nouveau profil connus
+    setFields(null);
+    getPartnerFields(odooService)
+      .then(setFields)
+      .catch(error => {
+        console.error("Error during initialization:", error);
+        report(error);
+        setIsLoading(false);
+      });
+  }, [odooService, retryCount]);
+
+  // Un filtre du sélecteur remplace la recherche par sa requête, modifiable ensuite
+  const changeFilter = (value: string) => {
+    setFilter(value);
+    setSearchText(PRESETS[value] ?? "");
+  };
+
+  const getTags = (partner: OdooPartner) =>
+    (partner.category_id || []).map(id => tagNames[id]).filter((name): name is string => !!name);
+
+  const getSubtitle = (partner: OdooPartner) => {
+    // Dans la liste d'une société, le poste suffit ; ailleurs la société situe la personne
+    const parent = !company && partner.parent_id ? partner.parent_id[1] : undefined;
+    return [parent, partner.function].filter(Boolean).join(" · ");
+  };
+
+  const getAccessories = (partner: OdooPartner): List.Item.Accessory[] => [
+    ...getTags(partner)
+      .slice(0, 2)
+      .map(tag => ({ tag })),
+    ...(partner.is_company && partner.child_ids?.length
+      ? [{ text: `${partner.child_ids.length} contacts`, icon: Icon.TwoPeople }]
+      : []),
+    ...(partner.email ? [{ text: partner.email }] : partner.phone ? [{ text: partner.phone }] : []),
+    ...(partner.user_id ? [{ icon: Icon.Person, tooltip: `Salesperson: ${partner.user_id[1]}` }] : []),
+  ];
+
+  const renderPartner = (partner: OdooPartner) => (
+    <List.Item
+      key={partner.id}
+      icon={partner.is_company ? Icon.Building : Icon.Person}
+      title={partner.name}
+      subtitle={getSubtitle(partner)}
+      accessories={getAccessories(partner)}
+      actions={
+        <ActionPanel>
+          <Action.Push
+            title="Show Details"
+            icon={Icon.Sidebar}
+            target={<PartnerDetail partnerId={partner.id} />}
+            shortcut={{ modifiers: ["cmd"], key: "d" }}
+          />
+          <PartnerActions partner={partner} tags={getTags(partner)} url={urls.record("res.partner", partner.id)} />
+          <ExportActions records={partners} name="contacts" odooService={odooService} model="res.partner" />
+          <CompanyActions state={companies} />
+        </ActionPanel>
+      }
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading || isLoadingProfile}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
+      pagination={{ onLoadMore: loadMore, hasMore, pageSize: PAGE_SIZE }}
+      navigationTitle={company ? `${company.name} Contacts` : undefined}
+      searchBarPlaceholder="Search contacts by name, email or phone, or filter with tag: salesperson:me type:company..."
+      searchBarAccessory={
+        company ? undefined : (
+          <ProfileDropdown
+            profiles={profiles}
+            profile={profile}
+            onProfileChange={switchProfile}
+            filters={[
+              { title: "All Contacts", value: "all", icon: Icon.List },
+              { title: "Companies", value: "companies", icon: Icon.Building },
+              { title: "People", value: "people", icon: Icon.Person },
+            ]}
+            filter={filter}
+            onFilterChange={changeFilter}
+          />
+        )
+      }
+      throttle>
+      {!profile && !isLoadingProfile && <ProfileEmptyView />}
+      {error && partners.length === 0 && !isLoading && <ErrorEmptyView error={error} onRetry={retry} />}
+      {company && <List.Section title="Company">{renderPartner(company)}</List.Section>}
+      <List.Section title="Contacts" subtitle={formatRecordCount(partners.length, total, "contact")}>
+        {partners.map(renderPartner)}
+      </List.Section>
+      {searchText.length > 0 && searchText.length < 2 && (
+        <List.EmptyView title="Type at least 2 characters" description="Start typing to search for contacts" />
+      )}
+      {partners.length === 0 && !company && !isLoading && !error && searchText.length !== 1 && (
+        <List.EmptyView
+          title="No contacts found"
+          description={searchText ? `No contacts match "${searchText}".` : "No contacts available."}
+          actions={
+            <ActionPanel>
+              <CompanyActions state={companies} />
+            </ActionPanel>
+          }
+        />
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,109 @@
+import {
+  Action,
+  ActionPanel,
+  Icon,
+  Image,
+  LaunchType,
+  List,
+  launchCommand,
+  openExtensionPreferences,
+} from "@raycast/api";
+import {
+  OdooAccessError,
+  OdooAuthError,
+  OdooError,
+  OdooModelNotFoundError,
+  OdooNetworkError,
+  OdooTwoFactorError,
+  OdooValidationError,
+} from "../services/errors";
+
+interface ErrorEmptyViewProps {
+  error: OdooError;
+  onRetry: () => void;
+}
+
+interface ErrorPresentation {
+  icon: Image.ImageLike;
+  title: string;
+  description: string;
+  showSettings: boolean;
+}
+
+/**
+ * Titre et piste de résolution propres à chaque type d'erreur
+ */
+export function describeOdooError(error: OdooError): ErrorPresentation {
+  if (error instanceof OdooTwoFactorError) {
+    return {
+      icon: Icon.Key,
+      title: "Authentication code required",
+      description:
+        "Edit this profile in Manage Profiles and enter a code from your authenticator app. This Mac will then be trusted.",
+      showSettings: true,
+    };
+  }
+  if (error instanceof OdooAuthError) {
+    return {
+      icon: Icon.Lock,
+      title: "Authentication failed",
+      description: `${error.message}\nCheck the login, API key or password and database of the active profile.`,
+      showSettings: true,
+    };
+  }
+  if (error instanceof OdooNetworkError) {
+    return {
+      icon: Icon.WifiDisabled,
+      title: "Cannot reach Odoo",
+      description: `${error.message}\nCheck the instance URL and your internet connection.`,
+      showSettings: true,
+    };
+  }
+  if (error instanceof OdooModelNotFoundError) {
+    return {
+      icon: Icon.Box,
+      title: "Module not installed",
+      description: `${error.model} does not exist on this database. Install the matching Odoo app or switch profile.`,
+      showSettings: false,
+    };
+  }
+  if (error instanceof OdooAccessError) {
+    return {
+      icon: Icon.EyeDisabled,
+      title: "Access denied",
+      description: `${error.message}\nAsk your Odoo administrator for access rights.`,
+      showSettings: false,
+    };
+  }
+  if (error instanceof OdooValidationError) {
+    return { icon: Icon.ExclamationMark, title: "Request rejected", description: error.message, showSettings: false };
+  }
+  return { icon: Icon.Warning, title: "Odoo error", description: error.message, showSettings: false };
+}
+
+/**
+ * Vue affichée lorsqu'une requête échoue, avec l'action de résolution adaptée à l'erreur
+ */
+export function ErrorEmptyView({ error, onRetry }: ErrorEmptyViewProps) {
+  const { icon, title, description, showSettings } = describeOdooError(error);
+
+  const retry = <Action key="retry" title="Retry" icon={Icon.ArrowClockwise} onAction={onRetry} />;
+  const settings = [
+    <Action key="preferences" title="Open Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />,
+    <Action
+      key="profiles"
+      title="Manage Profiles"
+      icon={Icon.HardDrive}
+      onAction={() => launchCommand({ name: "manage-profiles", type: LaunchType.UserInitiated })}
+    />,
+  ];
+
+  return (
+    <List.EmptyView
+      icon={icon}
+      title={title}
+      description={description}
+      actions={<ActionPanel>{showSettings ? [...settings, retry] : [retry, ...settings]}</ActionPanel>}
+    />
+  );
+}
@@ -0,0 +1,142 @@
+import { Action, ActionPanel, Clipboard, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useState } from "react";
+import { resolveExport, saveExport } from "../services/export";
+import { OdooService } from "../services/odoo";
+import { OdooFields } from "../types";
+import { EXPORT_FORMATS, ExportFormat, getExportColumns, serializeRecords } from "../utils/export";
+
+interface ExportOptions {
+  records: object[];
+  name: string; // Nom des enregistrements, au pluriel : titre des toasts et nom du fichier
+  fields?: OdooFields; // Libellés et types des colonnes, si la liste les connaît
+  odooService?: OdooService | null; // Avec le modèle : libellés et noms des many2many lus au moment de l'export
+  model?: string;
+}
+
+type Destination = "clipboard" | "file";
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+/**
+ * Copie ou enregistre les résultats sérialisés, avec un toast de confirmation
+ */
+async function exportRecords(
+  { records, name, fields, odooService, model }: ExportOptions,
+  columns: string[],
+  format: ExportFormat,
+  destination: Destination,
+): Promise<boolean> {
+  try {
+    const resolved =
+      odooService && model ? await resolveExport(odooService, model, records, columns, fields) : { records, fields };
+    const content = serializeRecords(resolved.records, columns, format, resolved.fields);
+    const message = `${records.length} ${name} as ${EXPORT_FORMATS[format].title}`;
+    if (destination === "clipboard") {
+      await Clipboard.copy(content);
+      await showToast({ style: Toast.Style.Success, title: "Copied to clipboard", message });
+    } else {
+      await saveExport(content, name, format);
+      await showToast({ style: Toast.Style.Success, title: "Saved to Downloads", message });
+    }
+    return true;
+  } catch (error) {
+    showFailureToast(error, { title: `Could not export ${name}` });
+    return false;
+  }
+}
+
+interface ExportFormProps extends ExportOptions {
+  columns: string[];
+}
+
+/**
+ * Choix des colonnes, du format et de la destination de l'export
+ */
+function ExportForm({ columns, ...options }: ExportFormProps) {
+  const { pop } = useNavigation();
+  const [error, setError] = useState<string | undefined>();
+
+  const handleSubmit = async (values: { columns: string[]; format: ExportFormat; destination: Destination }) => {
+    if (values.columns.length === 0) {
+      setError("Select at least one column");
+      return;
+    }
+    // L'ordre des colonnes reste celui de la liste, quel que soit l'ordre de sélection
+    const selected = columns.filter(column => values.columns.includes(column));
+    if (await exportRecords(options, selected, values.format, values.destination)) {
+      pop();
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Export ${options.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Export" icon={Icon.Download} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }>
+      <Form.Description text={`${options.records.length} ${options.name} loaded in the list`} />
+      <Form.TagPicker
+        id="columns"
+        title="Columns"
+        defaultValue={columns}
+        error={error}
+        onChange={() => setError(undefined)}>
+        {columns.map(column => (
+          <Form.TagPicker.Item key={column} value={column} title={options.fields?.[column]?.string || column} />
+        ))}
+      </Form.TagPicker>
+      <Form.Dropdown id="format" title="Format" defaultValue="csv">
+        {FORMATS.map(format => (
+          <Form.Dropdown.Item key={format} value={format} title={EXPORT_FORMATS[format].title} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="destination" title="Destination" defaultValue="clipboard">
+        <Form.Dropdown.Item value="clipboard" title="Clipboard" icon={Icon.Clipboard} />
+        <Form.Dropdown.Item value="file" title="File in Downloads" icon={Icon.Document} />
+      </Form.Dropdown>
+    </Form>
+  );
+}
+
+/**
+ * Export des résultats chargés dans une liste : tous les champs lus, many2one réduits à leur nom
+ */
+export function ExportActions(options: ExportOptions) {
+  if (options.records.length === 0) return null;
+
+  const columns = getExportColumns(options.records);
+
+  return (
+    <ActionPanel.Section title="Export">
+      <ActionPanel.Submenu
+        title="Copy Results"
+        icon={Icon.Clipboard}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}>
+        {FORMATS.map(format => (
+          <Action
+            key={format}
+            title={EXPORT_FORMATS[format].title}
+            onAction={() => exportRecords(options, columns, format, "clipboard")}
+          />
+        ))}
+      </ActionPanel.Submenu>
+      <ActionPanel.Submenu title="Save Results to File" icon={Icon.Download}>
+        {FORMATS.map(format => (
+          <Action
+            key={format}
+            title={EXPORT_FORMATS[format].title}
+            onAction={() => exportRecords(options, columns, format, "file")}
+          />
+        ))}
+      </ActionPanel.Submenu>
+      <Action.Push
+        title="Export with Columns…"
+        icon={Icon.Switch}
+        target={<ExportForm {...options} columns={columns} />}
+      />
+    </ActionPanel.Section>
+  );
+}
@@ -0,0 +1,142 @@
+import { Action, ActionPanel, Icon, List, open } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { useCompanies } from "../hooks/use-companies";
+import { useOdooError } from "../hooks/use-odoo-error";
+import { useOdooProfile } from "../hooks/use-odoo-profile";
+import { useOdooUrls } from "../hooks/use-odoo-urls";
+import { usePaginatedSearch } from "../hooks/use-paginated-search";
+import { PAGE_SIZE } from "../services/odoo";
+import { OdooFields, OdooModel, OdooPage, OdooRecord } from "../types";
+import { ModelColumns, formatFieldValue, pickColumns, toAccessory } from "../utils/fields";
+import { formatRecordCount } from "../utils/format";
+import { CompanyActions } from "./company-actions";
+import { ErrorEmptyView } from "./error-empty-view";
+import { ExportActions } from "./export-actions";
+
+interface ModelRecordListProps {
+  model: OdooModel;
+}
+
+export function ModelRecordList({ model }: ModelRecordListProps) {
+  const { odooService, baseUrl, isLoading: isLoadingProfile } = useOdooProfile();
+  const [searchText, setSearchText] = useState("");
+  const [fields, setFields] = useState<OdooFields>({});
+  const [columns, setColumns] = useState<ModelColumns | null>(null);
+  const { error, report, clear, retry, retryCount } = useOdooError();
+  const urls = useOdooUrls(odooService, baseUrl);
+  const companies = useCompanies(odooService);
+
+  const getFieldNames = (selected: ModelColumns) =>
+    [...new Set(["id", "display_name", selected.title, selected.subtitle, ...selected.accessories])].filter(
+      (name): name is string => !!name,
+    );
+
+  // Fonction pour récupérer une page d'enregistrements du modèle
+  const fetchRecords = async (query: string, offset: number, signal: AbortSignal): Promise<OdooPage<OdooRecord>> => {
+    if (!odooService || !columns) return { records: [], total: 0, hasMore: false };
+
+    const searchField = fields.name ? "name" : "display_name";
+    const domain = query.trim() ? [[searchField, "ilike", query]] : [];
+    return odooService.searchPage<OdooRecord>(
+      model.model,
+      domain,
+      { fields: getFieldNames(columns), limit: PAGE_SIZE, offset },
+      { signal },
+    );
+  };
+
+  const { records, total, hasMore, isLoading, setIsLoading, loadMore } = usePaginatedSearch<OdooRecord>({
+    name: "records",
+    searchText,
+    key: companies.selectionKey,
+    enabled: !!columns,
+    fetchPage: fetchRecords,
+    onSuccess: clear,
+    onError: report,
+  });
+
+  // Effect pour récupérer les métadonnées du modèle et choisir les colonnes
+  useEffect(() => {
+    if (!odooService) {
+      return;
+    }
+
+    const initializeData = async () => {
+      try {
+        // La recherche démarre une fois les colonnes choisies
+        setColumns(null);
+        const metadata = await odooService.fieldsGet(model.model);
+        setFields(metadata);
+        setColumns(pickColumns(metadata));
+        clear();
+      } catch (error) {
+        console.error("Error during initialization:", error);
+        report(error);
+        setIsLoading(false);
+      }
+    };
+
+    initializeData();
+  }, [odooService, retryCount]);
+
+  const getRecordUrl = (record: OdooRecord) => urls.record(model.model, record.id);
+
+  const getTitle = (record: OdooRecord) =>
+    (columns && formatFieldValue(record[columns.title], fields[columns.title])) || `${model.name} #${record.id}`;
+
+  return (
+    <List
+      isLoading={isLoading || isLoadingProfile}
+      onSearchTextChange={setSearchText}
+      pagination={{ onLoadMore: loadMore, hasMore, pageSize: PAGE_SIZE }}
+      navigationTitle={model.name}
+      searchBarPlaceholder={`Search ${model.name} by name...`}
+      throttle>
+      {error && records.length === 0 && !isLoading && <ErrorEmptyView error={error} onRetry={retry} />}
+      <List.Section title={model.name} subtitle={formatRecordCount(records.length, total, "record")}>
+        {columns &&
+          records.map(record => (
+            <List.Item
+              key={record.id}
+              title={getTitle(record)}
+              subtitle={
+                columns.subtitle ? formatFieldValue(record[columns.subtitle], fields[columns.subtitle]) : undefined
+              }
+              accessories={columns.accessories
+                .map(name => toAccessory(record[name], fields[name]))
+                .filter((accessory): accessory is List.Item.Accessory => accessory !== null)}
+              actions={
+                <ActionPanel>
+                  <Action title="Open in Odoo" onAction={() => open(getRecordUrl(record))} icon={Icon.Globe} />
+                  <Action.CopyToClipboard title="Copy Name" content={getTitle(record)} />
+                  <Action.CopyToClipboard title="Copy URL" content={getRecordUrl(record)} />
+                  <Action.CopyToClipboard
+                    title="Copy Record ID"
+                    content={String(record.id)}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+                  />
+                  <ExportActions
+                    records={records}
+                    name={model.name}
+                    fields={fields}
+                    odooService={odooService}
+                    model={model.model}
+                  />
+                  <CompanyActions state={companies} />
+                </ActionPanel>
+              }
+            />
+          ))}
+      </List.Section>
+      {searchText.length > 0 && searchText.length < 2 && (
+        <List.EmptyView title="Type at least 2 characters" description={`Start typing to search ${model.name}`} />
+      )}
+      {records.length === 0 && !isLoading && !error && searchText.length !== 1 && (
+        <List.EmptyView
+          title="No records found"
+          description={searchText ? `No ${model.name} match "${searchText}".` : `No ${model.name} available.`}
+        />
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,94 @@
+import { Action, ActionPanel, Icon, LaunchType, Toast, launchCommand, showToast } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { exportVCard } from "../services/partners";
+import { OdooPartner } from "../types";
+import { formatAddress } from "../utils/format";
+import { ContactList } from "./contact-list";
+import { TicketList } from "./ticket-list";
+
+interface PartnerActionsProps {
+  partner: OdooPartner;
+  tags: string[];
+  url: string;
+}
+
+// Numéro composable par l'application de téléphonie : chiffres et indicatif international uniquement
+const toTel = (phone: string) => `tel:${phone.replace(/[^\d+]/g, "")}`;
+
+/**
+ * Actions de communication et de navigation d'un contact, partagées par la liste et la fiche
+ */
+export function PartnerActions({ partner, tags, url }: PartnerActionsProps) {
+  const address = formatAddress(partner);
+  // Les projets et tickets du contact, ou de tous les contacts de la société
+  const customerQuery = `customer:"${partner.name.replace(/"/g, "")}"`;
+
+  const saveVCard = async () => {
+    try {
+      await exportVCard(partner, tags);
+      await showToast({ style: Toast.Style.Success, title: "vCard exported", message: partner.name });
+    } catch (error) {
+      showFailureToast(error, { title: "Could not export the vCard" });
+    }
+  };
+
+  return (
+    <>
+      <ActionPanel.Section title="Contact">
+        {partner.email && (
+          <Action.OpenInBrowser
+            title="Send Email"
+            icon={Icon.Envelope}
+            url={`mailto:${partner.email}`}
+            shortcut={{ modifiers: ["cmd"], key: "e" }}
+          />
+        )}
+        {partner.phone && (
+          <Action.OpenInBrowser
+            title="Call"
+            icon={Icon.Phone}
+            url={toTel(partner.phone)}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "k" }}
+          />
+        )}
+        {partner.mobile && <Action.OpenInBrowser title="Call Mobile" icon={Icon.Mobile} url={toTel(partner.mobile)} />}
+        <Action.OpenInBrowser title="Open in Odoo" icon={Icon.Globe} url={url} />
+      </ActionPanel.Section>
+      <ActionPanel.Section title="Related">
+        {partner.is_company && (
+          <Action.Push title="Browse Contacts" icon={Icon.TwoPeople} target={<ContactList company={partner} />} />
+        )}
+        <Action
+          title="Browse Projects"
+          icon={Icon.Folder}
+          onAction={() =>
+            launchCommand({
+              name: "search-projects",
+              type: LaunchType.UserInitiated,
+              context: { query: customerQuery },
+            })
+          }
+        />
+        <Action.Push title="Browse Tickets" icon={Icon.Ticket} target={<TicketList initialQuery={customerQuery} />} />
+      </ActionPanel.Section>
+      <ActionPanel.Section>
+        {partner.email && <Action.CopyToClipboard title="Copy Email" content={partner.email} />}
+        {partner.phone && <Action.CopyToClipboard title="Copy Phone" content={partner.phone} />}
+        {address && (
+          <Action.CopyToClipboard
+            title="Copy Address"
+            content={[partner.is_company ? partner.name : partner.display_name || partner.name, address].join("\n")}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "." }}
+          />
+        )}
+        <Action
+          title="Export Contact Card"
+          icon={Icon.PersonCircle}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+          onAction={saveVCard}
+        />
+        <Action.CopyToClipboard title="Copy URL" content={url} />
+      </ActionPanel.Section>
+    </>
+  );
+}
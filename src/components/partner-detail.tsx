@@ -0,0 +1,133 @@
+import { Action, ActionPanel, Detail, Icon } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { useOdooError } from "../hooks/use-odoo-error";
+import { useOdooProfile } from "../hooks/use-odoo-profile";
+import { useOdooUrls } from "../hooks/use-odoo-urls";
+import { getPartner, getTagNames } from "../services/partners";
+import { OdooPartner } from "../types";
+import { formatAddress } from "../utils/format";
+import { htmlToMarkdown } from "../utils/html";
+import { describeOdooError } from "./error-empty-view";
+import { PartnerActions } from "./partner-actions";
+
+interface PartnerDetailProps {
+  partnerId: number;
+}
+
+// Contacts d'une société affichés dans la fiche
+const CONTACTS_LIMIT = 20;
+
+/**
+ * Fiche d'un contact (res.partner), ouverte depuis la liste des contacts, un projet ou un ticket
+ */
+export function PartnerDetail({ partnerId }: PartnerDetailProps) {
+  const { odooService, baseUrl } = useOdooProfile();
+  const urls = useOdooUrls(odooService, baseUrl);
+  const [partner, setPartner] = useState<OdooPartner | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [contacts, setContacts] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { error, report, clear, retry, retryCount } = useOdooError();
+
+  useEffect(() => {
+    if (!odooService) return;
+
+    const loadPartner = async () => {
+      setIsLoading(true);
+      try {
+        const loaded = await getPartner(odooService, partnerId);
+        setPartner(loaded);
+        clear();
+
+        // Étiquettes et contacts de la société sont secondaires : une erreur ne masque pas la fiche
+        const [tagNames, contactNames] = await Promise.all([
+          getTagNames(odooService, [loaded]),
+          odooService.getDisplayNames("res.partner", (loaded.child_ids || []).slice(0, CONTACTS_LIMIT)),
+        ]).catch(error => {
+          console.error("Error loading contact relations:", error);
+          return [{}, {}] as Record<number, string>[];
+        });
+        setTags((loaded.category_id || []).map(id => tagNames[id]).filter(Boolean));
+        setContacts(Object.values(contactNames));
+      } catch (error) {
+        console.error("Error loading contact:", error);
+        report(error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPartner();
+  }, [odooService, partnerId, retryCount]);
+
+  if (!partner) {
+    const presentation = error ? describeOdooError(error) : null;
+    return (
+      <Detail
+        isLoading={isLoading}
+        markdown={presentation ? `## ${presentation.title}\n\n${presentation.description}` : undefined}
+        actions={
+          error ? (
+            <ActionPanel>
+              <Action title="Retry" icon={Icon.ArrowClockwise} onAction={retry} />
+            </ActionPanel>
+          ) : undefined
+        }
+      />
+    );
+  }
+
+  const address = formatAddress(partner);
+  const role = [partner.function, partner.parent_id ? partner.parent_id[1] : undefined].filter(Boolean).join(" at ");
+  const markdown = [
+    `# ${partner.name}`,
+    role && `_${role}_`,
+    address && address.split("\n").join("  \n"),
+    htmlToMarkdown(partner.comment),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={partner.name}
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Type" text={partner.is_company ? "Company" : "Person"} />
+          {partner.parent_id && <Detail.Metadata.Label title="Company" text={partner.parent_id[1]} />}
+          {partner.function && <Detail.Metadata.Label title="Job Position" text={partner.function} />}
+          {partner.email && (
+            <Detail.Metadata.Link title="Email" target={`mailto:${partner.email}`} text={partner.email} />
+          )}
+          {partner.phone && <Detail.Metadata.Label title="Phone" text={partner.phone} />}
+          {partner.mobile && <Detail.Metadata.Label title="Mobile" text={partner.mobile} />}
+          {partner.website && <Detail.Metadata.Link title="Website" target={partner.website} text={partner.website} />}
+          <Detail.Metadata.Label title="Salesperson" text={partner.user_id ? partner.user_id[1] : "—"} />
+          {tags.length > 0 && (
+            <Detail.Metadata.TagList title="Tags">
+              {tags.map(tag => (
+                <Detail.Metadata.TagList.Item key={tag} text={tag} />
+              ))}
+            </Detail.Metadata.TagList>
+          )}
+          {contacts.length > 0 && (
+            <>
+              <Detail.Metadata.Separator />
+              <Detail.Metadata.Label
+                title={`Contacts (${partner.child_ids?.length ?? contacts.length})`}
+                text={contacts.join(", ")}
+              />
+            </>
+          )}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <PartnerActions partner={partner} tags={tags} url={urls.record("res.partner", partner.id)} />
+        </ActionPanel>
+      }
+    />
+  );
+}
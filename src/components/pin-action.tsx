@@ -0,0 +1,17 @@
+import { Action, Icon } from "@raycast/api";
+
+interface PinActionProps {
+  isPinned: boolean;
+  onToggle: () => void;
+}
+
+export function PinAction({ isPinned, onToggle }: PinActionProps) {
+  return (
+    <Action
+      title={isPinned ? "Unpin" : "Pin"}
+      icon={isPinned ? Icon.PinDisabled : Icon.Pin}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+      onAction={onToggle}
+    />
+  );
+}
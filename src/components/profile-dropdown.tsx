@@ -0,0 +1,78 @@
+import { Icon, List } from "@raycast/api";
+import { OdooProfile } from "../types";
+
+export interface DropdownFilter {
+  title: string;
+  value: string;
+  icon?: Icon;
+}
+
+interface ProfileDropdownProps {
+  profiles: OdooProfile[];
+  profile: OdooProfile | null;
+  onProfileChange: (id: string) => void;
+  filters?: DropdownFilter[];
+  filter?: string;
+  onFilterChange?: (value: string) => void;
+}
+
+const SEPARATOR = "::";
+
+/**
+ * Sélecteur de profil pour la barre de recherche, combiné aux filtres propres à la liste
+ */
+export function ProfileDropdown({
+  profiles,
+  profile,
+  onProfileChange,
+  filters,
+  filter,
+  onFilterChange,
+}: ProfileDropdownProps) {
+  if (!profile) return null;
+
+  const handleChange = (value: string) => {
+    const [profileId, filterValue] = value.split(SEPARATOR);
+    if (profileId !== profile.id) {
+      onProfileChange(profileId);
+    }
+    if (filterValue !== undefined && filterValue !== filter) {
+      onFilterChange?.(filterValue);
+    }
+  };
+
+  // Sans filtre, une simple liste de profils
+  if (!filters || filters.length === 0) {
+    if (profiles.length < 2) return null;
+
+    return (
+      <List.Dropdown tooltip="Switch Odoo Profile" value={profile.id} onChange={handleChange}>
+        {profiles.map(item => (
+          <List.Dropdown.Item key={item.id} title={item.name} value={item.id} icon={Icon.HardDrive} />
+        ))}
+      </List.Dropdown>
+    );
+  }
+
+  // Avec filtres, une section par profil contenant les filtres
+  const visibleProfiles = profiles.length > 1 ? profiles : [profile];
+  return (
+    <List.Dropdown
+      tooltip={profiles.length > 1 ? "Filter and Switch Odoo Profile" : "Filter"}
+      value={`${profile.id}${SEPARATOR}${filter}`}
+      onChange={handleChange}>
+      {visibleProfiles.map(item => (
+        <List.Dropdown.Section key={item.id} title={profiles.length > 1 ? item.name : undefined}>
+          {filters.map(option => (
+            <List.Dropdown.Item
+              key={option.value}
+              title={option.title}
+              value={`${item.id}${SEPARATOR}${option.value}`}
+              icon={option.icon}
+            />
+          ))}
+        </List.Dropdown.Section>
+      ))}
+    </List.Dropdown>
+  );
+}
@@ -0,0 +1,24 @@
+import { Action, ActionPanel, Icon, LaunchType, List, launchCommand, openExtensionPreferences } from "@raycast/api";
+
+/**
+ * Vue affichée lorsqu'aucun profil Odoo n'est configuré
+ */
+export function ProfileEmptyView() {
+  return (
+    <List.EmptyView
+      icon={Icon.HardDrive}
+      title="No Odoo profile configured"
+      description="Fill in the extension preferences, add a profile with the Manage Profiles command, or enable the demo instance in the preferences to try the extension offline."
+      actions={
+        <ActionPanel>
+          <Action
+            title="Manage Profiles"
+            icon={Icon.HardDrive}
+            onAction={() => launchCommand({ name: "manage-profiles", type: LaunchType.UserInitiated })}
+          />
+          <Action title="Open Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,355 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { OdooAuthError, OdooTwoFactorError, toOdooError } from "../services/errors";
+import { OdooService } from "../services/odoo";
+import { saveProfile } from "../services/profiles";
+import { OdooAuthMethod, OdooProfile } from "../types";
+import { FieldErrors, hasErrors } from "../utils/validation";
+import { describeOdooError } from "./error-empty-view";
+
+interface ProfileFormProps {
+  profile?: OdooProfile;
+  onSaved: (profile: OdooProfile) => void;
+}
+
+type ProfileValues = Omit<OdooProfile, "id"> & { code?: string };
+
+type CheckedField = "name" | "odooUrl" | "database" | "userLogin" | "apiKey" | "code";
+
+const CHECKED_FIELDS: CheckedField[] = ["name", "odooUrl", "database", "userLogin", "apiKey", "code"];
+
+const SETUP_STEPS = [
+  "1. Enter the address of your Odoo instance: its databases are listed when the server allows it.",
+  "2. Sign in with an API key (My Profile › Account Security › New API Key) or with your password if your administrator does not allow API keys.",
+  "3. Each step is checked against the server before the profile is saved.",
+].join("\n");
+
+/**
+ * Erreur d'un champ, undefined s'il est valide
+ */
+function validateField(
+  field: CheckedField,
+  value: string | undefined,
+  authMethod: OdooAuthMethod,
+  needsCode: boolean,
+): string | undefined {
+  const text = (value || "").trim();
+  switch (field) {
+    case "name":
+      return text ? undefined : "Name is required";
+    case "odooUrl":
+      return /^https?:\/\/\S+$/.test(text) ? undefined : "Enter a URL starting with http:// or https://";
+    case "database":
+      return text ? undefined : "Database is required";
+    case "userLogin":
+      return text ? undefined : "Login is required";
+    case "apiKey":
+      if (value) return undefined;
+      return authMethod === "session" ? "Password is required" : "API key is required";
+    case "code":
+      return !needsCode || /^\d{6}$/.test(text.replace(/\s/g, ""))
+        ? undefined
+        : "Enter the 6-digit code from your authenticator app";
+  }
+}
+
+/**
+ * Vérifie les champs obligatoires et le format de l'URL
+ */
+function validateProfile(values: ProfileValues, authMethod: OdooAuthMethod, needsCode: boolean): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const field of CHECKED_FIELDS) {
+    const error = validateField(field, values[field], authMethod, needsCode);
+    if (error) errors[field] = error;
+  }
+  return errors;
+}
+
+/**
+ * Vérifie la connexion étape par étape (serveur, base, identifiants, code) et rattache chaque échec à son champ
+ */
+async function checkConnection(values: ProfileValues): Promise<FieldErrors> {
+  const service = new OdooService(values);
+  try {
+    await service.version();
+  } catch (error) {
+    return { odooUrl: `Cannot reach Odoo at this URL: ${toOdooError(error).message}` };
+  }
+
+  try {
+    const databases = await service.listDatabases();
+    if (!databases.includes(values.database)) {
+      return { database: `Not found on this server. Available: ${databases.join(", ") || "none"}` };
+    }
+  } catch {
+    // list_db = False est courant en production : la connexion dira si la base existe
+  }
+
+  try {
+    await service.authenticate();
+    return {};
+  } catch (error) {
+    if (error instanceof OdooTwoFactorError) {
+      if (!values.code) return { code: "Enter the 6-digit code from your authenticator app" };
+      try {
+        await service.verifyCode(values.code);
+        return {};
+      } catch (codeError) {
+        return { code: toOdooError(codeError).message };
+      }
+    }
+    if (error instanceof OdooAuthError) {
+      return { apiKey: error.message };
+    }
+    throw error;
+  }
+}
+
+export function ProfileForm({ profile, onSaved }: ProfileFormProps) {
+  const { pop } = useNavigation();
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [authMethod, setAuthMethod] = useState<OdooAuthMethod>(profile?.authMethod || "apiKey");
+  const [database, setDatabase] = useState(profile?.database || "");
+  const [databases, setDatabases] = useState<string[]>([]);
+  const [needsCode, setNeedsCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const clearError = (field: string) => {
+    if (errors[field]) {
+      setErrors({ ...errors, [field]: undefined });
+    }
+  };
+
+  // Chaque champ est validé dès que l'on en sort
+  const checkField = (field: CheckedField, value: string | undefined) => {
+    const error = validateField(field, value, authMethod, needsCode);
+    if (error !== errors[field]) {
+      setErrors({ ...errors, [field]: error });
+    }
+  };
+
+  // Liste les bases de l'instance pour les proposer dans un menu, si le serveur l'autorise
+  const loadDatabases = async (odooUrl: string | undefined) => {
+    checkField("odooUrl", odooUrl);
+    if (validateField("odooUrl", odooUrl, authMethod, needsCode)) return;
+
+    setIsLoading(true);
+    try {
+      const service = new OdooService({ odooUrl: (odooUrl || "").trim(), database: "", userLogin: "", apiKey: "" });
+      const available = await service.listDatabases();
+      setDatabases(available);
+      if (!database && available.length > 0) setDatabase(available[0]);
+    } catch {
+      // Listing désactivé ou serveur injoignable : la base se saisit à la main
+      setDatabases([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const normalize = (values: ProfileValues): ProfileValues => ({
+    ...values,
+    name: values.name.trim(),
+    odooUrl: values.odooUrl.trim(),
+    database: database.trim(),
+    userLogin: values.userLogin.trim(),
+    authMethod,
+    protocol: authMethod === "session" ? profile?.protocol : values.protocol,
+  });
+
+  /**
+   * Valide les champs puis la connexion ; retourne les valeurs prêtes à enregistrer, ou null
+   */
+  const verify = async (formValues: ProfileValues, toast: Toast): Promise<ProfileValues | null> => {
+    const values = normalize(formValues);
+    const validationErrors = validateProfile(values, authMethod, needsCode);
+    if (hasErrors(validationErrors)) {
+      toast.hide();
+      setErrors(validationErrors);
+      return null;
+    }
+
+    try {
+      const connectionErrors = await checkConnection(values);
+      if (hasErrors(connectionErrors)) {
+        toast.hide();
+        setNeedsCode(needsCode || !!connectionErrors.code);
+        setErrors(connectionErrors);
+        return null;
+      }
+      return values;
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = describeOdooError(toOdooError(error)).title;
+      toast.message = error instanceof Error ? error.message : String(error);
+      return null;
+    }
+  };
+
+  const testConnection = async (formValues: ProfileValues) => {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Testing connection..." });
+    if (await verify(formValues, toast)) {
+      toast.style = Toast.Style.Success;
+      toast.title = "Connection successful";
+    }
+  };
+
+  const save = async (values: ProfileValues) => {
+    const saved = await saveProfile({
+      id: profile?.id,
+      name: values.name,
+      odooUrl: values.odooUrl,
+      database: values.database,
+      userLogin: values.userLogin,
+      apiKey: values.apiKey,
+      protocol: values.protocol,
+      authMethod: values.authMethod,
+    });
+    await showToast({ style: Toast.Style.Success, title: "Profile saved", message: saved.name });
+    onSaved(saved);
+    pop();
+  };
+
+  const handleSubmit = async (formValues: ProfileValues) => {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Checking connection..." });
+    const values = await verify(formValues, toast);
+    if (values) {
+      toast.hide();
+      await save(values);
+    }
+  };
+
+  // Enregistre sans contacter le serveur, par exemple pour préparer un profil hors ligne
+  const saveWithoutChecking = async (formValues: ProfileValues) => {
+    const values = normalize(formValues);
+    const validationErrors = validateProfile(values, authMethod, false);
+    if (hasErrors(validationErrors)) {
+      setErrors(validationErrors);
+      return;
+    }
+    await save(values);
+  };
+
+  const secretTitle = authMethod === "session" ? "Password" : "API Key";
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={profile ? `Edit ${profile.name}` : "New Profile"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Profile" icon={Icon.Check} onSubmit={handleSubmit} />
+          <Action.SubmitForm title="Test Connection" icon={Icon.Network} onSubmit={testConnection} />
+          <Action.SubmitForm
+            title="Save Without Checking"
+            icon={Icon.SaveDocument}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+            onSubmit={saveWithoutChecking}
+          />
+        </ActionPanel>
+      }>
+      {!profile && <Form.Description title="Setup" text={SETUP_STEPS} />}
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="Production"
+        defaultValue={profile?.name}
+        error={errors.name}
+        onChange={() => clearError("name")}
+        onBlur={event => checkField("name", event.target.value)}
+      />
+      <Form.TextField
+        id="odooUrl"
+        title="Odoo Instance URL"
+        placeholder="https://mycompany.odoo.com"
+        defaultValue={profile?.odooUrl}
+        error={errors.odooUrl}
+        onChange={() => clearError("odooUrl")}
+        onBlur={event => loadDatabases(event.target.value)}
+      />
+      {databases.length > 0 ? (
+        <Form.Dropdown
+          id="database"
+          title="Database"
+          value={database}
+          error={errors.database}
+          onChange={value => {
+            setDatabase(value);
+            clearError("database");
+          }}>
+          {databases.map(name => (
+            <Form.Dropdown.Item key={name} value={name} title={name} />
+          ))}
+        </Form.Dropdown>
+      ) : (
+        <Form.TextField
+          id="database"
+          title="Database Name"
+          info="Usually the first part of your Odoo address, e.g. mycompany for mycompany.odoo.com"
+          value={database}
+          error={errors.database}
+          onChange={value => {
+            setDatabase(value);
+            clearError("database");
+          }}
+          onBlur={event => checkField("database", event.target.value)}
+        />
+      )}
+      <Form.TextField
+        id="userLogin"
+        title="User Login"
+        placeholder="me@mycompany.com"
+        defaultValue={profile?.userLogin}
+        error={errors.userLogin}
+        onChange={() => clearError("userLogin")}
+        onBlur={event => checkField("userLogin", event.target.value)}
+      />
+      <Form.Separator />
+      <Form.Dropdown
+        id="authMethod"
+        title="Sign in With"
+        value={authMethod}
+        onChange={value => {
+          setAuthMethod(value as OdooAuthMethod);
+          setNeedsCode(false);
+          clearError("apiKey");
+        }}>
+        <Form.Dropdown.Item value="apiKey" title="API Key" icon={Icon.Key} />
+        <Form.Dropdown.Item value="session" title="Password (Web Session)" icon={Icon.Lock} />
+      </Form.Dropdown>
+      <Form.PasswordField
+        id="apiKey"
+        title={secretTitle}
+        info={
+          authMethod === "session"
+            ? "Opens a web session like the browser does, renewed automatically when it expires"
+            : "Create one in Odoo under My Profile › Account Security › New API Key"
+        }
+        defaultValue={profile?.apiKey}
+        error={errors.apiKey}
+        onChange={() => clearError("apiKey")}
+        onBlur={event => checkField("apiKey", event.target.value)}
+      />
+      {needsCode && (
+        <Form.TextField
+          id="code"
+          title="Authentication Code"
+          placeholder="123456"
+          info="Code from your authenticator app. This Mac is then trusted, so you will not be asked again."
+          error={errors.code}
+          onChange={() => clearError("code")}
+          onBlur={event => checkField("code", event.target.value)}
+        />
+      )}
+      {authMethod === "apiKey" && (
+        <Form.Dropdown id="protocol" title="Protocol" defaultValue={profile?.protocol || "auto"}>
+          <Form.Dropdown.Item value="auto" title="Auto-detect" />
+          <Form.Dropdown.Item value="jsonrpc" title="JSON-RPC" />
+          <Form.Dropdown.Item value="xmlrpc" title="XML-RPC" />
+          <Form.Dropdown.Item value="json2" title="JSON-2" />
+        </Form.Dropdown>
+      )}
+      <Form.Description text={`The ${secretTitle.toLowerCase()} is encrypted before being stored on this Mac.`} />
+    </Form>
+  );
+}
@@ -0,0 +1,109 @@
+import { Icon, List } from "@raycast/api";
+import { ReactNode } from "react";
+import { RelatedRecords } from "../hooks/use-record-relations";
+import { RecordRelations } from "../services/relations";
+import { htmlToMarkdown } from "../utils/html";
+
+const MAX_FOLLOWERS = 8;
+const MESSAGE_LENGTH = 280;
+
+interface RecordDetailProps {
+  recordId: number;
+  title: string;
+  description?: string | false; // HTML
+  related: RelatedRecords;
+  children?: ReactNode; // Champs clés de l'enregistrement
+}
+
+const formatFileSize = (bytes?: number) => {
+  if (!bytes) return undefined;
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * Sous-tâches et derniers messages du chatter, à la suite de la description
+ */
+function getRelationsMarkdown(relations: RecordRelations): string {
+  const sections: string[] = [];
+
+  if (relations.subtasks.length > 0) {
+    sections.push(
+      "## Sub-tasks",
+      relations.subtasks.map(task => `- ${task.name}${task.stage_id ? ` · _${task.stage_id[1]}_` : ""}`).join("\n"),
+    );
+  }
+
+  if (relations.messages.length > 0) {
+    sections.push(
+      "## Latest Activity",
+      relations.messages
+        .map(message => {
+          const author = message.author_id ? message.author_id[1] : "System";
+          const date = new Date(`${message.date.replace(" ", "T")}Z`).toLocaleString();
+          let body = htmlToMarkdown(message.body || "").trim();
+          if (body.length > MESSAGE_LENGTH) {
+            body = `${body.slice(0, MESSAGE_LENGTH)}…`;
+          }
+          return `**${author}** · ${date}\n\n${body || "_No content_"}`;
+        })
+        .join("\n\n---\n\n"),
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Panneau de détail commun : description, champs clés, puis abonnés, pièces jointes et chatter chargés à la demande
+ */
+export function RecordDetail({ recordId, title, description, related, children }: RecordDetailProps) {
+  const relations = related.recordId === recordId ? related.relations : null;
+  const isLoading = related.recordId === recordId && related.isLoading;
+  const error = related.recordId === recordId ? related.error : null;
+  // Les résultats de l'index local n'ont pas de description : elle arrive avec les données liées
+  const html = description !== undefined ? description : relations?.description;
+
+  const markdown = [
+    `# ${title}`,
+    htmlToMarkdown(html) || "_No description_",
+    relations ? getRelationsMarkdown(relations) : "",
+    error ? `_Related records could not be loaded: ${error.message}_` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return (
+    <List.Item.Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      metadata={
+        <List.Item.Detail.Metadata>
+          {children}
+          {relations && (relations.followers.length > 0 || relations.attachments.length > 0) && (
+            <List.Item.Detail.Metadata.Separator />
+          )}
+          {relations && relations.followers.length > 0 && (
+            <List.Item.Detail.Metadata.TagList title="Followers">
+              {relations.followers.slice(0, MAX_FOLLOWERS).map((follower, index) => (
+                <List.Item.Detail.Metadata.TagList.Item key={index} text={follower} />
+              ))}
+              {relations.followers.length > MAX_FOLLOWERS && (
+                <List.Item.Detail.Metadata.TagList.Item text={`+${relations.followers.length - MAX_FOLLOWERS}`} />
+              )}
+            </List.Item.Detail.Metadata.TagList>
+          )}
+          {relations?.attachments.map((attachment, index) => (
+            <List.Item.Detail.Metadata.Label
+              key={attachment.id}
+              title={index === 0 ? "Attachments" : ""}
+              icon={Icon.Paperclip}
+              text={[attachment.name, formatFileSize(attachment.file_size)].filter(Boolean).join(" · ")}
+            />
+          ))}
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
@@ -0,0 +1,274 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useState, useEffect } from "react";
+import { useOdooProfile } from "../hooks/use-odoo-profile";
+import { OdooService } from "../services/odoo";
+import { OdooFields, OdooStage, OdooUser } from "../types";
+import { textToHtml } from "../utils/html";
+import { FieldErrors, hasErrors, mapServerError, validateValues } from "../utils/validation";
+
+interface RecordFormProps {
+  model: string;
+  recordId: number;
+  recordName: string;
+  onUpdated?: () => void;
+}
+
+/**
+ * Enregistre des valeurs sur un enregistrement en reportant les erreurs Odoo sur les champs
+ */
+async function submitWrite(
+  odooService: OdooService,
+  { model, recordId, recordName }: RecordFormProps,
+  values: Record<string, unknown>,
+  fields: OdooFields,
+  successTitle: string,
+): Promise<FieldErrors | null> {
+  const validationErrors = validateValues(values, fields);
+  if (hasErrors(validationErrors)) {
+    return validationErrors;
+  }
+
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Saving..." });
+  try {
+    await odooService.write(model, [recordId], values);
+    toast.style = Toast.Style.Success;
+    toast.title = successTitle;
+    toast.message = recordName;
+    return null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const fieldErrors = mapServerError(error, fields, Object.keys(values));
+    if (hasErrors(fieldErrors)) {
+      toast.hide();
+      return fieldErrors;
+    }
+    toast.style = Toast.Style.Failure;
+    toast.title = "Update failed";
+    toast.message = message;
+    return {};
+  }
+}
+
+interface ChangeStageFormProps extends RecordFormProps {
+  stageModel: string;
+  stageDomain: unknown[];
+  currentStageId?: number;
+}
+
+export function ChangeStageForm(props: ChangeStageFormProps) {
+  const { model, recordName, stageModel, stageDomain, currentStageId, onUpdated } = props;
+  const { odooService } = useOdooProfile();
+  const { pop } = useNavigation();
+  const [stages, setStages] = useState<OdooStage[]>([]);
+  const [fields, setFields] = useState<OdooFields>({});
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!odooService) return;
+
+    const loadStages = async () => {
+      try {
+        const [stagesData, fieldsData] = await Promise.all([
+          odooService.searchRead<OdooStage>(stageModel, stageDomain, { fields: ["id", "name", "sequence", "fold"] }),
+          odooService.fieldsGet(model, ["stage_id"]),
+        ]);
+        setStages([...stagesData].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0)));
+        setFields(fieldsData);
+      } catch (error) {
+        console.error("Error loading stages:", error);
+        showFailureToast(error, { title: "Could not load stages" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadStages();
+  }, [odooService]);
+
+  const handleSubmit = async (formValues: { stage_id: string }) => {
+    if (!odooService) return;
+
+    const stageId = Number(formValues.stage_id);
+    const result = await submitWrite(odooService, props, { stage_id: stageId }, fields, "Stage updated");
+    if (result) {
+      setErrors(result);
+      return;
+    }
+    onUpdated?.();
+    pop();
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={`Change Stage of ${recordName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Change Stage" icon={Icon.ArrowRight} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }>
+      <Form.Dropdown
+        id="stage_id"
+        title={fields.stage_id?.string || "Stage"}
+        defaultValue={currentStageId ? String(currentStageId) : undefined}
+        error={errors.stage_id}
+        onChange={() => setErrors({})}>
+        {stages.map(stage => (
+          <Form.Dropdown.Item
+            key={stage.id}
+            value={String(stage.id)}
+            title={stage.name}
+            icon={stage.id === currentStageId ? Icon.CheckCircle : Icon.Circle}
+          />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
+
+interface AssignUserFormProps extends RecordFormProps {
+  field: "user_id" | "user_ids";
+  currentUserIds: number[];
+}
+
+export function AssignUserForm(props: AssignUserFormProps) {
+  const { model, recordName, field, currentUserIds, onUpdated } = props;
+  const { odooService } = useOdooProfile();
+  const { pop } = useNavigation();
+  const [users, setUsers] = useState<OdooUser[]>([]);
+  const [fields, setFields] = useState<OdooFields>({});
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!odooService) return;
+
+    const loadUsers = async () => {
+      try {
+        const [usersData, fieldsData] = await Promise.all([
+          odooService.searchRead<OdooUser>("res.users", [["share", "=", false]], {
+            fields: ["id", "name"],
+            limit: 200,
+          }),
+          odooService.fieldsGet(model, [field]),
+        ]);
+        setUsers(usersData);
+        setFields(fieldsData);
+      } catch (error) {
+        console.error("Error loading users:", error);
+        showFailureToast(error, { title: "Could not load users" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadUsers();
+  }, [odooService]);
+
+  const handleSubmit = async (formValues: Record<string, string | string[]>) => {
+    if (!odooService) return;
+
+    const value = formValues[field];
+    const values =
+      field === "user_ids"
+        ? { user_ids: [[6, 0, (value as string[]).map(Number)]] }
+        : { user_id: value ? Number(value) : false };
+
+    const result = await submitWrite(odooService, props, values, fields, "Assignment updated");
+    if (result) {
+      setErrors(result);
+      return;
+    }
+    onUpdated?.();
+    pop();
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={`Reassign ${recordName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Reassign" icon={Icon.Person} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }>
+      {field === "user_ids" ? (
+        <Form.TagPicker
+          id="user_ids"
+          title={fields.user_ids?.string || "Assignees"}
+          defaultValue={currentUserIds.map(String)}
+          error={errors.user_ids}
+          onChange={() => setErrors({})}>
+          {users.map(user => (
+            <Form.TagPicker.Item key={user.id} value={String(user.id)} title={user.name} />
+          ))}
+        </Form.TagPicker>
+      ) : (
+        <Form.Dropdown
+          id="user_id"
+          title={fields.user_id?.string || "Assigned to"}
+          defaultValue={currentUserIds.length > 0 ? String(currentUserIds[0]) : ""}
+          error={errors.user_id}
+          onChange={() => setErrors({})}>
+          <Form.Dropdown.Item value="" title="Unassigned" />
+          {users.map(user => (
+            <Form.Dropdown.Item key={user.id} value={String(user.id)} title={user.name} />
+          ))}
+        </Form.Dropdown>
+      )}
+    </Form>
+  );
+}
+
+export function PostNoteForm({ model, recordId, recordName, onUpdated }: RecordFormProps) {
+  const { odooService } = useOdooProfile();
+  const { pop } = useNavigation();
+  const [body, setBody] = useState("");
+  const [error, setError] = useState<string | undefined>();
+
+  const handleSubmit = async () => {
+    if (!odooService) return;
+    if (!body.trim()) {
+      setError("The note cannot be empty");
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Posting note..." });
+    try {
+      await odooService.postNote(model, recordId, textToHtml(body.trim()));
+      toast.style = Toast.Style.Success;
+      toast.title = "Note posted";
+      toast.message = recordName;
+      onUpdated?.();
+      pop();
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to post note";
+      toast.message = error instanceof Error ? error.message : String(error);
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Log Note on ${recordName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Post Note" icon={Icon.Bubble} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }>
+      <Form.TextArea
+        id="body"
+        title="Note"
+        placeholder="Internal note visible to followers with access to this record"
+        value={body}
+        error={error}
+        onChange={value => {
+          setBody(value);
+          setError(undefined);
+        }}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,122 @@
+import { Action, ActionPanel, Alert, Form, Icon, Toast, confirmAlert, showToast, useNavigation } from "@raycast/api";
+import { createDeeplink } from "@raycast/utils";
+import { useState } from "react";
+import { QuerySchema, describeQuerySyntax } from "../services/query";
+import { deleteSavedSearch, saveSearch } from "../services/saved-searches";
+import { SavedSearch, SearchCommand, SearchLaunchContext } from "../types";
+
+interface SaveSearchFormProps {
+  command: SearchCommand;
+  query: string;
+  schema: QuerySchema;
+  savedSearch?: SavedSearch | null; // Recherche mise à jour
+  onSaved: (search: SavedSearch) => void;
+}
+
+export function SaveSearchForm({ command, query, schema, savedSearch, onSaved }: SaveSearchFormProps) {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  const handleSubmit = async (values: { name: string; query: string }) => {
+    if (!values.name.trim()) {
+      setNameError("Name is required");
+      return;
+    }
+
+    const saved = await saveSearch({
+      id: savedSearch?.id,
+      name: values.name.trim(),
+      command,
+      query: values.query.trim(),
+    });
+    await showToast({ style: Toast.Style.Success, title: "Search saved", message: saved.name });
+    onSaved(saved);
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle="Save Search"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Search" icon={Icon.SaveDocument} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }>
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="In progress for ACME"
+        defaultValue={savedSearch?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.TextField
+        id="query"
+        title="Query"
+        defaultValue={query}
+        info={`Free text plus filters: ${describeQuerySyntax(schema)} — quote values with spaces, prefix with - to exclude`}
+      />
+    </Form>
+  );
+}
+
+interface SavedSearchActionsProps extends Omit<SaveSearchFormProps, "onSaved"> {
+  onChange: (search: SavedSearch | null) => void;
+}
+
+const getLaunchContext = (search: SavedSearch): SearchLaunchContext => ({ query: search.query });
+
+/**
+ * Enregistrement de la recherche courante, quicklink et suppression de la recherche sélectionnée
+ */
+export function SavedSearchActions({ command, query, schema, savedSearch, onChange }: SavedSearchActionsProps) {
+  const remove = async (search: SavedSearch) => {
+    const confirmed = await confirmAlert({
+      title: `Delete "${search.name}"?`,
+      message: "Quicklinks created from this search keep working with the query they were created with.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    await deleteSavedSearch(search.id);
+    await showToast({ style: Toast.Style.Success, title: "Search deleted", message: search.name });
+    onChange(null);
+  };
+
+  return (
+    <ActionPanel.Section title="Saved Searches">
+      <Action.Push
+        title={savedSearch ? "Update Saved Search" : "Save Search"}
+        icon={Icon.SaveDocument}
+        shortcut={{ modifiers: ["cmd"], key: "s" }}
+        target={
+          <SaveSearchForm
+            command={command}
+            query={query}
+            schema={schema}
+            savedSearch={savedSearch}
+            onSaved={search => onChange(search)}
+          />
+        }
+      />
+      {savedSearch && (
+        <Action.CreateQuicklink
+          title="Create Quicklink"
+          quicklink={{
+            name: savedSearch.name,
+            link: createDeeplink({ command, context: getLaunchContext(savedSearch) }),
+          }}
+        />
+      )}
+      {savedSearch && (
+        <Action
+          title="Delete Saved Search"
+          icon={Icon.Trash}
+          style={Action.Style.Destructive}
+          shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+          onAction={() => remove(savedSearch)}
+        />
+      )}
+    </ActionPanel.Section>
+  );
+}
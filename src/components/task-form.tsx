@@ -0,0 +1,174 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useState, useEffect } from "react";
+import { useOdooProfile } from "../hooks/use-odoo-profile";
+import { OdooFields, OdooUser, Project } from "../types";
+import { textToHtml } from "../utils/html";
+import { FieldErrors, hasErrors, mapServerError, toOdooDate, validateValues } from "../utils/validation";
+
+const FORM_FIELDS = ["name", "project_id", "user_ids", "date_deadline", "priority", "description"];
+
+interface TaskFormProps {
+  project?: Project;
+  onCreated?: () => void;
+}
+
+export function TaskForm({ project, onCreated }: TaskFormProps) {
+  const { odooService } = useOdooProfile();
+  const { pop } = useNavigation();
+  const [projects, setProjects] = useState<Project[]>(project ? [project] : []);
+  const [users, setUsers] = useState<OdooUser[]>([]);
+  const [fields, setFields] = useState<OdooFields>({});
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Charge les projets, les utilisateurs et les métadonnées des champs
+  useEffect(() => {
+    if (!odooService) return;
+
+    const loadFormData = async () => {
+      try {
+        const [projectsData, usersData, fieldsData] = await Promise.all([
+          project
+            ? Promise.resolve([project])
+            : odooService.getAll<Project>("project.project", { fields: ["id", "name"] }),
+          odooService.searchRead<OdooUser>("res.users", [["share", "=", false]], {
+            fields: ["id", "name"],
+            limit: 200,
+          }),
+          odooService.fieldsGet("project.task", FORM_FIELDS),
+        ]);
+        setProjects(projectsData);
+        setUsers(usersData);
+        setFields(fieldsData);
+      } catch (error) {
+        console.error("Error loading task form:", error);
+        showFailureToast(error, { title: "Could not load projects" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadFormData();
+  }, [odooService]);
+
+  const clearError = (field: string) => {
+    if (errors[field]) {
+      setErrors({ ...errors, [field]: undefined });
+    }
+  };
+
+  const handleSubmit = async (formValues: {
+    project_id: string;
+    user_ids: string[];
+    date_deadline: Date | null;
+    priority: boolean;
+  }) => {
+    if (!odooService) return;
+
+    const values: Record<string, unknown> = {
+      name,
+      project_id: Number(formValues.project_id),
+      date_deadline: formValues.date_deadline ? toOdooDate(formValues.date_deadline) : false,
+      priority: formValues.priority ? "1" : "0",
+      ...(formValues.user_ids.length > 0 ? { user_ids: [[6, 0, formValues.user_ids.map(Number)]] } : {}),
+      ...(description.trim() ? { description: textToHtml(description) } : {}),
+    };
+
+    const validationErrors = validateValues(values, fields);
+    if (hasErrors(validationErrors)) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Creating task..." });
+    try {
+      await odooService.create("project.task", values);
+      toast.style = Toast.Style.Success;
+      toast.title = "Task created";
+      toast.message = name;
+
+      if (onCreated) {
+        onCreated();
+        pop();
+      } else {
+        setName("");
+        setDescription("");
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const fieldErrors = mapServerError(error, fields, FORM_FIELDS);
+      if (hasErrors(fieldErrors)) {
+        toast.hide();
+        setErrors(fieldErrors);
+      } else {
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to create task";
+        toast.message = message;
+      }
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Create Task"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Create Task" icon={Icon.Plus} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }>
+      <Form.TextField
+        id="name"
+        title={fields.name?.string || "Title"}
+        placeholder="What needs to be done?"
+        value={name}
+        error={errors.name}
+        onChange={value => {
+          setName(value);
+          clearError("name");
+        }}
+      />
+      <Form.Dropdown
+        id="project_id"
+        title={fields.project_id?.string || "Project"}
+        defaultValue={project ? String(project.id) : undefined}
+        storeValue={!project}
+        error={errors.project_id}
+        onChange={() => clearError("project_id")}>
+        {projects.map(item => (
+          <Form.Dropdown.Item key={item.id} value={String(item.id)} title={item.name} />
+        ))}
+      </Form.Dropdown>
+      <Form.TagPicker
+        id="user_ids"
+        title={fields.user_ids?.string || "Assignees"}
+        error={errors.user_ids}
+        onChange={() => clearError("user_ids")}>
+        {users.map(user => (
+          <Form.TagPicker.Item key={user.id} value={String(user.id)} title={user.name} />
+        ))}
+      </Form.TagPicker>
+      <Form.DatePicker
+        id="date_deadline"
+        title={fields.date_deadline?.string || "Deadline"}
+        type={Form.DatePicker.Type.Date}
+        error={errors.date_deadline}
+        onChange={() => clearError("date_deadline")}
+      />
+      <Form.Checkbox id="priority" label="High priority" defaultValue={false} />
+      <Form.TextArea
+        id="description"
+        title={fields.description?.string || "Description"}
+        value={description}
+        error={errors.description}
+        onChange={value => {
+          setDescription(value);
+          clearError("description");
+        }}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,448 @@
+import { Action, ActionPanel, Color, Icon, List, open } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useState, useEffect } from "react";
+import { useCompanies } from "../hooks/use-companies";
+import { useLocalIndex } from "../hooks/use-local-index";
+import { useOdooError } from "../hooks/use-odoo-error";
+import { useOdooProfile } from "../hooks/use-odoo-profile";
+import { useOdooUrls } from "../hooks/use-odoo-urls";
+import { usePaginatedSearch } from "../hooks/use-paginated-search";
+import { useRecordRelations } from "../hooks/use-record-relations";
+import { useRecordUsage } from "../hooks/use-record-usage";
+import { useRunningTimer } from "../hooks/use-running-timer";
+import { useSavedSearches } from "../hooks/use-saved-searches";
+import { PAGE_SIZE } from "../services/odoo";
+import { QUERY_SCHEMAS, compileQuery, hasQueryFilters, parseQuery } from "../services/query";
+import { isTimerFor } from "../services/timer";
+import { OdooPage, Project, SavedSearch, Task } from "../types";
+import { formatSyncedAt } from "../utils/date";
+import { formatRecordCount } from "../utils/format";
+import { CompanyActions } from "./company-actions";
+import { ErrorEmptyView } from "./error-empty-view";
+import { ExportActions } from "./export-actions";
+import { PinAction } from "./pin-action";
+import { ProfileDropdown } from "./profile-dropdown";
+import { ProfileEmptyView } from "./profile-empty-view";
+import { RecordDetail } from "./record-detail";
+import { AssignUserForm, ChangeStageForm, PostNoteForm } from "./record-forms";
+import { SavedSearchActions } from "./saved-search-actions";
+import { TimerActions } from "./timer-actions";
+import { TaskForm } from "./task-form";
+
+const TASK_FIELDS = [
+  "id",
+  "name",
+  "display_name",
+  "description",
+  "project_id",
+  "stage_id",
+  "user_ids",
+  "date_deadline",
+  "priority",
+  "company_id",
+  "tag_ids",
+  "active",
+];
+
+const TASK_OPTIONS = { fields: TASK_FIELDS, limit: PAGE_SIZE, order: "priority desc, date_deadline asc, id desc" };
+const QUERY_SCHEMA = QUERY_SCHEMAS["project.task"];
+
+// "my", "all" ou une recherche enregistrée
+type TaskFilter = string;
+
+// Filtres prédéfinis du sélecteur, exprimés dans la syntaxe de recherche pour survivre à l'enregistrement
+const PRESETS: Record<string, string> = { my: "user:me", all: "" };
+
+// Page de tâches avec les noms de ses assignés et étiquettes
+type TaskPage = OdooPage<Task> & { users: Record<number, string>; tags: Record<number, string> };
+
+interface TaskListProps {
+  project?: Project;
+  initialQuery?: string; // Requête d'un quicklink de recherche enregistrée
+}
+
+export function TaskList({ project, initialQuery }: TaskListProps) {
+  const { profiles, profile, odooService, baseUrl, isLoading: isLoadingProfile, switchProfile } = useOdooProfile();
+  const localIndex = useLocalIndex<Task>(odooService, "project.task", TASK_FIELDS);
+  const initialFilter: TaskFilter = project || initialQuery ? "all" : "my";
+  const [searchText, setSearchText] = useState(initialQuery ?? PRESETS[initialFilter]);
+  const [filter, setFilter] = useState<TaskFilter>(initialFilter);
+  const [userNames, setUserNames] = useState<Record<number, string>>({});
+  const [tagNames, setTagNames] = useState<Record<number, string>>({});
+  const [uid, setUid] = useState<number | null>(null);
+  const [isShowingDetail, setIsShowingDetail] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [connectionChecked, setConnectionChecked] = useState(false);
+  const [syncedAt, setSyncedAt] = useState<Date | null>(null);
+  const { error, report, clear, retry, retryCount } = useOdooError();
+  const { timer, refresh: refreshTimer } = useRunningTimer();
+  const urls = useOdooUrls(odooService, baseUrl);
+  const savedSearches = useSavedSearches("search-tasks");
+  const usage = useRecordUsage<Task>(odooService, "project.task");
+  const companies = useCompanies(odooService);
+  const [isGroupedByCompany, setIsGroupedByCompany] = useState(false);
+  const related = useRecordRelations(odooService, "project.task", isShowingDetail ? Number(selectedId) : null);
+
+  // Construit le domaine à partir du projet et de la recherche (stage:, user:, tag:...)
+  const buildDomain = (query: string, currentUid = uid): unknown[] => {
+    const domain: unknown[] = [];
+    if (project) {
+      domain.push(["project_id", "=", project.id]);
+    }
+    domain.push(...compileQuery(parseQuery(query, QUERY_SCHEMA), QUERY_SCHEMA, currentUid));
+    return domain;
+  };
+
+  // Équivalent client du domaine, pour filtrer l'index local
+  const matchesFilter = (task: Task) => !project || task.project_id?.[0] === project.id;
+
+  // Fonction pour récupérer une page de tâches et les noms de ses assignés / étiquettes
+  const fetchTasks = async (query: string, offset: number, signal: AbortSignal): Promise<TaskPage> => {
+    if (!odooService) return { records: [], total: 0, hasMore: false, users: {}, tags: {} };
+
+    const page = await odooService.searchPage<Task>(
+      "project.task",
+      buildDomain(query),
+      { ...TASK_OPTIONS, offset },
+      { signal },
+    );
+    const userIds = [...new Set(page.records.flatMap(task => task.user_ids || []))];
+    const tagIds = [...new Set(page.records.flatMap(task => task.tag_ids || []))];
+    const [users, tags] = await Promise.all([
+      odooService.getDisplayNames("res.users", userIds, { signal }),
+      odooService.getDisplayNames("project.tags", tagIds, { signal }),
+    ]);
+    return { ...page, users, tags };
+  };
+
+  const {
+    records: tasks,
+    setRecords: setTasks,
+    total,
+    setTotal,
+    hasMore,
+    isLoading,
+    setIsLoading,
+    loadMore,
+    reload,
+  } = usePaginatedSearch<Task, TaskPage>({
+    name: "tasks",
+    searchText,
+    key: [localIndex.version, companies.selectionKey].join("|"),
+    enabled: connectionChecked,
+    fetchPage: fetchTasks,
+    onPage: (page, query, offset) => {
+      if (!query.trim() && offset === 0) {
+        setSyncedAt(odooService?.peekSearchRead("project.task", buildDomain(""), TASK_OPTIONS)?.syncedAt || null);
+      }
+      setUserNames(current => ({ ...current, ...page.users }));
+      setTagNames(current => ({ ...current, ...page.tags }));
+    },
+    searchLocally: query =>
+      query.length > 0 && localIndex.isReady && !hasQueryFilters(query, QUERY_SCHEMA)
+        ? localIndex.search(query, task => matchesFilter(task) && companies.isSelected(task))
+        : null,
+    onSuccess: clear,
+    onError: report,
+  });
+
+  // Effect pour vérifier la connexion et récupérer l'UID courant du profil actif
+  useEffect(() => {
+    if (!odooService) {
+      setIsLoading(false);
+      return;
+    }
+
+    const initializeData = async () => {
+      try {
+        setIsLoading(true);
+        setConnectionChecked(false);
+
+        // Afficher immédiatement les derniers résultats connus, rafraîchis ensuite en arrière-plan
+        const cached = odooService.peekSearchRead<Task>(
+          "project.task",
+          buildDomain(searchText, odooService.peekUid()),
+          TASK_OPTIONS,
+        );
+        setTasks(cached?.data || []);
+        setTotal(odooService.peekSearchCount("project.task", buildDomain(searchText, odooService.peekUid())));
+        setSyncedAt(cached?.syncedAt || null);
+        setUserNames(odooService.peekDisplayNames("res.users"));
+        setTagNames(odooService.peekDisplayNames("project.tags"));
+
+        const currentUid = await odooService.authenticate();
+        clear();
+        setUid(currentUid);
+        setConnectionChecked(true);
+      } catch (error) {
+        console.error("Error during initialization:", error);
+        report(error);
+        // Hors ligne, l'index local reste consultable avec le dernier UID connu
+        setUid(odooService.peekUid());
+        setIsLoading(false);
+      }
+    };
+
+    initializeData();
+  }, [odooService, retryCount]);
+
+  const getTaskUrl = (task: Task) => urls.record("project.task", task.id);
+
+  // Fonction pour ouvrir la tâche dans le navigateur
+  const openTask = (task: Task) => {
+    usage.visit(task);
+    try {
+      open(getTaskUrl(task));
+    } catch (error) {
+      console.error("Error opening task:", error);
+      showFailureToast({
+        title: "Error opening task",
+        message: "Could not open the task. Please check the URL manually.",
+      });
+    }
+  };
+
+  // Un filtre du sélecteur remplace la recherche par sa requête, modifiable ensuite
+  const changeFilter = (value: string) => {
+    setFilter(value);
+    setSearchText(savedSearches.find(value)?.query ?? PRESETS[value] ?? "");
+  };
+
+  const savedSearch = savedSearches.find(filter);
+
+  const handleSavedSearchChange = (search: SavedSearch | null) => {
+    savedSearches.refresh();
+    setFilter(search ? savedSearches.getValue(search) : "all");
+  };
+
+  const savedSearchActions = (
+    <SavedSearchActions
+      command="search-tasks"
+      query={searchText}
+      schema={QUERY_SCHEMA}
+      savedSearch={savedSearch}
+      onChange={handleSavedSearchChange}
+    />
+  );
+
+  const getAssignees = (task: Task) => (task.user_ids || []).map(id => userNames[id]).filter(Boolean);
+
+  const getTags = (task: Task) => (task.tag_ids || []).map(id => tagNames[id]).filter(Boolean);
+
+  const getAccessories = (task: Task): List.Item.Accessory[] => {
+    const timerAccessory = isTimerFor(timer, "project.task", task.id)
+      ? [{ icon: Icon.Stopwatch, tooltip: "Timer running" }]
+      : [];
+    if (isShowingDetail) {
+      return [...timerAccessory, ...(task.stage_id ? [{ tag: task.stage_id[1] }] : [])];
+    }
+
+    const assignees = getAssignees(task);
+    const tags = getTags(task);
+    const deadline = task.date_deadline ? new Date(task.date_deadline) : null;
+    const isOverdue = deadline !== null && deadline.getTime() < Date.now();
+
+    return [
+      ...timerAccessory,
+      ...tags.slice(0, 2).map(tag => ({ tag: tag })),
+      ...(assignees.length > 0 ? [{ icon: Icon.Person, text: assignees.join(", "), tooltip: "Assignees" }] : []),
+      ...(deadline
+        ? [{ date: { value: deadline, color: isOverdue ? Color.Red : undefined }, tooltip: "Deadline" }]
+        : []),
+      ...(task.stage_id ? [{ tag: task.stage_id[1] }] : []),
+    ];
+  };
+
+  const getDetail = (task: Task) => {
+    const assignees = getAssignees(task);
+    const tags = getTags(task);
+
+    return (
+      <RecordDetail recordId={task.id} title={task.name} description={task.description} related={related}>
+        {task.project_id && <List.Item.Detail.Metadata.Label title="Project" text={task.project_id[1]} />}
+        {task.stage_id && <List.Item.Detail.Metadata.Label title="Stage" text={task.stage_id[1]} />}
+        <List.Item.Detail.Metadata.Label title="Priority" text={task.priority === "1" ? "High" : "Normal"} />
+        <List.Item.Detail.Metadata.Label title="Assignees" text={assignees.length > 0 ? assignees.join(", ") : "—"} />
+        {task.date_deadline && (
+          <List.Item.Detail.Metadata.Label title="Deadline" text={new Date(task.date_deadline).toLocaleDateString()} />
+        )}
+        {tags.length > 0 && (
+          <List.Item.Detail.Metadata.TagList title="Tags">
+            {tags.map(tag => (
+              <List.Item.Detail.Metadata.TagList.Item key={tag} text={tag} />
+            ))}
+          </List.Item.Detail.Metadata.TagList>
+        )}
+      </RecordDetail>
+    );
+  };
+
+  const title = project ? `Tasks of ${project.display_name || project.name}` : "Tasks";
+
+  // Épinglées et récentes (du projet affiché) au-dessus des résultats, eux-mêmes classés par frécence
+  const { pinned, recent, others } = usage.arrange(tasks, {
+    showSections: searchText.length === 0,
+    filter: task => !project || task.project_id?.[0] === project.id,
+  });
+
+  const renderTask = (task: Task) => (
+    <List.Item
+      key={task.id}
+      id={String(task.id)}
+      icon={task.priority === "1" ? { source: Icon.Star, tintColor: Color.Yellow } : Icon.Circle}
+      title={task.display_name || task.name}
+      subtitle={!project && !isShowingDetail && task.project_id ? task.project_id[1] : undefined}
+      accessories={getAccessories(task)}
+      detail={getDetail(task)}
+      actions={
+        <ActionPanel>
+          <Action title="Open Task" onAction={() => openTask(task)} icon="📝" />
+          <PinAction isPinned={usage.isPinned(task.id)} onToggle={() => usage.toggle(task, task.name)} />
+          <Action
+            title={isShowingDetail ? "Hide Details" : "Show Details"}
+            icon={Icon.Sidebar}
+            shortcut={{ modifiers: ["cmd"], key: "d" }}
+            onAction={() => setIsShowingDetail(!isShowingDetail)}
+          />
+          <ActionPanel.Section>
+            {profile && (
+              <TimerActions
+                profileId={profile.id}
+                model="project.task"
+                recordId={task.id}
+                recordName={task.name}
+                projectId={task.project_id ? task.project_id[0] : undefined}
+                timer={timer}
+                onChange={refreshTimer}
+              />
+            )}
+            <Action.Push
+              title="Change Stage"
+              icon={Icon.ArrowRight}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+              target={
+                <ChangeStageForm
+                  model="project.task"
+                  recordId={task.id}
+                  recordName={task.name}
+                  stageModel="project.task.type"
+                  stageDomain={task.project_id ? [["project_ids", "in", [task.project_id[0]]]] : []}
+                  currentStageId={task.stage_id ? task.stage_id[0] : undefined}
+                  onUpdated={reload}
+                />
+              }
+            />
+            <Action.Push
+              title="Reassign"
+              icon={Icon.Person}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+              target={
+                <AssignUserForm
+                  model="project.task"
+                  recordId={task.id}
+                  recordName={task.name}
+                  field="user_ids"
+                  currentUserIds={task.user_ids || []}
+                  onUpdated={reload}
+                />
+              }
+            />
+            <Action.Push
+              title="Log Note"
+              icon={Icon.Bubble}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+              target={<PostNoteForm model="project.task" recordId={task.id} recordName={task.name} />}
+            />
+            <Action.Push
+              title="Create Task"
+              icon={Icon.Plus}
+              shortcut={{ modifiers: ["cmd"], key: "n" }}
+              target={<TaskForm project={project} onCreated={reload} />}
+            />
+          </ActionPanel.Section>
+          <ActionPanel.Section>
+            <Action.CopyToClipboard title="Copy Task Name" content={task.display_name || task.name} />
+            <Action.CopyToClipboard title="Copy Task URL" content={getTaskUrl(task)} />
+          </ActionPanel.Section>
+          <ExportActions records={tasks} name="tasks" odooService={odooService} model="project.task" />
+          {savedSearchActions}
+          <CompanyActions
+            state={companies}
+            isGrouped={isGroupedByCompany}
+            onToggleGroup={() => setIsGroupedByCompany(!isGroupedByCompany)}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading || isLoadingProfile || localIndex.isSyncing}
+      isShowingDetail={isShowingDetail && tasks.length > 0}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
+      onSelectionChange={setSelectedId}
+      pagination={{ onLoadMore: loadMore, hasMore, pageSize: PAGE_SIZE }}
+      navigationTitle={title}
+      searchBarPlaceholder="Search tasks, or filter with stage: user:me project: tag: priority:high..."
+      searchBarAccessory={
+        <ProfileDropdown
+          profiles={project ? [] : profiles}
+          profile={profile}
+          onProfileChange={switchProfile}
+          filters={[
+            { title: "My Tasks", value: "my", icon: Icon.Person },
+            { title: "All Tasks", value: "all", icon: Icon.List },
+            ...savedSearches.filters,
+          ]}
+          filter={filter}
+          onFilterChange={changeFilter}
+        />
+      }
+      throttle>
+      {!profile && !isLoadingProfile && <ProfileEmptyView />}
+      {error && tasks.length === 0 && !isLoading && <ErrorEmptyView error={error} onRetry={retry} />}
+      {pinned.length > 0 && <List.Section title="Pinned">{pinned.map(renderTask)}</List.Section>}
+      {recent.length > 0 && <List.Section title="Recent">{recent.map(renderTask)}</List.Section>}
+      {isGroupedByCompany && companies.isMultiCompany ? (
+        companies.group(others).map(group => (
+          <List.Section key={group.id} title={group.title} subtitle={String(group.records.length)}>
+            {group.records.map(renderTask)}
+          </List.Section>
+        ))
+      ) : (
+        <List.Section
+          title={title}
+          subtitle={[
+            formatRecordCount(tasks.length, total, "task"),
+            ...(syncedAt && searchText.length === 0 ? [formatSyncedAt(syncedAt)] : []),
+          ].join(" · ")}>
+          {others.map(renderTask)}
+        </List.Section>
+      )}
+      {searchText.length > 0 && searchText.length < 2 && !localIndex.isReady && (
+        <List.EmptyView title="Type at least 2 characters" description="Start typing to search for tasks by name" />
+      )}
+      {searchText.length >= 2 && tasks.length === 0 && !isLoading && !error && (
+        <List.EmptyView
+          title="No tasks found"
+          description={
+            searchText === PRESETS.my
+              ? "No tasks are assigned to you."
+              : `No tasks match "${searchText}". Try a different search term or switch to "All Tasks".`
+          }
+          actions={
+            <ActionPanel>
+              {savedSearchActions}
+              <CompanyActions state={companies} />
+            </ActionPanel>
+          }
+        />
+      )}
+      {searchText.length === 0 && tasks.length === 0 && !isLoading && connectionChecked && !error && (
+        <List.EmptyView title="No tasks available" description="No tasks found. You may not have access to any task." />
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,196 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useState, useEffect } from "react";
+import { useOdooProfile } from "../hooks/use-odoo-profile";
+import { HelpdeskTeam, OdooFields, OdooUser } from "../types";
+import { textToHtml } from "../utils/html";
+import { FieldErrors, hasErrors, mapServerError, validateValues } from "../utils/validation";
+
+const FORM_FIELDS = ["name", "team_id", "partner_email", "priority", "user_id", "description"];
+
+interface TicketFormProps {
+  team?: HelpdeskTeam;
+  onCreated?: () => void;
+}
+
+export function TicketForm({ team, onCreated }: TicketFormProps) {
+  const { odooService } = useOdooProfile();
+  const { pop } = useNavigation();
+  const [teams, setTeams] = useState<HelpdeskTeam[]>(team ? [team] : []);
+  const [users, setUsers] = useState<OdooUser[]>([]);
+  const [fields, setFields] = useState<OdooFields>({});
+  const [name, setName] = useState("");
+  const [partnerEmail, setPartnerEmail] = useState("");
+  const [description, setDescription] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Charge les équipes, les utilisateurs et les métadonnées des champs
+  useEffect(() => {
+    if (!odooService) return;
+
+    const loadFormData = async () => {
+      try {
+        const [teamsData, usersData, fieldsData] = await Promise.all([
+          team
+            ? Promise.resolve([team])
+            : odooService.getAll<HelpdeskTeam>("helpdesk.team", { fields: ["id", "name"] }),
+          odooService.searchRead<OdooUser>("res.users", [["share", "=", false]], {
+            fields: ["id", "name"],
+            limit: 200,
+          }),
+          odooService.fieldsGet("helpdesk.ticket", FORM_FIELDS),
+        ]);
+        setTeams(teamsData);
+        setUsers(usersData);
+        setFields(fieldsData);
+      } catch (error) {
+        console.error("Error loading ticket form:", error);
+        showFailureToast(error, { title: "Could not load helpdesk teams" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadFormData();
+  }, [odooService]);
+
+  const clearError = (field: string) => {
+    if (errors[field]) {
+      setErrors({ ...errors, [field]: undefined });
+    }
+  };
+
+  const handleSubmit = async (formValues: { team_id: string; priority: string; user_id: string }) => {
+    if (!odooService) return;
+
+    const values: Record<string, unknown> = {
+      name,
+      team_id: Number(formValues.team_id),
+      priority: formValues.priority,
+      ...(formValues.user_id ? { user_id: Number(formValues.user_id) } : {}),
+      ...(partnerEmail.trim() ? { partner_email: partnerEmail.trim() } : {}),
+      ...(description.trim() ? { description: textToHtml(description) } : {}),
+    };
+
+    const validationErrors = validateValues(values, fields);
+    if (partnerEmail.trim() && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(partnerEmail.trim())) {
+      validationErrors.partner_email = "Enter a valid email address";
+    }
+    if (hasErrors(validationErrors)) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Creating ticket..." });
+    try {
+      await odooService.create("helpdesk.ticket", values);
+      toast.style = Toast.Style.Success;
+      toast.title = "Ticket created";
+      toast.message = name;
+
+      if (onCreated) {
+        onCreated();
+        pop();
+      } else {
+        setName("");
+        setPartnerEmail("");
+        setDescription("");
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const fieldErrors = mapServerError(error, fields, FORM_FIELDS);
+      if (hasErrors(fieldErrors)) {
+        toast.hide();
+        setErrors(fieldErrors);
+      } else {
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to create ticket";
+        toast.message = message;
+      }
+    }
+  };
+
+  const priorities = fields.priority?.selection || [
+    ["0", "Low"],
+    ["1", "Medium"],
+    ["2", "High"],
+    ["3", "Urgent"],
+  ];
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Create Ticket"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Create Ticket" icon={Icon.Plus} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }>
+      <Form.TextField
+        id="name"
+        title={fields.name?.string || "Subject"}
+        placeholder="Short summary of the request"
+        value={name}
+        error={errors.name}
+        onChange={value => {
+          setName(value);
+          clearError("name");
+        }}
+      />
+      <Form.Dropdown
+        id="team_id"
+        title={fields.team_id?.string || "Helpdesk Team"}
+        defaultValue={team ? String(team.id) : undefined}
+        storeValue={!team}
+        error={errors.team_id}
+        onChange={() => clearError("team_id")}>
+        {teams.map(item => (
+          <Form.Dropdown.Item key={item.id} value={String(item.id)} title={item.name} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="partner_email"
+        title={fields.partner_email?.string || "Customer Email"}
+        placeholder="customer@example.com"
+        value={partnerEmail}
+        error={errors.partner_email}
+        onChange={value => {
+          setPartnerEmail(value);
+          clearError("partner_email");
+        }}
+      />
+      <Form.Dropdown
+        id="priority"
+        title={fields.priority?.string || "Priority"}
+        defaultValue="0"
+        error={errors.priority}
+        onChange={() => clearError("priority")}>
+        {priorities.map(([value, label]) => (
+          <Form.Dropdown.Item key={value} value={value} title={label} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown
+        id="user_id"
+        title={fields.user_id?.string || "Assigned to"}
+        defaultValue=""
+        error={errors.user_id}
+        onChange={() => clearError("user_id")}>
+        <Form.Dropdown.Item value="" title="Unassigned" />
+        {users.map(user => (
+          <Form.Dropdown.Item key={user.id} value={String(user.id)} title={user.name} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextArea
+        id="description"
+        title={fields.description?.string || "Description"}
+        value={description}
+        error={errors.description}
+        onChange={value => {
+          setDescription(value);
+          clearError("description");
+        }}
+      />
+    </Form>
+  );
+}
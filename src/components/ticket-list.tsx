@@ -0,0 +1,452 @@
+import { Action, ActionPanel, Color, Icon, List, open } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useState, useEffect } from "react";
+import { useCompanies } from "../hooks/use-companies";
+import { useLocalIndex } from "../hooks/use-local-index";
+import { useOdooError } from "../hooks/use-odoo-error";
+import { useOdooProfile } from "../hooks/use-odoo-profile";
+import { useOdooUrls } from "../hooks/use-odoo-urls";
+import { usePaginatedSearch } from "../hooks/use-paginated-search";
+import { useRecordRelations } from "../hooks/use-record-relations";
+import { useRecordUsage } from "../hooks/use-record-usage";
+import { useRunningTimer } from "../hooks/use-running-timer";
+import { useSavedSearches } from "../hooks/use-saved-searches";
+import { PAGE_SIZE } from "../services/odoo";
+import { QUERY_SCHEMAS, compileQuery, hasQueryFilters, parseQuery } from "../services/query";
+import { isTimerFor } from "../services/timer";
+import { HelpdeskTeam, HelpdeskTicket, OdooPage, SavedSearch } from "../types";
+import { formatSyncedAt } from "../utils/date";
+import { formatRecordCount } from "../utils/format";
+import { CompanyActions } from "./company-actions";
+import { ErrorEmptyView } from "./error-empty-view";
+import { ExportActions } from "./export-actions";
+import { PartnerDetail } from "./partner-detail";
+import { PinAction } from "./pin-action";
+import { ProfileDropdown } from "./profile-dropdown";
+import { ProfileEmptyView } from "./profile-empty-view";
+import { RecordDetail } from "./record-detail";
+import { AssignUserForm, ChangeStageForm, PostNoteForm } from "./record-forms";
+import { SavedSearchActions } from "./saved-search-actions";
+import { TimerActions } from "./timer-actions";
+import { TicketForm } from "./ticket-form";
+
+const TICKET_FIELDS = [
+  "id",
+  "name",
+  "display_name",
+  "description",
+  "ticket_ref",
+  "team_id",
+  "partner_id",
+  "partner_name",
+  "partner_email",
+  "stage_id",
+  "priority",
+  "company_id",
+  "sla_deadline",
+  "user_id",
+  "create_date",
+];
+
+const TICKET_OPTIONS = { fields: TICKET_FIELDS, limit: PAGE_SIZE, order: "priority desc, id desc" };
+const QUERY_SCHEMA = QUERY_SCHEMAS["helpdesk.ticket"];
+
+// Filtres prédéfinis du sélecteur, exprimés dans la syntaxe de recherche
+const PRESETS: Record<string, string> = {
+  all: "",
+  mine: "user:me",
+  urgent: "priority:urgent",
+  archived: "inactive:yes",
+};
+
+const PRIORITY_LABELS: Record<string, string> = {
+  "0": "Low",
+  "1": "Medium",
+  "2": "High",
+  "3": "Urgent",
+};
+
+interface TicketListProps {
+  team?: HelpdeskTeam;
+  initialQuery?: string; // Requête d'un quicklink de recherche enregistrée
+}
+
+export function TicketList({ team, initialQuery }: TicketListProps) {
+  const { profiles, profile, odooService, baseUrl, isLoading: isLoadingProfile, switchProfile } = useOdooProfile();
+  const localIndex = useLocalIndex<HelpdeskTicket>(odooService, "helpdesk.ticket", TICKET_FIELDS);
+  const [searchText, setSearchText] = useState(initialQuery || "");
+  const [filter, setFilter] = useState("all");
+  const [isShowingDetail, setIsShowingDetail] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [connectionChecked, setConnectionChecked] = useState(false);
+  const [syncedAt, setSyncedAt] = useState<Date | null>(null);
+  const { error, report, clear, retry, retryCount } = useOdooError();
+  const { timer, refresh: refreshTimer } = useRunningTimer();
+  const urls = useOdooUrls(odooService, baseUrl);
+  const savedSearches = useSavedSearches("search-tickets");
+  const usage = useRecordUsage<HelpdeskTicket>(odooService, "helpdesk.ticket");
+  const companies = useCompanies(odooService);
+  const [isGroupedByCompany, setIsGroupedByCompany] = useState(false);
+  const related = useRecordRelations(odooService, "helpdesk.ticket", isShowingDetail ? Number(selectedId) : null);
+
+  // Recherche par numéro, sujet ou client, et filtres (stage:, user:, priority:...)
+  const buildDomain = (query: string): unknown[] => {
+    const domain: unknown[] = team ? [["team_id", "=", team.id]] : [];
+    domain.push(...compileQuery(parseQuery(query, QUERY_SCHEMA), QUERY_SCHEMA, odooService?.peekUid() ?? null));
+    return domain;
+  };
+
+  // Fonction pour récupérer une page de tickets et le total du serveur
+  const fetchTickets = async (
+    query: string,
+    offset: number,
+    signal: AbortSignal,
+  ): Promise<OdooPage<HelpdeskTicket>> => {
+    if (!odooService) return { records: [], total: 0, hasMore: false };
+    return odooService.searchPage<HelpdeskTicket>(
+      "helpdesk.ticket",
+      buildDomain(query),
+      { ...TICKET_OPTIONS, offset },
+      { signal },
+    );
+  };
+
+  const {
+    records: tickets,
+    setRecords: setTickets,
+    total,
+    setTotal,
+    hasMore,
+    isLoading,
+    setIsLoading,
+    loadMore,
+    reload,
+  } = usePaginatedSearch<HelpdeskTicket>({
+    name: "tickets",
+    searchText,
+    key: [localIndex.version, companies.selectionKey].join("|"),
+    enabled: connectionChecked,
+    fetchPage: fetchTickets,
+    onPage: (_page, query, offset) => {
+      if (!query.trim() && offset === 0) {
+        setSyncedAt(odooService?.peekSearchRead("helpdesk.ticket", buildDomain(""), TICKET_OPTIONS)?.syncedAt || null);
+      }
+    },
+    searchLocally: query =>
+      query.length > 0 && localIndex.isReady && !hasQueryFilters(query, QUERY_SCHEMA)
+        ? localIndex.search(query, ticket => (!team || ticket.team_id?.[0] === team.id) && companies.isSelected(ticket))
+        : null,
+    onSuccess: clear,
+    onError: report,
+  });
+
+  // Effect pour vérifier la connexion et charger les données du profil actif
+  useEffect(() => {
+    if (!odooService) {
+      setIsLoading(false);
+      return;
+    }
+
+    const initializeData = async () => {
+      try {
+        setIsLoading(true);
+        setConnectionChecked(false);
+
+        // Afficher immédiatement les derniers résultats connus, rafraîchis ensuite en arrière-plan
+        const cached = odooService.peekSearchRead<HelpdeskTicket>("helpdesk.ticket", buildDomain(""), TICKET_OPTIONS);
+        setTickets(cached?.data || []);
+        setTotal(odooService.peekSearchCount("helpdesk.ticket", buildDomain("")));
+        setSyncedAt(cached?.syncedAt || null);
+
+        await odooService.authenticate();
+        clear();
+
+        // Le chargement des données est déclenché par l'effet de recherche
+        setConnectionChecked(true);
+      } catch (error) {
+        console.error("Error during initialization:", error);
+        report(error);
+        setIsLoading(false);
+      }
+    };
+
+    initializeData();
+  }, [odooService, retryCount]);
+
+  const getTicketUrl = (ticket: HelpdeskTicket) => urls.record("helpdesk.ticket", ticket.id);
+
+  // Fonction pour ouvrir le ticket dans le navigateur
+  const openTicket = (ticket: HelpdeskTicket) => {
+    usage.visit(ticket);
+    try {
+      open(getTicketUrl(ticket));
+    } catch (error) {
+      console.error("Error opening ticket:", error);
+      showFailureToast({
+        title: "Error opening ticket",
+        message: "Could not open the ticket. Please check the URL manually.",
+      });
+    }
+  };
+
+  // Un filtre du sélecteur remplace la recherche par sa requête, modifiable ensuite
+  const changeFilter = (value: string) => {
+    setFilter(value);
+    setSearchText(savedSearches.find(value)?.query ?? PRESETS[value] ?? "");
+  };
+
+  const savedSearch = savedSearches.find(filter);
+
+  const handleSavedSearchChange = (search: SavedSearch | null) => {
+    savedSearches.refresh();
+    setFilter(search ? savedSearches.getValue(search) : "all");
+  };
+
+  const savedSearchActions = (
+    <SavedSearchActions
+      command="search-tickets"
+      query={searchText}
+      schema={QUERY_SCHEMA}
+      savedSearch={savedSearch}
+      onChange={handleSavedSearchChange}
+    />
+  );
+
+  const getCustomer = (ticket: HelpdeskTicket) => (ticket.partner_id ? ticket.partner_id[1] : ticket.partner_name);
+
+  const getSlaDeadline = (ticket: HelpdeskTicket) => (ticket.sla_deadline ? new Date(ticket.sla_deadline) : null);
+
+  const getAccessories = (ticket: HelpdeskTicket): List.Item.Accessory[] => {
+    const timerAccessory = isTimerFor(timer, "helpdesk.ticket", ticket.id)
+      ? [{ icon: Icon.Stopwatch, tooltip: "Timer running" }]
+      : [];
+    if (isShowingDetail) {
+      return [...timerAccessory, ...(ticket.stage_id ? [{ tag: ticket.stage_id[1] }] : [])];
+    }
+
+    const slaDeadline = getSlaDeadline(ticket);
+    return [
+      ...timerAccessory,
+      ...(ticket.user_id ? [{ icon: Icon.Person, text: ticket.user_id[1], tooltip: "Assigned to" }] : []),
+      ...(slaDeadline
+        ? [
+            {
+              date: { value: slaDeadline, color: slaDeadline.getTime() < Date.now() ? Color.Red : undefined },
+              tooltip: "SLA Deadline",
+            },
+          ]
+        : []),
+      ...(ticket.stage_id ? [{ tag: ticket.stage_id[1] }] : []),
+    ];
+  };
+
+  const getDetail = (ticket: HelpdeskTicket) => {
+    const slaDeadline = getSlaDeadline(ticket);
+    const customer = getCustomer(ticket);
+
+    return (
+      <RecordDetail recordId={ticket.id} title={ticket.name} description={ticket.description} related={related}>
+        {ticket.ticket_ref && <List.Item.Detail.Metadata.Label title="Ticket" text={`#${ticket.ticket_ref}`} />}
+        {ticket.team_id && <List.Item.Detail.Metadata.Label title="Team" text={ticket.team_id[1]} />}
+        {ticket.stage_id && <List.Item.Detail.Metadata.Label title="Stage" text={ticket.stage_id[1]} />}
+        <List.Item.Detail.Metadata.Label
+          title="Priority"
+          text={PRIORITY_LABELS[ticket.priority || "0"] || ticket.priority}
+        />
+        <List.Item.Detail.Metadata.Label title="Assigned to" text={ticket.user_id ? ticket.user_id[1] : "—"} />
+        {slaDeadline && <List.Item.Detail.Metadata.Label title="SLA Deadline" text={slaDeadline.toLocaleString()} />}
+        <List.Item.Detail.Metadata.Separator />
+        {customer && <List.Item.Detail.Metadata.Label title="Customer" text={customer} />}
+        {ticket.partner_email && <List.Item.Detail.Metadata.Label title="Email" text={ticket.partner_email} />}
+      </RecordDetail>
+    );
+  };
+
+  const title = team ? `Tickets of ${team.display_name || team.name}` : "Tickets";
+
+  // Épinglés et récents (de l'équipe affichée) au-dessus des résultats, eux-mêmes classés par frécence
+  const { pinned, recent, others } = usage.arrange(tickets, {
+    showSections: searchText.length === 0,
+    filter: ticket => !team || ticket.team_id?.[0] === team.id,
+  });
+
+  const renderTicket = (ticket: HelpdeskTicket) => (
+    <List.Item
+      key={ticket.id}
+      id={String(ticket.id)}
+      icon={
+        ticket.priority && ticket.priority !== "0"
+          ? { source: Icon.Star, tintColor: ticket.priority === "3" ? Color.Red : Color.Yellow }
+          : Icon.Circle
+      }
+      title={ticket.name}
+      subtitle={
+        isShowingDetail
+          ? undefined
+          : [ticket.ticket_ref && `#${ticket.ticket_ref}`, getCustomer(ticket)].filter(Boolean).join(" · ")
+      }
+      accessories={getAccessories(ticket)}
+      detail={getDetail(ticket)}
+      actions={
+        <ActionPanel>
+          <Action title="Open Ticket" onAction={() => openTicket(ticket)} icon="🎫" />
+          <PinAction isPinned={usage.isPinned(ticket.id)} onToggle={() => usage.toggle(ticket, ticket.name)} />
+          <Action
+            title={isShowingDetail ? "Hide Details" : "Show Details"}
+            icon={Icon.Sidebar}
+            shortcut={{ modifiers: ["cmd"], key: "d" }}
+            onAction={() => setIsShowingDetail(!isShowingDetail)}
+          />
+          <ActionPanel.Section>
+            {profile && (
+              <TimerActions
+                profileId={profile.id}
+                model="helpdesk.ticket"
+                recordId={ticket.id}
+                recordName={ticket.name}
+                timer={timer}
+                onChange={refreshTimer}
+              />
+            )}
+            <Action.Push
+              title="Change Stage"
+              icon={Icon.ArrowRight}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+              target={
+                <ChangeStageForm
+                  model="helpdesk.ticket"
+                  recordId={ticket.id}
+                  recordName={ticket.name}
+                  stageModel="helpdesk.stage"
+                  stageDomain={ticket.team_id ? [["team_ids", "in", [ticket.team_id[0]]]] : []}
+                  currentStageId={ticket.stage_id ? ticket.stage_id[0] : undefined}
+                  onUpdated={reload}
+                />
+              }
+            />
+            <Action.Push
+              title="Reassign"
+              icon={Icon.Person}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+              target={
+                <AssignUserForm
+                  model="helpdesk.ticket"
+                  recordId={ticket.id}
+                  recordName={ticket.name}
+                  field="user_id"
+                  currentUserIds={ticket.user_id ? [ticket.user_id[0]] : []}
+                  onUpdated={reload}
+                />
+              }
+            />
+            <Action.Push
+              title="Log Note"
+              icon={Icon.Bubble}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+              target={<PostNoteForm model="helpdesk.ticket" recordId={ticket.id} recordName={ticket.name} />}
+            />
+            {ticket.partner_id && (
+              <Action.Push
+                title="Show Customer"
+                icon={Icon.Person}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+                target={<PartnerDetail partnerId={ticket.partner_id[0]} />}
+              />
+            )}
+            <Action.Push
+              title="Create Ticket"
+              icon={Icon.Plus}
+              shortcut={{ modifiers: ["cmd"], key: "n" }}
+              target={<TicketForm team={team} onCreated={reload} />}
+            />
+          </ActionPanel.Section>
+          <ActionPanel.Section>
+            <Action.CopyToClipboard title="Copy Ticket Subject" content={ticket.name} />
+            <Action.CopyToClipboard title="Copy Ticket URL" content={getTicketUrl(ticket)} />
+          </ActionPanel.Section>
+          <ExportActions records={tickets} name="tickets" odooService={odooService} model="helpdesk.ticket" />
+          {savedSearchActions}
+          <CompanyActions
+            state={companies}
+            isGrouped={isGroupedByCompany}
+            onToggleGroup={() => setIsGroupedByCompany(!isGroupedByCompany)}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading || isLoadingProfile || localIndex.isSyncing}
+      isShowingDetail={isShowingDetail && tickets.length > 0}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
+      onSelectionChange={setSelectedId}
+      pagination={{ onLoadMore: loadMore, hasMore, pageSize: PAGE_SIZE }}
+      navigationTitle={title}
+      searchBarPlaceholder="Search tickets, or filter with stage: user:me priority:urgent customer:..."
+      searchBarAccessory={
+        <ProfileDropdown
+          profiles={team ? [] : profiles}
+          profile={profile}
+          onProfileChange={switchProfile}
+          filters={[
+            { title: "All Tickets", value: "all", icon: Icon.List },
+            { title: "My Tickets", value: "mine", icon: Icon.Person },
+            { title: "Urgent Tickets", value: "urgent", icon: Icon.Alarm },
+            { title: "Archived Tickets", value: "archived", icon: Icon.Box },
+            ...savedSearches.filters,
+          ]}
+          filter={filter}
+          onFilterChange={changeFilter}
+        />
+      }
+      throttle>
+      {!profile && !isLoadingProfile && <ProfileEmptyView />}
+      {error && tickets.length === 0 && !isLoading && <ErrorEmptyView error={error} onRetry={retry} />}
+      {pinned.length > 0 && <List.Section title="Pinned">{pinned.map(renderTicket)}</List.Section>}
+      {recent.length > 0 && <List.Section title="Recent">{recent.map(renderTicket)}</List.Section>}
+      {isGroupedByCompany && companies.isMultiCompany ? (
+        companies.group(others).map(group => (
+          <List.Section key={group.id} title={group.title} subtitle={String(group.records.length)}>
+            {group.records.map(renderTicket)}
+          </List.Section>
+        ))
+      ) : (
+        <List.Section
+          title={title}
+          subtitle={[
+            formatRecordCount(tickets.length, total, "ticket"),
+            ...(syncedAt && searchText.length === 0 ? [formatSyncedAt(syncedAt)] : []),
+          ].join(" · ")}>
+          {others.map(renderTicket)}
+        </List.Section>
+      )}
+      {searchText.length > 0 && searchText.length < 2 && !localIndex.isReady && (
+        <List.EmptyView
+          title="Type at least 2 characters"
+          description="Start typing to search for tickets by number, subject or customer"
+        />
+      )}
+      {searchText.length >= 2 && tickets.length === 0 && !isLoading && !error && (
+        <List.EmptyView
+          title="No tickets found"
+          description={`No tickets match "${searchText}". Try a different search term or check if the Helpdesk module is installed in Odoo.`}
+          actions={
+            <ActionPanel>
+              {savedSearchActions}
+              <CompanyActions state={companies} />
+            </ActionPanel>
+          }
+        />
+      )}
+      {searchText.length === 0 && tickets.length === 0 && !isLoading && connectionChecked && !error && (
+        <List.EmptyView
+          title="No tickets available"
+          description="No tickets found. You may not have the necessary permissions to view helpdesk tickets."
+        />
+      )}
+    </List>
+  );
+}
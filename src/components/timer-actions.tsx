@@ -0,0 +1,57 @@
+import { Action, Alert, Icon, Keyboard, Toast, confirmAlert, showToast } from "@raycast/api";
+import { isTimerFor, startTimer } from "../services/timer";
+import { RunningTimer } from "../types";
+import { TimesheetForm } from "./timesheet-form";
+
+interface TimerActionsProps {
+  profileId: string;
+  model: RunningTimer["model"];
+  recordId: number;
+  recordName: string;
+  projectId?: number;
+  timer: RunningTimer | null;
+  onChange: () => void;
+}
+
+/**
+ * Démarre un minuteur sur l'enregistrement, ou l'arrête et saisit le temps s'il tourne déjà dessus
+ */
+export function TimerActions({
+  profileId,
+  model,
+  recordId,
+  recordName,
+  projectId,
+  timer,
+  onChange,
+}: TimerActionsProps) {
+  const shortcut: Keyboard.Shortcut = { modifiers: ["cmd", "shift"], key: "t" };
+
+  if (timer && isTimerFor(timer, model, recordId)) {
+    return (
+      <Action.Push
+        title="Stop & Log Time"
+        icon={Icon.Clock}
+        shortcut={shortcut}
+        target={<TimesheetForm timer={timer} onLogged={onChange} />}
+      />
+    );
+  }
+
+  const start = async () => {
+    if (timer) {
+      const confirmed = await confirmAlert({
+        title: "Replace running timer?",
+        message: `The timer on ${timer.recordName} will be discarded without logging its time.`,
+        primaryAction: { title: "Replace", style: Alert.ActionStyle.Destructive },
+      });
+      if (!confirmed) return;
+    }
+
+    await startTimer({ profileId, model, recordId, recordName, projectId });
+    await showToast({ style: Toast.Style.Success, title: "Timer started", message: recordName });
+    onChange();
+  };
+
+  return <Action title="Start Timer" icon={Icon.Stopwatch} shortcut={shortcut} onAction={start} />;
+}
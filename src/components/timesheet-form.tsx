@@ -0,0 +1,170 @@
+import { Action, ActionPanel, Alert, Form, Icon, Toast, confirmAlert, showToast, useNavigation } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useState, useEffect } from "react";
+import { OdooValidationError } from "../services/errors";
+import { OdooService } from "../services/odoo";
+import { getOdooService, getProfile } from "../services/profiles";
+import { clearTimer, getElapsedHours } from "../services/timer";
+import { OdooFields, RunningTimer } from "../types";
+import { formatDuration, parseDuration } from "../utils/date";
+import { FieldErrors, hasErrors, mapServerError, toOdooDate, validateValues } from "../utils/validation";
+
+const FORM_FIELDS = ["name", "unit_amount", "date", "project_id"];
+
+interface TimesheetFormProps {
+  timer: RunningTimer;
+  onLogged?: () => void;
+}
+
+/**
+ * Projet sur lequel imputer le temps : celui de la tâche, ou celui de l'équipe du ticket (helpdesk_timesheet)
+ */
+async function resolveProjectId(odooService: OdooService, timer: RunningTimer): Promise<number> {
+  if (timer.projectId) return timer.projectId;
+
+  const [record] =
+    (await odooService.execute<{ project_id: [number, string] | false }[]>(timer.model, "read", [[timer.recordId]], {
+      fields: ["project_id"],
+    })) || [];
+  if (!record?.project_id) {
+    throw new OdooValidationError(`${timer.recordName} is not linked to a project that tracks timesheets`);
+  }
+  return record.project_id[0];
+}
+
+export function TimesheetForm({ timer, onLogged }: TimesheetFormProps) {
+  const { pop } = useNavigation();
+  const [odooService, setOdooService] = useState<OdooService | null>(null);
+  const [fields, setFields] = useState<OdooFields>({});
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Le temps est saisi sur l'instance du minuteur, même si le profil actif a changé depuis
+  useEffect(() => {
+    const loadFormData = async () => {
+      try {
+        const profile = await getProfile(timer.profileId);
+        if (!profile) {
+          throw new Error("The profile this timer was started on no longer exists");
+        }
+        const service = getOdooService(profile);
+        setOdooService(service);
+        setFields(await service.fieldsGet("account.analytic.line", FORM_FIELDS));
+      } catch (error) {
+        console.error("Error loading timesheet form:", error);
+        showFailureToast(error, { title: "Could not load timesheets" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadFormData();
+  }, [timer]);
+
+  const clearError = (field: string) => {
+    if (errors[field]) {
+      setErrors({ ...errors, [field]: undefined });
+    }
+  };
+
+  const handleSubmit = async (formValues: { name: string; unit_amount: string; date: Date | null }) => {
+    if (!odooService) return;
+
+    const hours = parseDuration(formValues.unit_amount);
+    if (hours === null || hours <= 0) {
+      setErrors({ unit_amount: "Enter a duration like 1:30 or 1.5" });
+      return;
+    }
+
+    const values: Record<string, unknown> = {
+      name: formValues.name.trim() || "/",
+      unit_amount: hours,
+      date: toOdooDate(formValues.date || new Date()),
+      ...(timer.model === "project.task" ? { task_id: timer.recordId } : { helpdesk_ticket_id: timer.recordId }),
+    };
+
+    const validationErrors = validateValues(values, fields);
+    if (hasErrors(validationErrors)) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Logging time..." });
+    try {
+      values.project_id = await resolveProjectId(odooService, timer);
+      await odooService.create("account.analytic.line", values);
+      await clearTimer();
+      toast.style = Toast.Style.Success;
+      toast.title = `Logged ${formatDuration(hours)}`;
+      toast.message = timer.recordName;
+      onLogged?.();
+      pop();
+    } catch (error) {
+      const fieldErrors = mapServerError(error, fields, FORM_FIELDS);
+      if (hasErrors(fieldErrors)) {
+        toast.hide();
+        setErrors(fieldErrors);
+      } else {
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to log time";
+        toast.message = error instanceof Error ? error.message : String(error);
+      }
+    }
+  };
+
+  const discard = async () => {
+    const confirmed = await confirmAlert({
+      title: "Discard timer?",
+      message: `The time tracked on ${timer.recordName} will not be logged.`,
+      primaryAction: { title: "Discard", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    await clearTimer();
+    onLogged?.();
+    pop();
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Stop & Log"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Log Time" icon={Icon.Clock} onSubmit={handleSubmit} />
+          <Action
+            title="Discard Timer"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            onAction={discard}
+          />
+        </ActionPanel>
+      }>
+      <Form.Description title={timer.model === "project.task" ? "Task" : "Ticket"} text={timer.recordName} />
+      <Form.TextField
+        id="name"
+        title={fields.name?.string || "Description"}
+        placeholder="What did you work on?"
+        error={errors.name}
+        onChange={() => clearError("name")}
+      />
+      <Form.TextField
+        id="unit_amount"
+        title="Duration"
+        info="Hours and minutes (1:30) or decimal hours (1.5)"
+        defaultValue={formatDuration(getElapsedHours(timer))}
+        error={errors.unit_amount}
+        onChange={() => clearError("unit_amount")}
+      />
+      <Form.DatePicker
+        id="date"
+        title={fields.date?.string || "Date"}
+        type={Form.DatePicker.Type.Date}
+        defaultValue={new Date(timer.startedAt)}
+        error={errors.date}
+        onChange={() => clearError("date")}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,5 @@
+import { TaskForm } from "./components/task-form";
+
+export default function CreateTask() {
+  return <TaskForm />;
+}
@@ -0,0 +1,5 @@
+import { TicketForm } from "./components/ticket-form";
+
+export default function CreateTicket() {
+  return <TicketForm />;
+}
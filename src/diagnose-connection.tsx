@@ -0,0 +1,104 @@
+import { Action, ActionPanel, Color, Detail, Icon, LaunchType, List, launchCommand } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { ProfileEmptyView } from "./components/profile-empty-view";
+import { useOdooProfile } from "./hooks/use-odoo-profile";
+import { ConnectionDiagnostics, DiagnosticStatus, DiagnosticStep } from "./services/diagnostics";
+import { OdooProfile } from "./types";
+
+const STATUS_LABELS: Record<DiagnosticStatus, string> = {
+  success: "✅ OK",
+  warning: "⚠️ Warning",
+  failure: "❌ Failed",
+  skipped: "⏭️ Skipped",
+};
+
+const STATUS_COLORS: Record<DiagnosticStatus, Color> = {
+  success: Color.Green,
+  warning: Color.Yellow,
+  failure: Color.Red,
+  skipped: Color.SecondaryText,
+};
+
+/**
+ * Rapport en Markdown, sans la clé API, à coller dans un ticket de support
+ */
+function buildReport(profile: OdooProfile, steps: DiagnosticStep[], ranAt: Date): string {
+  const lines = [
+    "# Odoo Connection Diagnostics",
+    "",
+    `- **Profile:** ${profile.name}`,
+    `- **URL:** ${profile.odooUrl}`,
+    `- **Database:** ${profile.database}`,
+    `- **Login:** ${profile.userLogin}`,
+    `- **Protocol setting:** ${profile.protocol || "auto"}`,
+    `- **Sign-in method:** ${profile.authMethod === "session" ? "password (web session)" : "API key"}`,
+    `- **Run at:** ${ranAt.toISOString()}`,
+  ];
+
+  for (const step of steps) {
+    lines.push("", `## ${STATUS_LABELS[step.status]} · ${step.title}`, "", "```", step.detail, "```");
+  }
+  return lines.join("\n");
+}
+
+export default function DiagnoseConnection() {
+  const { profile, isLoading: isLoadingProfile } = useOdooProfile();
+  const [steps, setSteps] = useState<DiagnosticStep[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [ranAt, setRanAt] = useState(new Date());
+  const [runCount, setRunCount] = useState(0);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    setIsRunning(true);
+    setSteps([]);
+    setRanAt(new Date());
+    new ConnectionDiagnostics(profile, setSteps)
+      .run()
+      .catch(error => console.error("Error during diagnostics:", error))
+      .finally(() => setIsRunning(false));
+  }, [profile, runCount]);
+
+  if (!profile) {
+    return <List isLoading={isLoadingProfile}>{!isLoadingProfile && <ProfileEmptyView />}</List>;
+  }
+
+  const report = buildReport(profile, steps, ranAt);
+
+  return (
+    <Detail
+      isLoading={isRunning}
+      navigationTitle={`Diagnose ${profile.name}`}
+      markdown={report}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Profile" text={profile.name} />
+          <Detail.Metadata.Link title="Instance" target={profile.odooUrl} text={profile.odooUrl} />
+          <Detail.Metadata.Separator />
+          <Detail.Metadata.TagList title="Checks">
+            {steps.map(step => (
+              <Detail.Metadata.TagList.Item key={step.title} text={step.title} color={STATUS_COLORS[step.status]} />
+            ))}
+          </Detail.Metadata.TagList>
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy Report" content={report} />
+          <Action
+            title="Run Again"
+            icon={Icon.ArrowClockwise}
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={() => setRunCount(count => count + 1)}
+          />
+          <Action
+            title="Manage Profiles"
+            icon={Icon.HardDrive}
+            onAction={() => launchCommand({ name: "manage-profiles", type: LaunchType.UserInitiated })}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
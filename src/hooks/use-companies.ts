@@ -0,0 +1,65 @@
+import { useState, useEffect } from "react";
+import { OdooService } from "../services/odoo";
+import { OdooCompany } from "../types";
+
+export interface CompanyGroup<T> {
+  id: number;
+  title: string;
+  records: T[];
+}
+
+/**
+ * Sociétés autorisées de l'utilisateur et société(s) choisie(s) pour les listes
+ */
+export function useCompanies(odooService: OdooService | null) {
+  const [companies, setCompanies] = useState<OdooCompany[]>([]);
+  const [selection, setSelection] = useState<number[] | null>(null);
+
+  useEffect(() => {
+    if (!odooService) return;
+
+    setCompanies(odooService.peekCompanies()?.allowed || []);
+    setSelection(odooService.companySelection);
+    odooService
+      .getCompanies()
+      .then(result => setCompanies(result.allowed))
+      .catch(error => console.error("Error loading companies:", error));
+  }, [odooService]);
+
+  const select = (ids: number[] | null) => {
+    odooService?.selectCompanies(ids);
+    setSelection(ids);
+  };
+
+  // Sections par société, dans l'ordre d'apparition des enregistrements
+  const group = <T extends { company_id?: [number, string] | false }>(records: T[]): CompanyGroup<T>[] => {
+    const groups = new Map<number, CompanyGroup<T>>();
+    for (const record of records) {
+      const [id, title] = record.company_id || [0, "No Company"];
+      const existing = groups.get(id);
+      if (existing) {
+        existing.records.push(record);
+      } else {
+        groups.set(id, { id, title, records: [record] });
+      }
+    }
+    return [...groups.values()];
+  };
+
+  // Équivalent client de allowed_company_ids, pour filtrer l'index local : un enregistrement sans société est partagé
+  const isSelected = (record: { company_id?: [number, string] | false }): boolean =>
+    !selection || !record.company_id || selection.includes(record.company_id[0]);
+
+  return {
+    companies,
+    selection,
+    select,
+    group,
+    isSelected,
+    isMultiCompany: companies.length > 1,
+    // Change avec la sélection, pour relancer les recherches qui en dépendent
+    selectionKey: selection ? selection.join(",") : "all",
+  };
+}
+
+export type CompanyState = ReturnType<typeof useCompanies>;
@@ -0,0 +1,44 @@
+import { useState, useEffect, useMemo } from "react";
+import { OdooService } from "../services/odoo";
+import { getLocalIndex, searchRecords } from "../services/sync";
+
+/**
+ * Synchronise un modèle dans l'index local et expose une recherche floue hors ligne
+ */
+export function useLocalIndex<T>(odooService: OdooService | null, model: string, fields: string[]) {
+  const index = useMemo(() => (odooService ? getLocalIndex(odooService) : null), [odooService]);
+  // L'index stocké peut peser plusieurs Mo : il est lu une fois, puis à chaque synchronisation, jamais à la frappe
+  const [records, setRecords] = useState<T[]>([]);
+  const [version, setVersion] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    if (!index) {
+      setRecords([]);
+      return;
+    }
+
+    // Derniers enregistrements connus, consultables pendant la synchronisation
+    setRecords(index.getRecords<T>(model));
+    setVersion(current => current + 1);
+
+    setIsSyncing(true);
+    index
+      .sync<T>(model, fields)
+      .then(synced => {
+        setRecords(synced);
+        setVersion(current => current + 1);
+      })
+      .catch(error => console.error(`Error syncing ${model}:`, error))
+      .finally(() => setIsSyncing(false));
+  }, [index]);
+
+  const search = (query: string, filter?: (record: T) => boolean): T[] => searchRecords(model, records, query, filter);
+
+  return {
+    isReady: records.length > 0,
+    isSyncing,
+    version,
+    search,
+  };
+}
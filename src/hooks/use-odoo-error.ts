@@ -0,0 +1,28 @@
+import { showFailureToast } from "@raycast/utils";
+import { useCallback, useState } from "react";
+import { describeOdooError } from "../components/error-empty-view";
+import { OdooError, toOdooError } from "../services/errors";
+
+/**
+ * Dernière erreur Odoo d'une vue, signalée par un toast et affichée en vue vide si la liste l'est aussi
+ */
+export function useOdooError() {
+  const [error, setError] = useState<OdooError | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+
+  const report = useCallback((cause: unknown) => {
+    const odooError = toOdooError(cause);
+    setError(odooError);
+    showFailureToast(odooError, { title: describeOdooError(odooError).title });
+  }, []);
+
+  const clear = useCallback(() => setError(null), []);
+
+  // Incrémenter retryCount relance les effets qui en dépendent
+  const retry = useCallback(() => {
+    setError(null);
+    setRetryCount(count => count + 1);
+  }, []);
+
+  return { error, report, clear, retry, retryCount };
+}
@@ -0,0 +1,44 @@
+import { showFailureToast } from "@raycast/utils";
+import { useState, useEffect, useMemo } from "react";
+import { getActiveProfile, getOdooService, getProfiles, setActiveProfile } from "../services/profiles";
+import { OdooProfile } from "../types";
+
+/**
+ * Charge les profils et expose le service Odoo du profil actif
+ */
+export function useOdooProfile() {
+  const [profiles, setProfiles] = useState<OdooProfile[]>([]);
+  const [profile, setProfile] = useState<OdooProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const available = await getProfiles();
+        setProfiles(available);
+        setProfile(await getActiveProfile(available));
+      } catch (error) {
+        console.error("Error loading profiles:", error);
+        showFailureToast(error, { title: "Could not load Odoo profiles" });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProfiles();
+  }, []);
+
+  // Change de profil actif pour toutes les commandes
+  const switchProfile = async (id: string) => {
+    const next = profiles.find(item => item.id === id);
+    if (!next || next.id === profile?.id) return;
+
+    await setActiveProfile(id);
+    setProfile(next);
+  };
+
+  const odooService = useMemo(() => (profile ? getOdooService(profile) : null), [profile]);
+  const baseUrl = profile ? profile.odooUrl.replace(/\/$/, "") : "";
+
+  return { profiles, profile, odooService, baseUrl, isLoading, switchProfile };
+}
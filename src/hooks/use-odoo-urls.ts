@@ -0,0 +1,21 @@
+import { useState, useEffect, useMemo } from "react";
+import { OdooService } from "../services/odoo";
+import { ActionTarget, OdooUrlBuilder, Routing, loadRouting, peekRouting } from "../services/urls";
+
+/**
+ * Constructeur de liens du profil actif : routage en cache immédiatement, puis version et actions vérifiées
+ */
+export function useOdooUrls(odooService: OdooService | null, baseUrl: string, targets: ActionTarget[] = []) {
+  const [routing, setRouting] = useState<Routing | null>(null);
+
+  useEffect(() => {
+    if (!odooService) return;
+
+    setRouting(peekRouting(odooService));
+    loadRouting(odooService, targets)
+      .then(setRouting)
+      .catch(error => console.error("Error detecting Odoo routes:", error));
+  }, [odooService]);
+
+  return useMemo(() => new OdooUrlBuilder(baseUrl, routing || undefined), [baseUrl, routing]);
+}
@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from "react";
+import { OdooPage } from "../types";
+
+const SEARCH_DELAY = 300;
+const MIN_QUERY_LENGTH = 2;
+
+// Recherche affichée par la liste : une frappe plus récente la remplace et déclenche son signal
+interface CurrentSearch {
+  query: string;
+  signal: AbortSignal;
+}
+
+export interface PaginatedSearchOptions<T, P extends OdooPage<T>> {
+  name: string; // Nom des enregistrements, au pluriel, pour les journaux
+  searchText: string;
+  key: string; // Filtre, sociétés, version de l'index... : tout ce qui relance la recherche en changeant
+  enabled: boolean; // Connexion vérifiée ou métadonnées chargées
+  fetchPage: (query: string, offset: number, signal: AbortSignal) => Promise<P>;
+  // État annexe d'une page (noms liés, date de synchronisation), appliqué seulement pour la recherche affichée
+  onPage?: (page: P, query: string, offset: number) => void;
+  // Résultats de l'index local, ou null pour interroger le serveur
+  searchLocally?: (query: string) => T[] | null;
+  onSuccess: () => void;
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Recherche paginée d'une liste : pause de frappe, index local, annulation des recherches remplacées
+ * et défilement infini. Aucun état n'est modifié pour une recherche qui n'est plus celle affichée.
+ */
+export function usePaginatedSearch<T, P extends OdooPage<T> = OdooPage<T>>(options: PaginatedSearchOptions<T, P>) {
+  const { name, searchText, key, enabled } = options;
+  const [records, setRecords] = useState<T[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadCount, setReloadCount] = useState(0);
+  const current = useRef<CurrentSearch | null>(null);
+
+  const isCurrent = (search: CurrentSearch) => current.current === search && !search.signal.aborted;
+
+  // Page de la recherche, à la suite des précédentes si offset
+  const load = async (search: CurrentSearch, offset: number) => {
+    setIsLoading(true);
+    try {
+      const page = await options.fetchPage(search.query, offset, search.signal);
+      if (!isCurrent(search)) return;
+      setRecords(loaded => (offset ? [...loaded, ...page.records] : page.records));
+      setTotal(page.total);
+      setHasMore(page.hasMore);
+      options.onPage?.(page, search.query, offset);
+    } finally {
+      if (isCurrent(search)) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    // Recherche instantanée dans l'index local, y compris hors ligne
+    const local = options.searchLocally?.(searchText) ?? null;
+    if (local) {
+      current.current = null;
+      setIsLoading(false);
+      setRecords(local);
+      setTotal(null);
+      setHasMore(false);
+      return;
+    }
+
+    if (!enabled) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const search = { query: searchText, signal: controller.signal };
+    current.current = search;
+    const timeoutId = setTimeout(async () => {
+      try {
+        if (searchText.length >= MIN_QUERY_LENGTH || searchText.length === 0) {
+          await load(search, 0);
+        } else {
+          setIsLoading(false);
+        }
+        options.onSuccess();
+      } catch (error) {
+        if (!isCurrent(search)) return;
+        console.error(`Error searching ${name}:`, error);
+        options.onError(error);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [searchText, key, enabled, reloadCount]);
+
+  // Défilement infini : page suivante de la recherche affichée
+  const loadMore = () => {
+    const search = current.current;
+    if (isLoading || !search) return;
+    load(search, records.length).catch(error => {
+      if (!isCurrent(search)) return;
+      console.error(`Error loading more ${name}:`, error);
+      options.onError(error);
+    });
+  };
+
+  // Relance la recherche, après une modification d'un enregistrement par exemple
+  const reload = () => setReloadCount(count => count + 1);
+
+  return { records, setRecords, total, setTotal, hasMore, isLoading, setIsLoading, loadMore, reload };
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect } from "react";
+import { OdooCancelledError, OdooError, toOdooError } from "../services/errors";
+import { OdooService } from "../services/odoo";
+import { RecordRelations, fetchRelations, peekRelations } from "../services/relations";
+
+export interface RelatedRecords {
+  recordId: number | null;
+  relations: RecordRelations | null;
+  isLoading: boolean;
+  error: OdooError | null;
+}
+
+/**
+ * Données liées de l'enregistrement sélectionné, chargées seulement quand le panneau de détail est affiché
+ */
+export function useRecordRelations(
+  odooService: OdooService | null,
+  model: string,
+  recordId: number | null,
+): RelatedRecords {
+  const [relations, setRelations] = useState<RecordRelations | null>(null);
+  const [loadedId, setLoadedId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<OdooError | null>(null);
+
+  useEffect(() => {
+    if (!odooService || !recordId) {
+      setIsLoading(false);
+      return;
+    }
+
+    // Derniers résultats connus immédiatement, puis requêtes après une courte pause dans la navigation
+    setRelations(peekRelations(odooService, model, recordId));
+    setLoadedId(recordId);
+    setIsLoading(true);
+    setError(null);
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const results = await fetchRelations(odooService, model, recordId);
+        if (cancelled) return;
+        setRelations(results);
+      } catch (cause) {
+        const odooError = toOdooError(cause);
+        if (cancelled) return;
+        if (!(odooError instanceof OdooCancelledError)) {
+          console.error(`Cannot load related records of ${model} ${recordId}:`, odooError);
+          setError(odooError);
+        }
+      }
+      setIsLoading(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [odooService, model, recordId]);
+
+  return { recordId: loadedId, relations, isLoading, error };
+}
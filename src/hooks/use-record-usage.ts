@@ -0,0 +1,67 @@
+import { Toast, showToast } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { OdooService } from "../services/odoo";
+import { ModelUsage, UsageRecord, getFrecency, getModelUsage, recordVisit, togglePin } from "../services/usage";
+
+const RECENT_LIMIT = 5;
+
+interface ArrangeOptions<T> {
+  showSections: boolean; // Sections Épinglés / Récents, sans recherche en cours
+  filter?: (record: T) => boolean; // Restreint épingles et récents au contexte de la liste (projet, équipe)
+}
+
+/**
+ * Épingles et visites d'un modèle sur l'instance active, et classement des résultats par frécence
+ */
+export function useRecordUsage<T extends UsageRecord>(odooService: OdooService | null, model: string) {
+  const [usage, setUsage] = useState<ModelUsage<T>>({ pinned: [], visits: {} });
+
+  useEffect(() => {
+    if (!odooService) return;
+
+    getModelUsage<T>(odooService.connection, model)
+      .then(setUsage)
+      .catch(error => console.error(`Error reading ${model} usage:`, error));
+  }, [odooService, model]);
+
+  const isPinned = (id: number) => usage.pinned.some(record => record.id === id);
+
+  const toggle = async (record: T, name: string) => {
+    if (!odooService) return;
+
+    const wasPinned = isPinned(record.id);
+    setUsage(await togglePin(odooService.connection, model, record));
+    await showToast({ style: Toast.Style.Success, title: wasPinned ? "Unpinned" : "Pinned", message: name });
+  };
+
+  const visit = (record: T) => {
+    if (!odooService) return;
+
+    recordVisit(odooService.connection, model, record)
+      .then(setUsage)
+      .catch(error => console.error(`Error recording ${model} visit:`, error));
+  };
+
+  // Sépare épinglés, récents et autres résultats ; les versions du serveur remplacent les versions mémorisées
+  const arrange = (records: T[], { showSections, filter = () => true }: ArrangeOptions<T>) => {
+    const fresh = new Map(records.map(record => [record.id, record]));
+    const now = Date.now();
+    const byFrecency = (a: T, b: T) => getFrecency(usage.visits[b.id], now) - getFrecency(usage.visits[a.id], now);
+
+    if (!showSections) {
+      return { pinned: [], recent: [], others: [...records].sort(byFrecency) };
+    }
+
+    const pinned = usage.pinned.filter(filter).map(record => fresh.get(record.id) || record);
+    const recent = Object.values(usage.visits)
+      .filter(visit => !isPinned(visit.record.id) && filter(visit.record))
+      .sort((a, b) => b.lastVisitedAt.localeCompare(a.lastVisitedAt))
+      .slice(0, RECENT_LIMIT)
+      .map(visit => fresh.get(visit.record.id) || visit.record);
+
+    const shown = new Set([...pinned, ...recent].map(record => record.id));
+    return { pinned, recent, others: records.filter(record => !shown.has(record.id)).sort(byFrecency) };
+  };
+
+  return { isPinned, toggle, visit, arrange };
+}
@@ -0,0 +1,20 @@
+import { useCallback, useState, useEffect } from "react";
+import { getRunningTimer } from "../services/timer";
+import { RunningTimer } from "../types";
+
+/**
+ * Minuteur en cours, relu à la demande après un démarrage ou une saisie
+ */
+export function useRunningTimer() {
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+
+  const refresh = useCallback(() => {
+    getRunningTimer()
+      .then(setTimer)
+      .catch(error => console.error("Error reading the running timer:", error));
+  }, []);
+
+  useEffect(refresh, []);
+
+  return { timer, refresh };
+}
@@ -0,0 +1,35 @@
+import { Icon } from "@raycast/api";
+import { useCallback, useState, useEffect } from "react";
+import { DropdownFilter } from "../components/profile-dropdown";
+import { getSavedSearches } from "../services/saved-searches";
+import { SavedSearch, SearchCommand } from "../types";
+
+const SAVED_PREFIX = "saved:";
+
+/**
+ * Recherches enregistrées d'une liste, exposées comme filtres du sélecteur de la barre de recherche
+ */
+export function useSavedSearches(command: SearchCommand) {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+
+  const refresh = useCallback(() => {
+    getSavedSearches(command)
+      .then(setSearches)
+      .catch(error => console.error("Error reading saved searches:", error));
+  }, [command]);
+
+  useEffect(refresh, [refresh]);
+
+  const getValue = (search: SavedSearch) => `${SAVED_PREFIX}${search.id}`;
+
+  const filters: DropdownFilter[] = searches.map(search => ({
+    title: search.name,
+    value: getValue(search),
+    icon: Icon.MagnifyingGlass,
+  }));
+
+  // Recherche correspondant à une valeur du sélecteur, null pour un filtre propre à la liste
+  const find = (value: string) => searches.find(search => getValue(search) === value) || null;
+
+  return { searches, filters, find, getValue, refresh };
+}
@@ -0,0 +1,133 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  openExtensionPreferences,
+  showToast,
+} from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useState, useEffect } from "react";
+import { ProfileForm } from "./components/profile-form";
+import {
+  deleteProfile,
+  getActiveProfile,
+  getProfiles,
+  isPreferencesProfile,
+  setActiveProfile,
+} from "./services/profiles";
+import { OdooProfile } from "./types";
+
+export default function ManageProfiles() {
+  const [profiles, setProfiles] = useState<OdooProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Fonction pour recharger les profils et le profil actif
+  const loadProfiles = async () => {
+    setIsLoading(true);
+    try {
+      const available = await getProfiles();
+      const active = await getActiveProfile(available);
+      setProfiles(available);
+      setActiveId(active?.id || null);
+    } catch (error) {
+      console.error("Error loading profiles:", error);
+      showFailureToast(error, { title: "Could not load profiles" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const activate = async (profile: OdooProfile) => {
+    await setActiveProfile(profile.id);
+    setActiveId(profile.id);
+    await showToast({ style: Toast.Style.Success, title: "Active profile", message: profile.name });
+  };
+
+  const remove = async (profile: OdooProfile) => {
+    const confirmed = await confirmAlert({
+      title: `Delete ${profile.name}?`,
+      message: "The connection, its stored API key or password and its web session will be removed.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    await deleteProfile(profile.id);
+    await loadProfiles();
+  };
+
+  const createAction = (
+    <Action.Push
+      title="New Profile"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<ProfileForm onSaved={loadProfiles} />}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search profiles...">
+      <List.Section title="Profiles" subtitle={`${profiles.length} profile${profiles.length !== 1 ? "s" : ""}`}>
+        {profiles.map(profile => {
+          const isDefault = isPreferencesProfile(profile);
+          return (
+            <List.Item
+              key={profile.id}
+              icon={Icon.HardDrive}
+              title={profile.name}
+              subtitle={`${profile.userLogin} @ ${profile.database}`}
+              accessories={[
+                { text: profile.odooUrl },
+                ...(profile.fixture ? [{ tag: { value: "Offline", color: Color.Orange } }] : []),
+                ...(isDefault ? [{ tag: "Preferences" }] : []),
+                ...(profile.id === activeId ? [{ tag: { value: "Active", color: Color.Green } }] : []),
+              ]}
+              actions={
+                <ActionPanel>
+                  {profile.id !== activeId && (
+                    <Action title="Set as Active Profile" icon={Icon.CheckCircle} onAction={() => activate(profile)} />
+                  )}
+                  {isDefault ? (
+                    <Action title="Edit in Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+                  ) : (
+                    <Action.Push
+                      title="Edit Profile"
+                      icon={Icon.Pencil}
+                      shortcut={{ modifiers: ["cmd"], key: "e" }}
+                      target={<ProfileForm profile={profile} onSaved={loadProfiles} />}
+                    />
+                  )}
+                  {createAction}
+                  {!isDefault && (
+                    <Action
+                      title="Delete Profile"
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                      onAction={() => remove(profile)}
+                    />
+                  )}
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+      <List.EmptyView
+        icon={Icon.HardDrive}
+        title="No profiles yet"
+        description="Add a named connection for each Odoo instance you work with."
+        actions={<ActionPanel>{createAction}</ActionPanel>}
+      />
+    </List>
+  );
+}
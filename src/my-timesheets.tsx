@@ -0,0 +1,160 @@
+import { Action, ActionPanel, Icon, List, Toast, open, showToast } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { ErrorEmptyView } from "./components/error-empty-view";
+import { ProfileDropdown } from "./components/profile-dropdown";
+import { ProfileEmptyView } from "./components/profile-empty-view";
+import { useOdooError } from "./hooks/use-odoo-error";
+import { useOdooProfile } from "./hooks/use-odoo-profile";
+import { useOdooUrls } from "./hooks/use-odoo-urls";
+import { startTimer } from "./services/timer";
+import { TimesheetLine } from "./types";
+import { formatDuration } from "./utils/date";
+import { toOdooDate } from "./utils/validation";
+
+const TIMESHEET_FIELDS = ["id", "name", "date", "unit_amount", "project_id", "task_id"];
+
+/**
+ * Lundi et dimanche de la semaine en cours, au format Odoo
+ */
+function getCurrentWeek(): { start: string; end: string } {
+  const monday = new Date();
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  const sunday = new Date(monday);
+  sunday.setDate(monday.getDate() + 6);
+  return { start: toOdooDate(monday), end: toOdooDate(sunday) };
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "short" });
+
+const sumHours = (lines: TimesheetLine[]) => lines.reduce((total, line) => total + line.unit_amount, 0);
+
+export default function MyTimesheets() {
+  const { profiles, profile, odooService, baseUrl, isLoading: isLoadingProfile, switchProfile } = useOdooProfile();
+  const [lines, setLines] = useState<TimesheetLine[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { error, report, clear, retry, retryCount } = useOdooError();
+  const urls = useOdooUrls(odooService, baseUrl);
+
+  // Charge les saisies de temps de l'utilisateur pour la semaine en cours
+  useEffect(() => {
+    if (!odooService) {
+      setIsLoading(isLoadingProfile);
+      return;
+    }
+
+    const loadTimesheets = async () => {
+      setIsLoading(true);
+      try {
+        const uid = await odooService.authenticate();
+        const { start, end } = getCurrentWeek();
+
+        // helpdesk_ticket_id n'existe que si helpdesk_timesheet est installé
+        const metadata = await odooService.fieldsGet("account.analytic.line", ["helpdesk_ticket_id"]);
+        const fields = metadata.helpdesk_ticket_id ? [...TIMESHEET_FIELDS, "helpdesk_ticket_id"] : TIMESHEET_FIELDS;
+
+        const results = await odooService.searchRead<TimesheetLine>(
+          "account.analytic.line",
+          [
+            ["user_id", "=", uid],
+            ["project_id", "!=", false],
+            ["date", ">=", start],
+            ["date", "<=", end],
+          ],
+          { fields, limit: 500 },
+        );
+        setLines(results.sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id));
+        clear();
+      } catch (error) {
+        console.error("Error loading timesheets:", error);
+        report(error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTimesheets();
+  }, [odooService, isLoadingProfile, retryCount]);
+
+  const days = [...new Set(lines.map(line => line.date))];
+
+  const getRecord = (line: TimesheetLine) => {
+    if (line.task_id) return { model: "project.task" as const, id: line.task_id[0], name: line.task_id[1] };
+    if (line.helpdesk_ticket_id) {
+      return { model: "helpdesk.ticket" as const, id: line.helpdesk_ticket_id[0], name: line.helpdesk_ticket_id[1] };
+    }
+    return null;
+  };
+
+  const resumeTimer = async (line: TimesheetLine) => {
+    const record = getRecord(line);
+    if (!profile || !record) return;
+
+    await startTimer({
+      profileId: profile.id,
+      model: record.model,
+      recordId: record.id,
+      recordName: record.name,
+      projectId: line.project_id ? line.project_id[0] : undefined,
+    });
+    await showToast({ style: Toast.Style.Success, title: "Timer started", message: record.name });
+  };
+
+  return (
+    <List
+      isLoading={isLoading || isLoadingProfile}
+      navigationTitle={`My Timesheets · ${formatDuration(sumHours(lines))} this week`}
+      searchBarPlaceholder="Filter this week's timesheets..."
+      searchBarAccessory={<ProfileDropdown profiles={profiles} profile={profile} onProfileChange={switchProfile} />}>
+      {!profile && !isLoadingProfile && <ProfileEmptyView />}
+      {error && lines.length === 0 && !isLoading && <ErrorEmptyView error={error} onRetry={retry} />}
+      {days.map(day => {
+        const dayLines = lines.filter(line => line.date === day);
+        return (
+          <List.Section key={day} title={formatDay(day)} subtitle={formatDuration(sumHours(dayLines))}>
+            {dayLines.map(line => {
+              const record = getRecord(line);
+              return (
+                <List.Item
+                  key={line.id}
+                  icon={Icon.Clock}
+                  title={line.name === "/" ? record?.name || "Timesheet" : line.name}
+                  subtitle={record?.name}
+                  keywords={[record?.name, line.project_id ? line.project_id[1] : undefined].filter(
+                    (keyword): keyword is string => !!keyword,
+                  )}
+                  accessories={[
+                    ...(line.project_id ? [{ tag: line.project_id[1] }] : []),
+                    { text: formatDuration(line.unit_amount), tooltip: "Duration" },
+                  ]}
+                  actions={
+                    <ActionPanel>
+                      {record && (
+                        <Action
+                          title="Open in Odoo"
+                          icon={Icon.Globe}
+                          onAction={() => open(urls.record(record.model, record.id))}
+                        />
+                      )}
+                      {record && (
+                        <Action title="Start Timer" icon={Icon.Stopwatch} onAction={() => resumeTimer(line)} />
+                      )}
+                      <Action.CopyToClipboard title="Copy Description" content={line.name} />
+                    </ActionPanel>
+                  }
+                />
+              );
+            })}
+          </List.Section>
+        );
+      })}
+      {lines.length === 0 && !isLoading && !error && profile && (
+        <List.EmptyView
+          icon={Icon.Calendar}
+          title="No time logged this week"
+          description="Start a timer from a task or ticket, then Stop & Log it."
+        />
+      )}
+    </List>
+  );
+}
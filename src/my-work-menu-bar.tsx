@@ -0,0 +1,176 @@
+import { Color, Icon, LaunchType, MenuBarExtra, environment, launchCommand, open } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { describeOdooError } from "./components/error-empty-view";
+import { useOdooProfile } from "./hooks/use-odoo-profile";
+import { useOdooUrls } from "./hooks/use-odoo-urls";
+import { OdooError, toOdooError } from "./services/errors";
+import { MyWork, WorkGroup, fetchMyWork, peekMyWork } from "./services/my-work";
+import { HelpdeskTicket, MailMessage, Task } from "./types";
+import { formatSyncedAt } from "./utils/date";
+import { htmlToMarkdown } from "./utils/html";
+
+const launch = (name: string) => launchCommand({ name, type: LaunchType.UserInitiated });
+
+const getMessageTitle = (message: MailMessage) =>
+  message.subject ||
+  htmlToMarkdown(message.body || "")
+    .replace(/\s+/g, " ")
+    .slice(0, 60) ||
+  message.record_name ||
+  "Notification";
+
+export default function MyWorkMenuBar() {
+  const { profile, odooService, baseUrl, isLoading: isLoadingProfile } = useOdooProfile();
+  const [work, setWork] = useState<MyWork | null>(null);
+  const [syncedAt, setSyncedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<OdooError | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const urls = useOdooUrls(odooService, baseUrl);
+
+  const refresh = async () => {
+    if (!odooService) return;
+
+    setIsLoading(true);
+    try {
+      setWork(await fetchMyWork(odooService));
+      setSyncedAt(new Date());
+      setError(null);
+    } catch (error) {
+      console.error("Error loading my work:", error);
+      setError(toOdooError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Affiche le dernier résumé connu et ne rappelle le serveur que s'il est périmé
+  useEffect(() => {
+    if (!odooService) {
+      setIsLoading(isLoadingProfile);
+      return;
+    }
+
+    const cached = peekMyWork(odooService);
+    if (cached) {
+      setWork(cached.data);
+      setSyncedAt(cached.syncedAt);
+    }
+    if (cached && !cached.isStale && environment.launchType === LaunchType.UserInitiated) {
+      setIsLoading(false);
+      return;
+    }
+    refresh();
+  }, [odooService, isLoadingProfile]);
+
+  const getRecordUrl = (model: string, id: number) => urls.record(model, id);
+
+  const openMessage = (message: MailMessage) =>
+    open(message.model && message.res_id ? getRecordUrl(message.model, message.res_id) : urls.discuss());
+
+  const renderMore = (group: WorkGroup<unknown>, command: string) =>
+    group.count > group.items.length && (
+      <MenuBarExtra.Item title={`Show all ${group.count}…`} onAction={() => launch(command)} />
+    );
+
+  const renderTickets = (
+    title: string,
+    group: WorkGroup<HelpdeskTicket> | null,
+    icon: MenuBarExtra.Item.Props["icon"],
+  ) =>
+    group && (
+      <MenuBarExtra.Section title={`${title} (${group.count})`}>
+        {group.items.map(ticket => (
+          <MenuBarExtra.Item
+            key={ticket.id}
+            icon={icon}
+            title={ticket.ticket_ref ? `#${ticket.ticket_ref} ${ticket.name}` : ticket.name}
+            subtitle={ticket.partner_id ? ticket.partner_id[1] : undefined}
+            onAction={() => open(getRecordUrl("helpdesk.ticket", ticket.id))}
+          />
+        ))}
+        {renderMore(group, "search-tickets")}
+      </MenuBarExtra.Section>
+    );
+
+  const renderTasks = (group: WorkGroup<Task> | null) =>
+    group && (
+      <MenuBarExtra.Section title={`My Tasks (${group.count})`}>
+        {group.items.map(task => (
+          <MenuBarExtra.Item
+            key={task.id}
+            icon={task.priority === "1" ? { source: Icon.Star, tintColor: Color.Yellow } : Icon.Circle}
+            title={task.name}
+            subtitle={task.project_id ? task.project_id[1] : undefined}
+            onAction={() => open(getRecordUrl("project.task", task.id))}
+          />
+        ))}
+        {renderMore(group, "search-tasks")}
+      </MenuBarExtra.Section>
+    );
+
+  const unread = work?.notifications.count || 0;
+  const breaching = work?.breachingTickets?.count || 0;
+
+  return (
+    <MenuBarExtra
+      icon={{ source: "odoo-icon.png" }}
+      title={unread + breaching > 0 ? String(unread + breaching) : undefined}
+      tooltip={work ? `${unread} unread notification(s), ${breaching} SLA breach(es)` : "Odoo"}
+      isLoading={isLoading || isLoadingProfile}>
+      {!profile && !isLoadingProfile && (
+        <MenuBarExtra.Item
+          title="Set up an Odoo profile…"
+          icon={Icon.Gear}
+          onAction={() => launch("manage-profiles")}
+        />
+      )}
+      {error && !work && (
+        <MenuBarExtra.Section>
+          <MenuBarExtra.Item
+            title={describeOdooError(error).title}
+            subtitle={error.message}
+            icon={{ source: Icon.Warning, tintColor: Color.Red }}
+          />
+          <MenuBarExtra.Item
+            title="Diagnose Connection…"
+            icon={Icon.Heartbeat}
+            onAction={() => launch("diagnose-connection")}
+          />
+        </MenuBarExtra.Section>
+      )}
+      {work && (
+        <>
+          <MenuBarExtra.Section title={`Unread Notifications (${unread})`}>
+            {work.notifications.items.map(message => (
+              <MenuBarExtra.Item
+                key={message.id}
+                icon={Icon.Bell}
+                title={getMessageTitle(message)}
+                subtitle={message.author_id ? message.author_id[1] : undefined}
+                onAction={() => openMessage(message)}
+              />
+            ))}
+            {unread > work.notifications.items.length && (
+              <MenuBarExtra.Item title={`Open Inbox (${unread})…`} onAction={() => open(urls.discuss())} />
+            )}
+          </MenuBarExtra.Section>
+          {renderTasks(work.tasks)}
+          {renderTickets("My Tickets", work.tickets, Icon.Tag)}
+          {renderTickets("SLA Breaches", work.breachingTickets, { source: Icon.Alarm, tintColor: Color.Red })}
+        </>
+      )}
+      <MenuBarExtra.Section>
+        {syncedAt && <MenuBarExtra.Item title={formatSyncedAt(syncedAt)} />}
+        <MenuBarExtra.Item
+          title="Refresh"
+          icon={Icon.ArrowClockwise}
+          shortcut={{ modifiers: ["cmd"], key: "r" }}
+          onAction={refresh}
+        />
+        {profile && (
+          <MenuBarExtra.Item title={`Open ${profile.name}`} icon={Icon.Globe} onAction={() => open(baseUrl)} />
+        )}
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
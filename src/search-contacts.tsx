@@ -0,0 +1,7 @@
+import { LaunchProps } from "@raycast/api";
+import { ContactList } from "./components/contact-list";
+import { SearchLaunchContext } from "./types";
+
+export default function SearchContacts({ launchContext }: LaunchProps<{ launchContext?: SearchLaunchContext }>) {
+  return <ContactList initialQuery={launchContext?.query} />;
+}
@@ -0,0 +1,161 @@
+import { Action, ActionPanel, Icon, LaunchProps, List, open } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { CompanyActions } from "./components/company-actions";
+import { ErrorEmptyView } from "./components/error-empty-view";
+import { ExportActions } from "./components/export-actions";
+import { ProfileDropdown } from "./components/profile-dropdown";
+import { ProfileEmptyView } from "./components/profile-empty-view";
+import { TaskList } from "./components/task-list";
+import { TicketList } from "./components/ticket-list";
+import { useCompanies } from "./hooks/use-companies";
+import { useOdooError } from "./hooks/use-odoo-error";
+import { useOdooProfile } from "./hooks/use-odoo-profile";
+import { useOdooUrls } from "./hooks/use-odoo-urls";
+import { GlobalSearchGroup, GlobalSearchHit, getSearchModels, searchEverything } from "./services/global-search";
+import { SearchLaunchContext } from "./types";
+
+const MODEL_ICONS: Record<string, Icon> = {
+  "project.project": Icon.Folder,
+  "project.task": Icon.CheckList,
+  "helpdesk.team": Icon.TwoPeople,
+  "helpdesk.ticket": Icon.Ticket,
+  "res.partner": Icon.Person,
+  "sale.order": Icon.Cart,
+};
+
+export default function SearchEverything({ launchContext }: LaunchProps<{ launchContext?: SearchLaunchContext }>) {
+  const { profiles, profile, odooService, baseUrl, isLoading: isLoadingProfile, switchProfile } = useOdooProfile();
+  const urls = useOdooUrls(odooService, baseUrl);
+  const [searchText, setSearchText] = useState(launchContext?.query || "");
+  const [filter, setFilter] = useState("all");
+  const [groups, setGroups] = useState<GlobalSearchGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { error, report, clear, retry, retryCount } = useOdooError();
+  const companies = useCompanies(odooService);
+  const models = getSearchModels();
+
+  // Debounced search effect
+  useEffect(() => {
+    if (!odooService || searchText.trim().length < 2) {
+      setGroups([]);
+      setIsLoading(false);
+      return;
+    }
+
+    // Une frappe plus récente annule les recherches en cours sur tous les modèles
+    const controller = new AbortController();
+    const selected = filter === "all" ? models : models.filter(model => model.model === filter);
+    const timeoutId = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        setGroups(await searchEverything(odooService, searchText.trim(), selected, controller.signal));
+        clear();
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Error during search:", error);
+        report(error);
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [odooService, searchText, filter, retryCount, companies.selectionKey]);
+
+  // Projets et équipes s'ouvrent aussi dans Raycast, avec la liste de leurs tâches ou tickets
+  const getBrowseAction = (group: GlobalSearchGroup, hit: GlobalSearchHit) => {
+    const record = { id: hit.id, name: hit.name, display_name: hit.name };
+    if (group.model === "project.project") {
+      return <Action.Push title="Browse Tasks" target={<TaskList project={record} />} icon={Icon.CheckList} />;
+    }
+    if (group.model === "helpdesk.team") {
+      return <Action.Push title="Browse Tickets" target={<TicketList team={record} />} icon={Icon.Ticket} />;
+    }
+    return null;
+  };
+
+  const renderHit = (group: GlobalSearchGroup, hit: GlobalSearchHit) => {
+    const url = urls.record(group.model, hit.id);
+    return (
+      <List.Item
+        key={`${group.model}-${hit.id}`}
+        title={hit.name}
+        icon={MODEL_ICONS[group.model]}
+        accessories={[{ text: `#${hit.id}` }]}
+        actions={
+          <ActionPanel>
+            <Action title="Open in Odoo" onAction={() => open(url)} icon={Icon.Globe} />
+            {getBrowseAction(group, hit)}
+            <Action.CopyToClipboard title="Copy Name" content={hit.name} />
+            <Action.CopyToClipboard title="Copy URL" content={url} />
+            <Action.CopyToClipboard
+              title="Copy ID"
+              content={String(hit.id)}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+            />
+            <ExportActions records={results} name="search results" />
+            <CompanyActions state={companies} />
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  // Résultats de tous les modèles à plat, pour l'export
+  const results = groups.flatMap(group =>
+    group.hits.map(hit => ({ type: group.title, id: hit.id, name: hit.name, url: urls.record(group.model, hit.id) })),
+  );
+
+  const isSearching = searchText.trim().length >= 2;
+
+  return (
+    <List
+      isLoading={isLoading || isLoadingProfile}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
+      searchBarPlaceholder="Search projects, tasks, tickets, contacts..."
+      searchBarAccessory={
+        <ProfileDropdown
+          profiles={profiles}
+          profile={profile}
+          onProfileChange={switchProfile}
+          filters={[
+            { title: "All Models", value: "all", icon: Icon.MagnifyingGlass },
+            ...models.map(model => ({ title: model.title, value: model.model, icon: MODEL_ICONS[model.model] })),
+          ]}
+          filter={filter}
+          onFilterChange={setFilter}
+        />
+      }
+      throttle>
+      {!profile && !isLoadingProfile && <ProfileEmptyView />}
+      {error && groups.length === 0 && !isLoading && <ErrorEmptyView error={error} onRetry={retry} />}
+      {groups.map(group => (
+        <List.Section key={group.model} title={group.title} subtitle={String(group.hits.length)}>
+          {group.hits.map(hit => renderHit(group, hit))}
+        </List.Section>
+      ))}
+      {!isSearching && (
+        <List.EmptyView
+          icon={Icon.MagnifyingGlass}
+          title="Search everything"
+          description={`Type at least 2 characters to search ${models.map(model => model.title.toLowerCase()).join(", ")}`}
+        />
+      )}
+      {isSearching && groups.length === 0 && !isLoading && !error && (
+        <List.EmptyView
+          title="No results"
+          description={`Nothing matches "${searchText.trim()}" in the searched models.`}
+          actions={
+            <ActionPanel>
+              <CompanyActions state={companies} />
+            </ActionPanel>
+          }
+        />
+      )}
+    </List>
+  );
+}
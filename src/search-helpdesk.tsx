@@ -1,139 +1,152 @@
-import { Action, ActionPanel, List, getPreferenceValues, open } from "@raycast/api";
+import { Action, ActionPanel, Icon, LaunchProps, List, open } from "@raycast/api";
 import { showFailureToast } from "@raycast/utils";
 import { useState, useEffect } from "react";
-import { OdooService } from "./services/odoo";
-import { Preferences, HelpdeskTeam } from "./types";
-
-export default function SearchHelpdesk() {
-  const preferences = getPreferenceValues<Preferences>();
-  const [searchText, setSearchText] = useState("");
-  const [helpdeskTeams, setHelpdeskTeams] = useState<HelpdeskTeam[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [connectionChecked, setConnectionChecked] = useState(false);
-  const odooService = new OdooService(preferences);
+import { TicketForm } from "./components/ticket-form";
+import { PinAction } from "./components/pin-action";
+import { ProfileDropdown } from "./components/profile-dropdown";
+import { CompanyActions } from "./components/company-actions";
+import { ErrorEmptyView } from "./components/error-empty-view";
+import { ExportActions } from "./components/export-actions";
+import { RecordDetail } from "./components/record-detail";
+import { ProfileEmptyView } from "./components/profile-empty-view";
+import { SavedSearchActions } from "./components/saved-search-actions";
+import { TicketList } from "./components/ticket-list";
+import { useCompanies } from "./hooks/use-companies";
+import { useLocalIndex } from "./hooks/use-local-index";
+import { useOdooError } from "./hooks/use-odoo-error";
+import { useOdooProfile } from "./hooks/use-odoo-profile";
+import { useOdooUrls } from "./hooks/use-odoo-urls";
+import { usePaginatedSearch } from "./hooks/use-paginated-search";
+import { useRecordRelations } from "./hooks/use-record-relations";
+import { useRecordUsage } from "./hooks/use-record-usage";
+import { useSavedSearches } from "./hooks/use-saved-searches";
+import { PAGE_SIZE } from "./services/odoo";
+import { QUERY_SCHEMAS, compileQuery, hasQueryFilters, parseQuery } from "./services/query";
+import { ACTIONS } from "./services/urls";
+import { HelpdeskTeam, OdooPage, SavedSearch, SearchLaunchContext } from "./types";
+import { formatSyncedAt } from "./utils/date";
+import { formatRecordCount } from "./utils/format";
 
-  // Fonction pour rechercher des équipes helpdesk
-  const searchHelpdeskTeams = async (query: string): Promise<HelpdeskTeam[]> => {
-    if (!query.trim()) return [];
+const TEAM_FIELDS = [
+  "id",
+  "name",
+  "display_name",
+  "description",
+  "member_ids",
+  "use_helpdesk_timesheet",
+  "use_helpdesk_sale_timesheet",
+  "stage_ids",
+  "company_id",
+  "active",
+];
+const TEAM_OPTIONS = { fields: TEAM_FIELDS, limit: PAGE_SIZE, order: "sequence, name, id" };
+const URL_TARGETS = [{ model: "helpdesk.ticket", xmlid: ACTIONS.teamTickets }];
+const QUERY_SCHEMA = QUERY_SCHEMAS["helpdesk.team"];
 
-    setIsLoading(true);
-    try {
-      const results = await odooService.searchByName<HelpdeskTeam>("helpdesk.team", query, {
-        fields: [
-          "id",
-          "name",
-          "display_name",
-          "description",
-          "member_ids",
-          "use_helpdesk_timesheet",
-          "use_helpdesk_sale_timesheet",
-          "stage_ids",
-          "company_id",
-          "active",
-        ],
-      });
-      return results;
-    } finally {
-      setIsLoading(false);
-    }
+// Filtres prédéfinis du sélecteur, exprimés dans la syntaxe de recherche
+const PRESETS: Record<string, string> = { all: "", mine: "member:me", archived: "inactive:yes" };
+
+export default function SearchHelpdesk({ launchContext }: LaunchProps<{ launchContext?: SearchLaunchContext }>) {
+  const { profiles, profile, odooService, baseUrl, isLoading: isLoadingProfile, switchProfile } = useOdooProfile();
+  const localIndex = useLocalIndex<HelpdeskTeam>(odooService, "helpdesk.team", TEAM_FIELDS);
+  const urls = useOdooUrls(odooService, baseUrl, URL_TARGETS);
+  const [searchText, setSearchText] = useState(launchContext?.query || "");
+  const [filter, setFilter] = useState("all");
+  const [isShowingDetail, setIsShowingDetail] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [connectionChecked, setConnectionChecked] = useState(false);
+  const [syncedAt, setSyncedAt] = useState<Date | null>(null);
+  const { error, report, clear, retry, retryCount } = useOdooError();
+  const related = useRecordRelations(odooService, "helpdesk.team", isShowingDetail ? Number(selectedId) : null);
+  const savedSearches = useSavedSearches("search-helpdesk");
+  const usage = useRecordUsage<HelpdeskTeam>(odooService, "helpdesk.team");
+  const companies = useCompanies(odooService);
+  const [isGroupedByCompany, setIsGroupedByCompany] = useState(false);
+  // Domaine de la recherche : nom et filtres (member:, company:, inactive:...), vide pour toutes les équipes
+  const buildDomain = (query: string) =>
+    compileQuery(parseQuery(query, QUERY_SCHEMA), QUERY_SCHEMA, odooService?.peekUid() ?? null);
+
+  // Fonction pour charger une page d'équipes helpdesk et le total du serveur
+  const fetchHelpdeskTeams = async (
+    query: string,
+    offset: number,
+    signal: AbortSignal,
+  ): Promise<OdooPage<HelpdeskTeam>> => {
+    if (!odooService) return { records: [], total: 0, hasMore: false };
+    return odooService.searchPage<HelpdeskTeam>(
+      "helpdesk.team",
+      buildDomain(query),
+      { ...TEAM_OPTIONS, offset },
+      { signal },
+    );
   };
 
-  // Fonction pour récupérer toutes les équipes helpdesk
-  const getAllHelpdeskTeams = async (): Promise<HelpdeskTeam[]> => {
-    setIsLoading(true);
-    try {
-      const results = await odooService.getAll<HelpdeskTeam>("helpdesk.team", {
-        fields: [
-          "id",
-          "name",
-          "display_name",
-          "description",
-          "member_ids",
-          "use_helpdesk_timesheet",
-          "use_helpdesk_sale_timesheet",
-          "stage_ids",
-          "company_id",
-          "active",
-        ],
-        limit: 100,
-      });
-      return results;
-    } finally {
+  const {
+    records: helpdeskTeams,
+    setRecords: setHelpdeskTeams,
+    total,
+    setTotal,
+    hasMore,
+    isLoading,
+    setIsLoading,
+    loadMore,
+  } = usePaginatedSearch<HelpdeskTeam>({
+    name: "helpdesk teams",
+    searchText,
+    key: [localIndex.version, companies.selectionKey].join("|"),
+    enabled: connectionChecked,
+    fetchPage: fetchHelpdeskTeams,
+    onPage: (_page, query, offset) => {
+      if (!query.trim() && offset === 0) {
+        setSyncedAt(odooService?.peekSearchRead("helpdesk.team", [], TEAM_OPTIONS)?.syncedAt || null);
+      }
+    },
+    searchLocally: query =>
+      query.length > 0 && localIndex.isReady && !hasQueryFilters(query, QUERY_SCHEMA)
+        ? localIndex.search(query, companies.isSelected)
+        : null,
+    onSuccess: clear,
+    onError: report,
+  });
+
+  // Effect pour vérifier la connexion et charger les données du profil actif
+  useEffect(() => {
+    if (!odooService) {
       setIsLoading(false);
+      return;
     }
-  };
 
-  // Effect pour vérifier la connexion et charger les données
-  useEffect(() => {
     const initializeData = async () => {
       try {
         setIsLoading(true);
+        setConnectionChecked(false);
+
+        // Afficher immédiatement les derniers résultats connus, rafraîchis ensuite en arrière-plan
+        const cached = odooService.peekSearchRead<HelpdeskTeam>("helpdesk.team", [], TEAM_OPTIONS);
+        setHelpdeskTeams(cached?.data || []);
+        setTotal(odooService.peekSearchCount("helpdesk.team", []));
+        setSyncedAt(cached?.syncedAt || null);
+
+        await odooService.authenticate();
+        clear();
 
-        // Vérifier la connexion
-        const isConnected = await odooService.testConnection();
-        if (!isConnected) {
-          showFailureToast({
-            title: "Connection failed",
-            message: "Unable to connect to Odoo. Please check your settings.",
-          });
-          setConnectionChecked(true);
-          setIsLoading(false);
-          return;
-        }
-
-        // Charger les données
-        const teams = await getAllHelpdeskTeams();
-        setHelpdeskTeams(teams);
+        // Le chargement des données est déclenché par l'effet de recherche
         setConnectionChecked(true);
-        setIsLoading(false);
       } catch (error) {
         console.error("Error during initialization:", error);
-        showFailureToast({
-          title: "Initialization failed",
-          message: "Failed to initialize helpdesk search. Please check your configuration.",
-        });
-        setConnectionChecked(true);
+        report(error);
         setIsLoading(false);
       }
     };
 
     // Start initialization immediately
     initializeData();
-  }, []);
-
-  // Debounced search effect
-  useEffect(() => {
-    // Skip search if connection hasn't been checked yet
-    if (!connectionChecked) {
-      return;
-    }
-
-    const timeoutId = setTimeout(async () => {
-      try {
-        if (searchText.length >= 2) {
-          const teams = await searchHelpdeskTeams(searchText);
-          setHelpdeskTeams(teams);
-        } else if (searchText.length === 0) {
-          // Si pas de recherche, recharger toutes les équipes
-          const teams = await getAllHelpdeskTeams();
-          setHelpdeskTeams(teams);
-        }
-      } catch (error) {
-        console.error("Error during search:", error);
-        showFailureToast({
-          title: "Search failed",
-          message: "Unable to search helpdesk teams. Please check your connection.",
-        });
-      }
-    }, 300);
-
-    return () => clearTimeout(timeoutId);
-  }, [searchText, connectionChecked]);
+  }, [odooService, retryCount]);
 
   // Fonction pour ouvrir les tickets de l'équipe helpdesk
   const openHelpdeskTickets = (team: HelpdeskTeam) => {
-    const ticketsUrl = `${preferences.odooUrl.replace(/\/$/, "")}/odoo/helpdesk/${team.id}/tickets`;
-
+    const ticketsUrl = urls.teamTickets(team.id);
+    usage.visit(team);
     try {
       open(ticketsUrl);
     } catch (error) {
@@ -145,51 +158,176 @@ export default function SearchHelpdesk() {
     }
   };
 
+  // Un filtre du sélecteur remplace la recherche par sa requête, modifiable ensuite
+  const changeFilter = (value: string) => {
+    setFilter(value);
+    setSearchText(savedSearches.find(value)?.query ?? PRESETS[value] ?? "");
+  };
+
+  const savedSearch = savedSearches.find(filter);
+
+  const handleSavedSearchChange = (search: SavedSearch | null) => {
+    savedSearches.refresh();
+    setFilter(search ? savedSearches.getValue(search) : "all");
+  };
+
+  const savedSearchActions = (
+    <SavedSearchActions
+      command="search-helpdesk"
+      query={searchText}
+      schema={QUERY_SCHEMA}
+      savedSearch={savedSearch}
+      onChange={handleSavedSearchChange}
+    />
+  );
+
+  const getAccessories = (team: HelpdeskTeam): List.Item.Accessory[] => {
+    const inactive = team.active === false ? [{ text: "Inactive", icon: "⚠️" }] : [];
+    if (isShowingDetail) return inactive;
+
+    return [
+      ...(team.member_ids && team.member_ids.length > 0 ? [{ text: `${team.member_ids.length} members` }] : []),
+      ...(team.company_id ? [{ text: team.company_id[1] }] : []),
+      ...inactive,
+    ];
+  };
+
+  const getDetail = (team: HelpdeskTeam) => (
+    <RecordDetail
+      recordId={team.id}
+      title={team.display_name || team.name}
+      description={team.description}
+      related={related}>
+      <List.Item.Detail.Metadata.Label title="Members" text={String(team.member_ids?.length || 0)} />
+      <List.Item.Detail.Metadata.Label title="Stages" text={String(team.stage_ids?.length || 0)} />
+      <List.Item.Detail.Metadata.Label
+        title="Timesheets"
+        text={team.use_helpdesk_sale_timesheet ? "Billable" : team.use_helpdesk_timesheet ? "Enabled" : "Disabled"}
+      />
+      {team.company_id && <List.Item.Detail.Metadata.Label title="Company" text={team.company_id[1]} />}
+      {team.active === false && <List.Item.Detail.Metadata.Label title="Status" text="Archived" />}
+    </RecordDetail>
+  );
+
+  // Épinglées et récentes au-dessus des résultats, eux-mêmes classés par frécence
+  const { pinned, recent, others } = usage.arrange(helpdeskTeams, { showSections: searchText.length === 0 });
+
+  const renderTeam = (team: HelpdeskTeam) => (
+    <List.Item
+      key={team.id}
+      id={String(team.id)}
+      title={team.display_name || team.name}
+      subtitle={isShowingDetail ? undefined : team.description}
+      accessories={getAccessories(team)}
+      detail={getDetail(team)}
+      actions={
+        <ActionPanel>
+          <Action.Push
+            title="Browse Tickets"
+            target={<TicketList team={team} />}
+            icon="🎫"
+            onPush={() => usage.visit(team)}
+          />
+          <Action title="Open Helpdesk Tickets" onAction={() => openHelpdeskTickets(team)} icon="🌐" />
+          <PinAction
+            isPinned={usage.isPinned(team.id)}
+            onToggle={() => usage.toggle(team, team.display_name || team.name)}
+          />
+          <Action
+            title={isShowingDetail ? "Hide Details" : "Show Details"}
+            icon={Icon.Sidebar}
+            shortcut={{ modifiers: ["cmd"], key: "d" }}
+            onAction={() => setIsShowingDetail(!isShowingDetail)}
+          />
+          <Action.Push
+            title="Create Ticket"
+            target={<TicketForm team={team} />}
+            icon="➕"
+            shortcut={{ modifiers: ["cmd"], key: "n" }}
+          />
+          <Action.CopyToClipboard title="Copy Team Name" content={team.display_name || team.name} />
+          <Action.CopyToClipboard title="Copy Team URL" content={urls.record("helpdesk.team", team.id)} />
+          <ExportActions
+            records={helpdeskTeams}
+            name="helpdesk teams"
+            odooService={odooService}
+            model="helpdesk.team"
+          />
+          {savedSearchActions}
+          <CompanyActions
+            state={companies}
+            isGrouped={isGroupedByCompany}
+            onToggleGroup={() => setIsGroupedByCompany(!isGroupedByCompany)}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+
   return (
     <List
-      isLoading={isLoading}
+      isLoading={isLoading || isLoadingProfile || localIndex.isSyncing}
+      isShowingDetail={isShowingDetail && helpdeskTeams.length > 0}
+      searchText={searchText}
       onSearchTextChange={setSearchText}
-      searchBarPlaceholder="Search helpdesk teams by name..."
+      onSelectionChange={setSelectedId}
+      pagination={{ onLoadMore: loadMore, hasMore, pageSize: PAGE_SIZE }}
+      searchBarPlaceholder="Search helpdesk teams, or filter with member:me company: inactive:yes..."
+      searchBarAccessory={
+        <ProfileDropdown
+          profiles={profiles}
+          profile={profile}
+          onProfileChange={switchProfile}
+          filters={[
+            { title: "All Teams", value: "all", icon: Icon.List },
+            { title: "My Teams", value: "mine", icon: Icon.Person },
+            { title: "Archived Teams", value: "archived", icon: Icon.Box },
+            ...savedSearches.filters,
+          ]}
+          filter={filter}
+          onFilterChange={changeFilter}
+        />
+      }
       throttle>
-      <List.Section
-        title="Helpdesk Teams"
-        subtitle={`${helpdeskTeams.length} team${helpdeskTeams.length !== 1 ? "s" : ""}`}>
-        {helpdeskTeams.map(team => (
-          <List.Item
-            key={team.id}
-            title={team.display_name || team.name}
-            subtitle={team.description}
-            accessories={[
-              ...(team.member_ids && team.member_ids.length > 0 ? [{ text: `${team.member_ids.length} members` }] : []),
-              ...(team.company_id ? [{ text: team.company_id[1] }] : []),
-              ...(team.active === false ? [{ text: "Inactive", icon: "⚠️" }] : []),
-            ]}
-            actions={
-              <ActionPanel>
-                <Action title="Open Helpdesk Tickets" onAction={() => openHelpdeskTickets(team)} icon="🎫" />
-                <Action.CopyToClipboard title="Copy Team Name" content={team.display_name || team.name} />
-                <Action.CopyToClipboard
-                  title="Copy Team URL"
-                  content={`${preferences.odooUrl.replace(/\/$/, "")}/web#id=${team.id}&model=helpdesk.team&view_type=form`}
-                />
-              </ActionPanel>
-            }
-          />
-        ))}
-      </List.Section>
-      {searchText.length > 0 && searchText.length < 2 && (
+      {!profile && !isLoadingProfile && <ProfileEmptyView />}
+      {error && helpdeskTeams.length === 0 && !isLoading && <ErrorEmptyView error={error} onRetry={retry} />}
+      {pinned.length > 0 && <List.Section title="Pinned">{pinned.map(renderTeam)}</List.Section>}
+      {recent.length > 0 && <List.Section title="Recent">{recent.map(renderTeam)}</List.Section>}
+      {isGroupedByCompany && companies.isMultiCompany ? (
+        companies.group(others).map(group => (
+          <List.Section key={group.id} title={group.title} subtitle={String(group.records.length)}>
+            {group.records.map(renderTeam)}
+          </List.Section>
+        ))
+      ) : (
+        <List.Section
+          title="Helpdesk Teams"
+          subtitle={[
+            formatRecordCount(helpdeskTeams.length, total, "team"),
+            ...(syncedAt && searchText.length === 0 ? [formatSyncedAt(syncedAt)] : []),
+          ].join(" · ")}>
+          {others.map(renderTeam)}
+        </List.Section>
+      )}
+      {searchText.length > 0 && searchText.length < 2 && !localIndex.isReady && (
         <List.EmptyView
           title="Type at least 2 characters"
           description="Start typing to search for helpdesk teams by name"
         />
       )}
-      {searchText.length >= 2 && helpdeskTeams.length === 0 && !isLoading && (
+      {searchText.length >= 2 && helpdeskTeams.length === 0 && !isLoading && !error && (
         <List.EmptyView
           title="No helpdesk teams found"
           description={`No teams match "${searchText}". Try a different search term or check if the Helpdesk module is installed in Odoo.`}
+          actions={
+            <ActionPanel>
+              {savedSearchActions}
+              <CompanyActions state={companies} />
+            </ActionPanel>
+          }
         />
       )}
-      {searchText.length === 0 && helpdeskTeams.length === 0 && !isLoading && connectionChecked && (
+      {searchText.length === 0 && helpdeskTeams.length === 0 && !isLoading && connectionChecked && !error && (
         <List.EmptyView
           title="No helpdesk teams available"
           description="No helpdesk teams found. You may not have the necessary permissions to view helpdesk teams."
@@ -0,0 +1,100 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { ErrorEmptyView } from "./components/error-empty-view";
+import { ModelRecordList } from "./components/model-record-list";
+import { ProfileDropdown } from "./components/profile-dropdown";
+import { ProfileEmptyView } from "./components/profile-empty-view";
+import { useOdooError } from "./hooks/use-odoo-error";
+import { useOdooProfile } from "./hooks/use-odoo-profile";
+import { OdooModel } from "./types";
+
+export default function SearchModels() {
+  const { profiles, profile, odooService, isLoading: isLoadingProfile, switchProfile } = useOdooProfile();
+  const [searchText, setSearchText] = useState("");
+  const [models, setModels] = useState<OdooModel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { error, report, clear, retry, retryCount } = useOdooError();
+
+  // Fonction pour rechercher des modèles par libellé ou nom technique
+  const searchModels = async (query: string, signal?: AbortSignal): Promise<OdooModel[]> => {
+    if (!odooService) return [];
+
+    setIsLoading(true);
+    try {
+      const domain: unknown[] = [["transient", "=", false]];
+      if (query.trim()) {
+        domain.push("|", ["name", "ilike", query], ["model", "ilike", query]);
+      }
+      return await odooService.searchRead<OdooModel>(
+        "ir.model",
+        domain,
+        { fields: ["id", "model", "name"], limit: 100 },
+        { signal },
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Debounced search effect
+  useEffect(() => {
+    if (!odooService) {
+      setIsLoading(isLoadingProfile);
+      return;
+    }
+
+    // Une frappe plus récente annule la recherche en cours
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        if (searchText.length >= 2 || searchText.length === 0) {
+          setModels(await searchModels(searchText, controller.signal));
+        }
+        clear();
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Error during search:", error);
+        report(error);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [searchText, odooService, isLoadingProfile, retryCount]);
+
+  return (
+    <List
+      isLoading={isLoading}
+      onSearchTextChange={setSearchText}
+      searchBarPlaceholder="Search models (e.g. crm.lead, Contact, Sales Order)..."
+      searchBarAccessory={<ProfileDropdown profiles={profiles} profile={profile} onProfileChange={switchProfile} />}
+      throttle>
+      {!profile && !isLoadingProfile && <ProfileEmptyView />}
+      {error && models.length === 0 && !isLoading && <ErrorEmptyView error={error} onRetry={retry} />}
+      <List.Section title="Models" subtitle={`${models.length} model${models.length !== 1 ? "s" : ""}`}>
+        {models.map(model => (
+          <List.Item
+            key={model.id}
+            icon={Icon.Box}
+            title={model.name}
+            subtitle={model.model}
+            actions={
+              <ActionPanel>
+                <Action.Push title="Browse Records" icon={Icon.List} target={<ModelRecordList model={model} />} />
+                <Action.CopyToClipboard title="Copy Technical Name" content={model.model} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+      {searchText.length >= 2 && models.length === 0 && !isLoading && !error && (
+        <List.EmptyView
+          title="No models found"
+          description={`No models match "${searchText}". You may not have access to the technical model list.`}
+        />
+      )}
+    </List>
+  );
+}
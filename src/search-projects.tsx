@@ -1,143 +1,151 @@
-import { Action, ActionPanel, List, getPreferenceValues, open } from "@raycast/api";
+import { Action, ActionPanel, Icon, LaunchProps, List, open } from "@raycast/api";
 import { showFailureToast } from "@raycast/utils";
 import { useState, useEffect } from "react";
-import { OdooService } from "./services/odoo";
-import { Preferences, Project } from "./types";
-
-export default function SearchProjects() {
-  const preferences = getPreferenceValues<Preferences>();
-  const [searchText, setSearchText] = useState("");
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [connectionChecked, setConnectionChecked] = useState(false);
-  const odooService = new OdooService(preferences);
+import { CompanyActions } from "./components/company-actions";
+import { ErrorEmptyView } from "./components/error-empty-view";
+import { ExportActions } from "./components/export-actions";
+import { RecordDetail } from "./components/record-detail";
+import { TaskForm } from "./components/task-form";
+import { PartnerDetail } from "./components/partner-detail";
+import { PinAction } from "./components/pin-action";
+import { ProfileDropdown } from "./components/profile-dropdown";
+import { ProfileEmptyView } from "./components/profile-empty-view";
+import { SavedSearchActions } from "./components/saved-search-actions";
+import { TaskList } from "./components/task-list";
+import { useCompanies } from "./hooks/use-companies";
+import { useLocalIndex } from "./hooks/use-local-index";
+import { useOdooError } from "./hooks/use-odoo-error";
+import { useOdooProfile } from "./hooks/use-odoo-profile";
+import { useOdooUrls } from "./hooks/use-odoo-urls";
+import { usePaginatedSearch } from "./hooks/use-paginated-search";
+import { useRecordRelations } from "./hooks/use-record-relations";
+import { useRecordUsage } from "./hooks/use-record-usage";
+import { useSavedSearches } from "./hooks/use-saved-searches";
+import { PAGE_SIZE } from "./services/odoo";
+import { QUERY_SCHEMAS, compileQuery, hasQueryFilters, parseQuery } from "./services/query";
+import { ACTIONS } from "./services/urls";
+import { OdooPage, Project, SavedSearch, SearchLaunchContext } from "./types";
+import { formatSyncedAt } from "./utils/date";
+import { formatRecordCount } from "./utils/format";
 
-  // Fonction pour rechercher des projets
-  const searchProjects = async (query: string): Promise<Project[]> => {
-    if (!query.trim()) return [];
+const PROJECT_FIELDS = [
+  "id",
+  "name",
+  "display_name",
+  "description",
+  "user_id",
+  "partner_id",
+  "stage_id",
+  "task_count",
+  "active",
+  "company_id",
+  "date_start",
+  "date",
+];
+const PROJECT_OPTIONS = { fields: PROJECT_FIELDS, limit: PAGE_SIZE, order: "sequence, name, id" };
+const URL_TARGETS = [{ model: "project.task", xmlid: ACTIONS.projectTasks }];
+const QUERY_SCHEMA = QUERY_SCHEMAS["project.project"];
 
-    setIsLoading(true);
-    try {
-      const results = await odooService.searchByName<Project>("project.project", query, {
-        fields: [
-          "id",
-          "name",
-          "display_name",
-          "description",
-          "user_id",
-          "partner_id",
-          "stage_id",
-          "task_count",
-          "active",
-          "company_id",
-          "date_start",
-          "date",
-        ],
-      });
-      return results;
-    } finally {
-      setIsLoading(false);
-    }
+// Filtres prédéfinis du sélecteur, exprimés dans la syntaxe de recherche
+const PRESETS: Record<string, string> = { all: "", archived: "inactive:yes" };
+
+export default function SearchProjects({ launchContext }: LaunchProps<{ launchContext?: SearchLaunchContext }>) {
+  const { profiles, profile, odooService, baseUrl, isLoading: isLoadingProfile, switchProfile } = useOdooProfile();
+  const localIndex = useLocalIndex<Project>(odooService, "project.project", PROJECT_FIELDS);
+  const urls = useOdooUrls(odooService, baseUrl, URL_TARGETS);
+  const [searchText, setSearchText] = useState(launchContext?.query || "");
+  const [filter, setFilter] = useState("all");
+  const [isShowingDetail, setIsShowingDetail] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [connectionChecked, setConnectionChecked] = useState(false);
+  const [syncedAt, setSyncedAt] = useState<Date | null>(null);
+  const { error, report, clear, retry, retryCount } = useOdooError();
+  const related = useRecordRelations(odooService, "project.project", isShowingDetail ? Number(selectedId) : null);
+  const savedSearches = useSavedSearches("search-projects");
+  const usage = useRecordUsage<Project>(odooService, "project.project");
+  const companies = useCompanies(odooService);
+  const [isGroupedByCompany, setIsGroupedByCompany] = useState(false);
+  // Domaine de la recherche : nom et filtres (stage:, user:, inactive:...), vide pour tous les projets
+  const buildDomain = (query: string) =>
+    compileQuery(parseQuery(query, QUERY_SCHEMA), QUERY_SCHEMA, odooService?.peekUid() ?? null);
+
+  // Fonction pour charger une page de projets et le total du serveur
+  const fetchProjects = async (query: string, offset: number, signal: AbortSignal): Promise<OdooPage<Project>> => {
+    if (!odooService) return { records: [], total: 0, hasMore: false };
+    return odooService.searchPage<Project>(
+      "project.project",
+      buildDomain(query),
+      { ...PROJECT_OPTIONS, offset },
+      { signal },
+    );
   };
 
-  // Fonction pour récupérer tous les projets
-  const getAllProjects = async (): Promise<Project[]> => {
-    setIsLoading(true);
-    try {
-      const results = await odooService.getAll<Project>("project.project", {
-        fields: [
-          "id",
-          "name",
-          "display_name",
-          "description",
-          "user_id",
-          "partner_id",
-          "stage_id",
-          "task_count",
-          "active",
-          "company_id",
-          "date_start",
-          "date",
-        ],
-        limit: 100,
-      });
-      return results;
-    } finally {
+  const {
+    records: projects,
+    setRecords: setProjects,
+    total,
+    setTotal,
+    hasMore,
+    isLoading,
+    setIsLoading,
+    loadMore,
+  } = usePaginatedSearch<Project>({
+    name: "projects",
+    searchText,
+    key: [localIndex.version, companies.selectionKey].join("|"),
+    enabled: connectionChecked,
+    fetchPage: fetchProjects,
+    onPage: (_page, query, offset) => {
+      if (!query.trim() && offset === 0) {
+        setSyncedAt(odooService?.peekSearchRead("project.project", [], PROJECT_OPTIONS)?.syncedAt || null);
+      }
+    },
+    searchLocally: query =>
+      query.length > 0 && localIndex.isReady && !hasQueryFilters(query, QUERY_SCHEMA)
+        ? localIndex.search(query, companies.isSelected)
+        : null,
+    onSuccess: clear,
+    onError: report,
+  });
+
+  // Effect pour vérifier la connexion et charger les données du profil actif
+  useEffect(() => {
+    if (!odooService) {
       setIsLoading(false);
+      return;
     }
-  };
 
-  // Effect pour vérifier la connexion et charger les données
-  useEffect(() => {
     const initializeData = async () => {
       try {
         setIsLoading(true);
+        setConnectionChecked(false);
+
+        // Afficher immédiatement les derniers résultats connus, rafraîchis ensuite en arrière-plan
+        const cached = odooService.peekSearchRead<Project>("project.project", [], PROJECT_OPTIONS);
+        setProjects(cached?.data || []);
+        setTotal(odooService.peekSearchCount("project.project", []));
+        setSyncedAt(cached?.syncedAt || null);
 
-        // Vérifier la connexion
-        const isConnected = await odooService.testConnection();
-        if (!isConnected) {
-          showFailureToast({
-            title: "Connection failed",
-            message: "Unable to connect to Odoo. Please check your settings.",
-          });
-          setConnectionChecked(true);
-          setIsLoading(false);
-          return;
-        }
-
-        // Charger les données
-        const projectsData = await getAllProjects();
-        setProjects(projectsData);
+        await odooService.authenticate();
+        clear();
+
+        // Le chargement des données est déclenché par l'effet de recherche
         setConnectionChecked(true);
-        setIsLoading(false);
       } catch (error) {
         console.error("Error during initialization:", error);
-        showFailureToast({
-          title: "Initialization failed",
-          message: "Failed to initialize project search. Please check your configuration.",
-        });
-        setConnectionChecked(true);
+        report(error);
         setIsLoading(false);
       }
     };
 
     // Start initialization immediately
     initializeData();
-  }, []);
-
-  // Debounced search effect
-  useEffect(() => {
-    // Skip search if connection hasn't been checked yet
-    if (!connectionChecked) {
-      return;
-    }
-
-    const timeoutId = setTimeout(async () => {
-      try {
-        if (searchText.length >= 2) {
-          const projectsData = await searchProjects(searchText);
-          setProjects(projectsData);
-        } else if (searchText.length === 0) {
-          // Si pas de recherche, recharger tous les projets
-          const projectsData = await getAllProjects();
-          setProjects(projectsData);
-        }
-      } catch (error) {
-        console.error("Error during search:", error);
-        showFailureToast({
-          title: "Search failed",
-          message: "Unable to search projects. Please check your connection.",
-        });
-      }
-    }, 300);
-
-    return () => clearTimeout(timeoutId);
-  }, [searchText, connectionChecked]);
+  }, [odooService, retryCount]);
 
   // Fonction pour ouvrir les tâches du projet
   const openProjectTasks = (project: Project) => {
-    const tasksUrl = `${preferences.odooUrl.replace(/\/$/, "")}/odoo/action-369/${project.id}/tasks`;
-
+    const tasksUrl = urls.projectTasks(project.id);
+    usage.visit(project);
     try {
       open(tasksUrl);
     } catch (error) {
@@ -149,47 +157,179 @@ export default function SearchProjects() {
     }
   };
 
+  // Un filtre du sélecteur remplace la recherche par sa requête, modifiable ensuite
+  const changeFilter = (value: string) => {
+    setFilter(value);
+    setSearchText(savedSearches.find(value)?.query ?? PRESETS[value] ?? "");
+  };
+
+  const savedSearch = savedSearches.find(filter);
+
+  const handleSavedSearchChange = (search: SavedSearch | null) => {
+    savedSearches.refresh();
+    setFilter(search ? savedSearches.getValue(search) : "all");
+  };
+
+  const savedSearchActions = (
+    <SavedSearchActions
+      command="search-projects"
+      query={searchText}
+      schema={QUERY_SCHEMA}
+      savedSearch={savedSearch}
+      onChange={handleSavedSearchChange}
+    />
+  );
+
+  const getAccessories = (project: Project): List.Item.Accessory[] => {
+    const stage = project.stage_id ? [{ text: project.stage_id[1] }] : [];
+    if (isShowingDetail) return stage;
+
+    return [
+      ...(project.task_count ? [{ text: `${project.task_count} tasks` }] : []),
+      ...(project.user_id ? [{ text: `Manager: ${project.user_id[1]}` }] : []),
+      ...(project.partner_id ? [{ text: `Client: ${project.partner_id[1]}` }] : []),
+      ...stage,
+    ];
+  };
+
+  const formatDate = (date?: string) => (date ? new Date(date).toLocaleDateString() : undefined);
+
+  const getDetail = (project: Project) => (
+    <RecordDetail
+      recordId={project.id}
+      title={project.display_name || project.name}
+      description={project.description}
+      related={related}>
+      {project.stage_id && <List.Item.Detail.Metadata.Label title="Stage" text={project.stage_id[1]} />}
+      <List.Item.Detail.Metadata.Label title="Manager" text={project.user_id ? project.user_id[1] : "—"} />
+      {project.partner_id && <List.Item.Detail.Metadata.Label title="Customer" text={project.partner_id[1]} />}
+      {project.task_count !== undefined && (
+        <List.Item.Detail.Metadata.Label title="Tasks" text={String(project.task_count)} />
+      )}
+      {project.date_start && <List.Item.Detail.Metadata.Label title="Start" text={formatDate(project.date_start)} />}
+      {project.date && <List.Item.Detail.Metadata.Label title="End" text={formatDate(project.date)} />}
+      {project.company_id && <List.Item.Detail.Metadata.Label title="Company" text={project.company_id[1]} />}
+    </RecordDetail>
+  );
+
+  // Épinglés et récents au-dessus des résultats, eux-mêmes classés par frécence
+  const { pinned, recent, others } = usage.arrange(projects, { showSections: searchText.length === 0 });
+
+  const renderProject = (project: Project) => (
+    <List.Item
+      key={project.id}
+      id={String(project.id)}
+      title={project.display_name || project.name}
+      subtitle={isShowingDetail ? undefined : project.description}
+      accessories={getAccessories(project)}
+      detail={getDetail(project)}
+      actions={
+        <ActionPanel>
+          <Action.Push
+            title="Browse Tasks"
+            target={<TaskList project={project} />}
+            icon="📋"
+            onPush={() => usage.visit(project)}
+          />
+          <Action title="Open Project Tasks" onAction={() => openProjectTasks(project)} icon="🌐" />
+          <PinAction
+            isPinned={usage.isPinned(project.id)}
+            onToggle={() => usage.toggle(project, project.display_name || project.name)}
+          />
+          <Action
+            title={isShowingDetail ? "Hide Details" : "Show Details"}
+            icon={Icon.Sidebar}
+            shortcut={{ modifiers: ["cmd"], key: "d" }}
+            onAction={() => setIsShowingDetail(!isShowingDetail)}
+          />
+          <Action.Push
+            title="Create Task"
+            target={<TaskForm project={project} />}
+            icon="➕"
+            shortcut={{ modifiers: ["cmd"], key: "n" }}
+          />
+          {project.partner_id && (
+            <Action.Push
+              title="Show Customer"
+              icon={Icon.Person}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "u" }}
+              target={<PartnerDetail partnerId={project.partner_id[0]} />}
+            />
+          )}
+          <Action.CopyToClipboard title="Copy Project Name" content={project.display_name || project.name} />
+          <Action.CopyToClipboard title="Copy Project URL" content={urls.projectTasks(project.id)} />
+          <ExportActions records={projects} name="projects" odooService={odooService} model="project.project" />
+          {savedSearchActions}
+          <CompanyActions
+            state={companies}
+            isGrouped={isGroupedByCompany}
+            onToggleGroup={() => setIsGroupedByCompany(!isGroupedByCompany)}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+
   return (
     <List
-      isLoading={isLoading}
+      isLoading={isLoading || isLoadingProfile || localIndex.isSyncing}
+      isShowingDetail={isShowingDetail && projects.length > 0}
+      searchText={searchText}
       onSearchTextChange={setSearchText}
-      searchBarPlaceholder="Search projects by name..."
+      onSelectionChange={setSelectedId}
+      pagination={{ onLoadMore: loadMore, hasMore, pageSize: PAGE_SIZE }}
+      searchBarPlaceholder="Search projects, or filter with stage: user:me customer: inactive:yes..."
+      searchBarAccessory={
+        <ProfileDropdown
+          profiles={profiles}
+          profile={profile}
+          onProfileChange={switchProfile}
+          filters={[
+            { title: "All Projects", value: "all", icon: Icon.List },
+            { title: "Archived Projects", value: "archived", icon: Icon.Box },
+            ...savedSearches.filters,
+          ]}
+          filter={filter}
+          onFilterChange={changeFilter}
+        />
+      }
       throttle>
-      <List.Section title="Projects" subtitle={`${projects.length} project${projects.length !== 1 ? "s" : ""}`}>
-        {projects.map(project => (
-          <List.Item
-            key={project.id}
-            title={project.display_name || project.name}
-            subtitle={project.description}
-            accessories={[
-              ...(project.task_count ? [{ text: `${project.task_count} tasks` }] : []),
-              ...(project.user_id ? [{ text: `Manager: ${project.user_id[1]}` }] : []),
-              ...(project.partner_id ? [{ text: `Client: ${project.partner_id[1]}` }] : []),
-              ...(project.stage_id ? [{ text: project.stage_id[1] }] : []),
-            ]}
-            actions={
-              <ActionPanel>
-                <Action title="Open Project Tasks" onAction={() => openProjectTasks(project)} icon="📋" />
-                <Action.CopyToClipboard title="Copy Project Name" content={project.display_name || project.name} />
-                <Action.CopyToClipboard
-                  title="Copy Project URL"
-                  content={`${preferences.odooUrl.replace(/\/$/, "")}/odoo/action-369/${project.id}/tasks`}
-                />
-              </ActionPanel>
-            }
-          />
-        ))}
-      </List.Section>
-      {searchText.length > 0 && searchText.length < 2 && (
+      {!profile && !isLoadingProfile && <ProfileEmptyView />}
+      {error && projects.length === 0 && !isLoading && <ErrorEmptyView error={error} onRetry={retry} />}
+      {pinned.length > 0 && <List.Section title="Pinned">{pinned.map(renderProject)}</List.Section>}
+      {recent.length > 0 && <List.Section title="Recent">{recent.map(renderProject)}</List.Section>}
+      {isGroupedByCompany && companies.isMultiCompany ? (
+        companies.group(others).map(group => (
+          <List.Section key={group.id} title={group.title} subtitle={String(group.records.length)}>
+            {group.records.map(renderProject)}
+          </List.Section>
+        ))
+      ) : (
+        <List.Section
+          title="Projects"
+          subtitle={[
+            formatRecordCount(projects.length, total, "project"),
+            ...(syncedAt && searchText.length === 0 ? [formatSyncedAt(syncedAt)] : []),
+          ].join(" · ")}>
+          {others.map(renderProject)}
+        </List.Section>
+      )}
+      {searchText.length > 0 && searchText.length < 2 && !localIndex.isReady && (
         <List.EmptyView title="Type at least 2 characters" description="Start typing to search for projects by name" />
       )}
-      {searchText.length >= 2 && projects.length === 0 && !isLoading && (
+      {searchText.length >= 2 && projects.length === 0 && !isLoading && !error && (
         <List.EmptyView
           title="No projects found"
           description={`No projects match "${searchText}". Try a different search term or check if the Project module is installed in Odoo.`}
+          actions={
+            <ActionPanel>
+              {savedSearchActions}
+              <CompanyActions state={companies} />
+            </ActionPanel>
+          }
         />
       )}
-      {searchText.length === 0 && projects.length === 0 && !isLoading && connectionChecked && (
+      {searchText.length === 0 && projects.length === 0 && !isLoading && connectionChecked && !error && (
         <List.EmptyView
           title="No projects available"
           description="No projects found. You may not have the necessary permissions to view projects."
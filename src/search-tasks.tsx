@@ -0,0 +1,7 @@
+import { LaunchProps } from "@raycast/api";
+import { TaskList } from "./components/task-list";
+import { SearchLaunchContext } from "./types";
+
+export default function SearchTasks({ launchContext }: LaunchProps<{ launchContext?: SearchLaunchContext }>) {
+  return <TaskList initialQuery={launchContext?.query} />;
+}
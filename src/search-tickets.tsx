@@ -0,0 +1,7 @@
+import { LaunchProps } from "@raycast/api";
+import { TicketList } from "./components/ticket-list";
+import { SearchLaunchContext } from "./types";
+
+export default function SearchTickets({ launchContext }: LaunchProps<{ launchContext?: SearchLaunchContext }>) {
+  return <TicketList initialQuery={launchContext?.query} />;
+}
@@ -0,0 +1,181 @@
+import { HelpdeskTicket, OdooPartner, Project, Task } from "../types";
+import { parseOdooDatetime } from "../utils/fields";
+import { htmlToMarkdown } from "../utils/html";
+import { OdooValidationError } from "./errors";
+import { OdooService } from "./odoo";
+import { getActiveProfile, getOdooService } from "./profiles";
+import { getBaseUrl } from "./transports";
+import { OdooUrlBuilder, loadRouting, peekRouting } from "./urls";
+
+export const TASK_FIELDS = [
+  "id",
+  "name",
+  "description",
+  "project_id",
+  "stage_id",
+  "user_ids",
+  "date_deadline",
+  "priority",
+];
+export const TICKET_FIELDS = [
+  "id",
+  "name",
+  "description",
+  "ticket_ref",
+  "team_id",
+  "partner_id",
+  "partner_name",
+  "stage_id",
+  "priority",
+  "sla_deadline",
+  "user_id",
+  "create_date",
+];
+export const PROJECT_FIELDS = ["id", "name", "description", "user_id", "partner_id", "stage_id", "task_count", "date"];
+export const PARTNER_FIELDS = ["id", "name", "email", "phone", "is_company", "parent_id", "city", "country_id"];
+
+export type RecordType = "task" | "ticket" | "project" | "partner";
+
+export const RECORD_MODELS: Record<RecordType, { model: string; fields: string[] }> = {
+  task: { model: "project.task", fields: TASK_FIELDS },
+  ticket: { model: "helpdesk.ticket", fields: TICKET_FIELDS },
+  project: { model: "project.project", fields: PROJECT_FIELDS },
+  partner: { model: "res.partner", fields: PARTNER_FIELDS },
+};
+
+// Taille maximale des listes renvoyées à l'IA, pour rester dans sa fenêtre de contexte
+export const MAX_RESULTS = 50;
+
+export interface ToolContext {
+  odooService: OdooService;
+  urls: OdooUrlBuilder;
+  uid: number;
+}
+
+/**
+ * Service du profil actif, authentifié : les outils voient exactement ce que les droits Odoo de l'utilisateur permettent
+ * @throws {OdooValidationError} si aucun profil n'est configuré
+ */
+export async function getToolContext(): Promise<ToolContext> {
+  const profile = await getActiveProfile();
+  if (!profile) {
+    throw new OdooValidationError("No Odoo instance is configured. Add one with the Manage Profiles command.");
+  }
+
+  const odooService = getOdooService(profile);
+  const uid = await odooService.authenticate();
+  const routing = await loadRouting(odooService, []).catch(() => peekRouting(odooService));
+  return { odooService, uid, urls: new OdooUrlBuilder(getBaseUrl(profile), routing || undefined) };
+}
+
+export const clampLimit = (limit: number | undefined, fallback = 20) =>
+  Math.min(Math.max(Math.round(limit || fallback), 1), MAX_RESULTS);
+
+const nameOf = (value?: [number, string] | false) => (value ? value[1] : undefined);
+
+export const textOf = (html?: string | false) => htmlToMarkdown(html) || undefined;
+
+/**
+ * Lit un enregistrement visible par l'utilisateur
+ * @throws {OdooValidationError} s'il n'existe pas ou que les règles d'accès le masquent
+ */
+export async function readRecord<T>(odooService: OdooService, type: RecordType, id: number): Promise<T> {
+  const { model, fields } = RECORD_MODELS[type];
+  const [record] = await odooService.searchRead<T>(model, [["id", "=", id]], { fields, limit: 1 });
+  if (!record) {
+    throw new OdooValidationError(`No ${type} #${id} is visible with your Odoo access rights`);
+  }
+  return record;
+}
+
+/**
+ * Projet désigné par son nom : correspondance exacte d'abord, sinon un seul résultat approchant
+ * @throws {OdooValidationError} si aucun projet ou plusieurs projets correspondent
+ */
+export async function findProject(odooService: OdooService, name: string): Promise<Project> {
+  const projects = await odooService.searchRead<Project>("project.project", [["name", "ilike", name.trim()]], {
+    fields: ["id", "name", "display_name"],
+    limit: 10,
+  });
+
+  const exact = projects.find(project => project.name.toLowerCase() === name.trim().toLowerCase());
+  if (exact) return exact;
+  if (projects.length === 1) return projects[0];
+  if (projects.length === 0) {
+    throw new OdooValidationError(`No project matches "${name}"`);
+  }
+  throw new OdooValidationError(
+    `Several projects match "${name}": ${projects.map(project => project.name).join(", ")}. Ask which one to use.`,
+  );
+}
+
+/**
+ * Noms des utilisateurs assignés aux tâches, en une seule lecture
+ */
+export async function getAssigneeNames(odooService: OdooService, tasks: Task[]): Promise<Record<number, string>> {
+  const ids = [...new Set(tasks.flatMap(task => task.user_ids || []))];
+  try {
+    return await odooService.getDisplayNames("res.users", ids);
+  } catch (error) {
+    // Utilisateurs illisibles avec les droits courants : les tâches restent utiles sans leurs noms
+    console.error("Cannot read task assignees:", error);
+    return {};
+  }
+}
+
+export function describeTask(task: Task, context: ToolContext, assignees: Record<number, string> = {}) {
+  return {
+    id: task.id,
+    name: task.name,
+    project: nameOf(task.project_id),
+    stage: nameOf(task.stage_id),
+    assignees: (task.user_ids || []).map(id => assignees[id] || `User #${id}`),
+    deadline: task.date_deadline || undefined,
+    priority: task.priority === "1" ? "high" : "normal",
+    url: context.urls.record("project.task", task.id),
+  };
+}
+
+export function describeTicket(ticket: HelpdeskTicket, context: ToolContext) {
+  return {
+    id: ticket.id,
+    reference: ticket.ticket_ref || undefined,
+    subject: ticket.name,
+    team: nameOf(ticket.team_id),
+    customer: nameOf(ticket.partner_id) || ticket.partner_name || undefined,
+    stage: nameOf(ticket.stage_id),
+    assignee: nameOf(ticket.user_id),
+    priority: ["low", "medium", "high", "urgent"][Number(ticket.priority) || 0],
+    slaDeadline: ticket.sla_deadline || undefined,
+    slaBreached: ticket.sla_deadline ? parseOdooDatetime(ticket.sla_deadline) < new Date() : false,
+    createdOn: ticket.create_date || undefined,
+    url: context.urls.record("helpdesk.ticket", ticket.id),
+  };
+}
+
+export function describeProject(project: Project, context: ToolContext) {
+  return {
+    id: project.id,
+    name: project.name,
+    manager: nameOf(project.user_id),
+    customer: nameOf(project.partner_id),
+    stage: nameOf(project.stage_id),
+    openTasks: project.task_count,
+    endDate: project.date || undefined,
+    url: context.urls.record("project.project", project.id),
+  };
+}
+
+export function describePartner(partner: OdooPartner, context: ToolContext) {
+  return {
+    id: partner.id,
+    name: partner.name,
+    type: partner.is_company ? "company" : "person",
+    company: nameOf(partner.parent_id),
+    email: partner.email || undefined,
+    phone: partner.phone || undefined,
+    city: partner.city || undefined,
+    country: nameOf(partner.country_id),
+    url: context.urls.record("res.partner", partner.id),
+  };
+}
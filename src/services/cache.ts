@@ -0,0 +1,92 @@
+import { Cache } from "@raycast/api";
+import { createHash } from "crypto";
+import { OdooConnection } from "../types";
+
+// Cache persistant : survit à la fermeture des commandes et aux redémarrages de Raycast
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  model: string;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  syncedAt: Date;
+  isStale: boolean;
+}
+
+const DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
+const MAX_AGE = 7 * 24 * 60 * 60 * 1000; // Au-delà, les données ne sont plus servies même hors ligne
+const CAPACITY = 5 * 1024 * 1024; // 5 Mo par profil, éviction LRU au-delà
+
+// Durée de fraîcheur par modèle : les données qui bougent souvent expirent plus vite
+const MODEL_TTLS: Record<string, number> = {
+  "project.task": 2 * 60 * 1000,
+  "helpdesk.ticket": 2 * 60 * 1000,
+  "project.project": 15 * 60 * 1000,
+  "helpdesk.team": 60 * 60 * 1000,
+  "res.users": 60 * 60 * 1000,
+  "ir.model": 24 * 60 * 60 * 1000,
+  "mail.message": 5 * 60 * 1000,
+  "mail.followers": 15 * 60 * 1000,
+  "ir.attachment": 15 * 60 * 1000,
+  "ir.actions.act_window": 24 * 60 * 60 * 1000,
+};
+
+export function getModelTtl(model: string): number {
+  return MODEL_TTLS[model] ?? DEFAULT_TTL;
+}
+
+/**
+ * Espace de noms propre à une instance / base / utilisateur, pour ne jamais mélanger les résultats.
+ * Un profil rejoué reprend la connexion d'origine : son fichier de fixtures le distingue du profil réel.
+ */
+export function getConnectionNamespace(connection: OdooConnection): string {
+  const parts = [connection.odooUrl, connection.database, connection.userLogin];
+  if (connection.fixture) parts.push(`fixture:${connection.fixture}`);
+  return createHash("sha1").update(parts.join("|")).digest("hex").slice(0, 16);
+}
+
+export class PersistentCache {
+  private cache: Cache;
+
+  constructor(connection: OdooConnection) {
+    this.cache = new Cache({ namespace: `odoo-${getConnectionNamespace(connection)}`, capacity: CAPACITY });
+  }
+
+  set<T>(key: string, model: string, data: T): void {
+    const entry: CacheEntry<T> = { data, timestamp: Date.now(), model };
+    try {
+      this.cache.set(key, JSON.stringify(entry));
+    } catch (error) {
+      console.error("Cache write error:", error);
+    }
+  }
+
+  get<T>(key: string): CachedResult<T> | null {
+    const raw = this.cache.get(key);
+    if (!raw) return null;
+
+    try {
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      const age = Date.now() - entry.timestamp;
+      if (age > MAX_AGE) {
+        this.cache.remove(key);
+        return null;
+      }
+
+      return {
+        data: entry.data,
+        syncedAt: new Date(entry.timestamp),
+        isStale: age > getModelTtl(entry.model),
+      };
+    } catch {
+      this.cache.remove(key);
+      return null;
+    }
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+}
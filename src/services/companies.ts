@@ -0,0 +1,37 @@
+import { Cache } from "@raycast/api";
+import { OdooConnection, UserCompanies } from "../types";
+import { getConnectionNamespace } from "./cache";
+
+// Choix de l'utilisateur, conservé sans limite de durée contrairement aux résultats mis en cache
+const selections = new Cache({ namespace: "company-selection" });
+
+/**
+ * Sociétés choisies pour une connexion, null pour toutes les sociétés autorisées
+ */
+export function getCompanySelection(connection: OdooConnection): number[] | null {
+  const raw = selections.get(getConnectionNamespace(connection));
+  return raw ? (JSON.parse(raw) as number[]) : null;
+}
+
+export function saveCompanySelection(connection: OdooConnection, ids: number[] | null): void {
+  const key = getConnectionNamespace(connection);
+  if (ids && ids.length > 0) {
+    selections.set(key, JSON.stringify(ids));
+  } else {
+    selections.remove(key);
+  }
+}
+
+/**
+ * Valeur de allowed_company_ids : la sélection encore autorisée, sinon toutes les sociétés de l'utilisateur
+ * avec sa société par défaut en premier, comme le client web. null sur une base mono-société
+ */
+export function getAllowedCompanyIds(companies: UserCompanies, selection: number[] | null): number[] | null {
+  const allowedIds = companies.allowed.map(company => company.id);
+  const selected = (selection || []).filter(id => allowedIds.includes(id));
+  if (selected.length > 0) return selected;
+  if (allowedIds.length < 2) return null;
+
+  const current = companies.current && allowedIds.includes(companies.current) ? companies.current : allowedIds[0];
+  return [current, ...allowedIds.filter(id => id !== current)];
+}
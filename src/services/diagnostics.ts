@@ -0,0 +1,248 @@
+import { OdooConnection, OdooVersionInfo } from "../types";
+import { OdooAccessError, OdooAuthError, OdooModelNotFoundError, toOdooError } from "./errors";
+import { OdooTransport, TransportOptions, createTransport, getBaseUrl } from "./transports";
+
+export type DiagnosticStatus = "success" | "warning" | "failure" | "skipped";
+
+export interface DiagnosticStep {
+  title: string;
+  status: DiagnosticStatus;
+  detail: string;
+}
+
+// Modules utilisés par l'extension et modèles à vérifier pour chacun
+const REQUIRED_MODULES: Record<string, string[]> = {
+  project: ["project.project", "project.task"],
+  helpdesk: ["helpdesk.team", "helpdesk.ticket"],
+};
+
+// check_access_rights est remplacé par has_access à partir d'Odoo 18
+const HAS_ACCESS_MIN_VERSION = 18;
+
+const REQUEST_TIMEOUT = 10 * 1000;
+const TIMEOUT_DETAIL = `No answer within ${REQUEST_TIMEOUT / 1000} s`;
+
+// Chaque appel a son propre délai : une étape bloquée ne doit pas suspendre le diagnostic
+const withTimeout = (): TransportOptions => ({ signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+
+const isTimedOut = (request: TransportOptions) => request.signal?.aborted === true;
+
+interface ModuleInfo {
+  name: string;
+  state: string;
+  latest_version: string | false;
+}
+
+/**
+ * Vérifie pas à pas une connexion Odoo, en notifiant chaque étape dès qu'elle est terminée
+ */
+export class ConnectionDiagnostics {
+  private steps: DiagnosticStep[] = [];
+
+  constructor(
+    private connection: OdooConnection,
+    private onProgress: (steps: DiagnosticStep[]) => void = () => undefined,
+  ) {}
+
+  private record(title: string, status: DiagnosticStatus, detail: string): void {
+    this.steps = [...this.steps, { title, status, detail }];
+    this.onProgress(this.steps);
+  }
+
+  private skip(titles: string[], reason: string): DiagnosticStep[] {
+    for (const title of titles) {
+      this.record(title, "skipped", reason);
+    }
+    return this.steps;
+  }
+
+  async run(): Promise<DiagnosticStep[]> {
+    this.steps = [];
+    const remaining = ["Server version", "Database", "Login", "Modules", "Access rights"];
+
+    if (!(await this.checkReachability())) {
+      return this.skip(remaining, "Server unreachable");
+    }
+
+    const server = await this.checkVersion();
+    if (!server) {
+      return this.skip(remaining.slice(1), "No Odoo API answered");
+    }
+
+    await this.checkDatabase(server.transport);
+
+    const uid = await this.checkLogin(server.transport);
+    if (!uid) {
+      return this.skip(remaining.slice(3), "Not logged in");
+    }
+
+    const installed = await this.checkModules(server.transport, uid);
+    await this.checkAccessRights(server.transport, uid, server.version, installed);
+    return this.steps;
+  }
+
+  private async checkReachability(): Promise<boolean> {
+    const url = getBaseUrl(this.connection);
+    if (this.connection.fixture) {
+      this.record(
+        "URL reachability",
+        "skipped",
+        `Offline profile: answers are replayed from ${this.connection.fixture}`,
+      );
+      return true;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const response = await fetch(`${url}/web/login`, {
+        method: "GET",
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+      const elapsed = Date.now() - startedAt;
+      const status = response.status < 500 ? "success" : "warning";
+      this.record("URL reachability", status, `${url} answered HTTP ${response.status} in ${elapsed} ms`);
+      return true;
+    } catch (error) {
+      this.record("URL reachability", "failure", `${url}: ${toOdooError(error).message}`);
+      return false;
+    }
+  }
+
+  private async checkVersion(): Promise<{ transport: OdooTransport; version: OdooVersionInfo } | null> {
+    const request = withTimeout();
+    try {
+      const transport = await createTransport(this.connection, request);
+      const version = await transport.version(request);
+      this.record(
+        "Server version",
+        "success",
+        `Odoo ${version.server_version} (protocol: ${transport.protocol.toUpperCase()})`,
+      );
+      return { transport, version };
+    } catch (error) {
+      this.record("Server version", "failure", isTimedOut(request) ? TIMEOUT_DETAIL : toOdooError(error).message);
+      return null;
+    }
+  }
+
+  private async checkDatabase(transport: OdooTransport): Promise<void> {
+    const { database } = this.connection;
+    const request = withTimeout();
+    try {
+      const databases = await transport.listDatabases(request);
+      if (databases.includes(database)) {
+        this.record("Database", "success", `${database} found among ${databases.length} database(s)`);
+      } else {
+        this.record("Database", "failure", `${database} not found. Available: ${databases.join(", ") || "none"}`);
+      }
+    } catch (error) {
+      if (isTimedOut(request)) {
+        this.record("Database", "failure", TIMEOUT_DETAIL);
+        return;
+      }
+      // list_db = False est courant en production : la connexion dira si la base existe
+      const odooError = toOdooError(error);
+      this.record("Database", "skipped", `Database listing is disabled on this server (${odooError.message})`);
+    }
+  }
+
+  private async checkLogin(transport: OdooTransport): Promise<number | null> {
+    const { userLogin, database } = this.connection;
+    const request = withTimeout();
+    try {
+      const uid = await transport.authenticate(request);
+      if (!uid) {
+        throw new OdooAuthError("Invalid credentials");
+      }
+      this.record("Login", "success", `${userLogin} logged in to ${database} (uid ${uid})`);
+      return uid;
+    } catch (error) {
+      const detail = isTimedOut(request) ? TIMEOUT_DETAIL : toOdooError(error).message;
+      this.record("Login", "failure", `${userLogin}: ${detail}`);
+      return null;
+    }
+  }
+
+  private async checkModules(transport: OdooTransport, uid: number): Promise<Set<string>> {
+    const installed = new Set<string>();
+    const request = withTimeout();
+    try {
+      const modules = await transport.executeKw<ModuleInfo[]>(
+        uid,
+        "ir.module.module",
+        "search_read",
+        [[["name", "in", Object.keys(REQUIRED_MODULES)]]],
+        { fields: ["name", "state", "latest_version"] },
+        request,
+      );
+
+      const lines = Object.keys(REQUIRED_MODULES).map(name => {
+        const module = modules.find(item => item.name === name);
+        if (module?.state === "installed") {
+          installed.add(name);
+          return `${name}: installed${module.latest_version ? ` (${module.latest_version})` : ""}`;
+        }
+        return `${name}: ${module ? module.state : "not available"}`;
+      });
+
+      const status = installed.size === Object.keys(REQUIRED_MODULES).length ? "success" : "warning";
+      this.record("Modules", status, lines.join("\n"));
+    } catch (error) {
+      if (isTimedOut(request)) {
+        this.record("Modules", "failure", `Cannot read installed modules: ${TIMEOUT_DETAIL}`);
+      } else {
+        this.record("Modules", "warning", `Cannot read installed modules: ${toOdooError(error).message}`);
+      }
+      // Sans la liste des modules, on vérifie quand même les droits sur tous les modèles
+      Object.keys(REQUIRED_MODULES).forEach(name => installed.add(name));
+    }
+    return installed;
+  }
+
+  private async checkAccessRights(
+    transport: OdooTransport,
+    uid: number,
+    version: OdooVersionInfo,
+    installed: Set<string>,
+  ): Promise<void> {
+    const useHasAccess = Number(version.server_version_info?.[0]) >= HAS_ACCESS_MIN_VERSION;
+    const lines: string[] = [];
+    let status: DiagnosticStatus = "success";
+
+    for (const [module, models] of Object.entries(REQUIRED_MODULES)) {
+      for (const model of models) {
+        if (!installed.has(module)) {
+          lines.push(`${model}: skipped (${module} not installed)`);
+          continue;
+        }
+
+        const request = withTimeout();
+        try {
+          const canRead = useHasAccess
+            ? await transport.executeKw<boolean>(uid, model, "has_access", [[], "read"], {}, request)
+            : await transport.executeKw<boolean>(uid, model, "check_access_rights", ["read", false], {}, request);
+          lines.push(`${model}: ${canRead ? "read allowed" : "read denied"}`);
+          if (!canRead) status = "warning";
+        } catch (error) {
+          const odooError = toOdooError(error);
+          if (isTimedOut(request)) {
+            lines.push(`${model}: ${TIMEOUT_DETAIL.toLowerCase()}`);
+            status = "failure";
+            continue;
+          }
+          if (odooError instanceof OdooModelNotFoundError) {
+            lines.push(`${model}: model not found`);
+          } else if (odooError instanceof OdooAccessError) {
+            lines.push(`${model}: read denied`);
+          } else {
+            lines.push(`${model}: ${odooError.message}`);
+          }
+          if (status !== "failure") status = "warning";
+        }
+      }
+    }
+
+    this.record("Access rights", status, lines.join("\n"));
+  }
+}
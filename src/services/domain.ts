@@ -0,0 +1,92 @@
+export type DomainOperator =
+  | "="
+  | "!="
+  | ">"
+  | ">="
+  | "<"
+  | "<="
+  | "like"
+  | "ilike"
+  | "not ilike"
+  | "in"
+  | "not in"
+  | "child_of";
+
+export type DomainLeaf = [string, DomainOperator, unknown];
+export type DomainTerm = DomainLeaf | "&" | "|" | "!";
+export type Domain = DomainTerm[];
+
+/**
+ * Nombre d'expressions au premier niveau d'un domaine en notation préfixe (ET implicite entre elles)
+ */
+function countExpressions(domain: Domain): number {
+  const leaves = domain.filter(term => Array.isArray(term)).length;
+  const binaryOperators = domain.filter(term => term === "&" || term === "|").length;
+  return leaves - binaryOperators;
+}
+
+/**
+ * Regroupe des domaines avec un opérateur binaire, en rendant explicite le ET implicite de chacun
+ */
+function combine(operator: "&" | "|", domains: Domain[]): Domain {
+  const expressions = domains.filter(domain => domain.length > 0).map(domain => and(domain));
+  if (expressions.length === 0) return [];
+  return [...Array<DomainTerm>(expressions.length - 1).fill(operator), ...expressions.flat()];
+}
+
+/**
+ * ET explicite : le résultat est une seule expression, utilisable dans un OU
+ */
+export function and(...domains: Domain[]): Domain {
+  if (domains.length === 1) {
+    const [domain] = domains;
+    const count = countExpressions(domain);
+    return count > 1 ? [...Array<DomainTerm>(count - 1).fill("&"), ...domain] : domain;
+  }
+  return combine("&", domains);
+}
+
+export function or(...domains: Domain[]): Domain {
+  return combine("|", domains);
+}
+
+export function not(domain: Domain): Domain {
+  return domain.length > 0 ? ["!", ...and(domain)] : [];
+}
+
+/**
+ * Construit un domaine Odoo clause par clause, en ET
+ */
+export class DomainBuilder {
+  private domain: Domain;
+
+  constructor(initial: Domain = []) {
+    this.domain = [...initial];
+  }
+
+  where(field: string, operator: DomainOperator, value: unknown): this {
+    this.domain.push([field, operator, value]);
+    return this;
+  }
+
+  /**
+   * Au moins une des conditions (OU)
+   */
+  any(...domains: Domain[]): this {
+    this.domain.push(...or(...domains));
+    return this;
+  }
+
+  add(domain: Domain): this {
+    this.domain.push(...domain);
+    return this;
+  }
+
+  has(field: string): boolean {
+    return this.domain.some(term => Array.isArray(term) && term[0] === field);
+  }
+
+  build(): Domain {
+    return [...this.domain];
+  }
+}
@@ -0,0 +1,133 @@
+// Erreurs typées levées par le service, classées à partir du nom d'exception Odoo (error.data.name)
+export class OdooError extends Error {
+  constructor(
+    message: string,
+    readonly odooName?: string,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** Identifiants refusés ou session expirée */
+export class OdooAuthError extends OdooError {}
+
+/** Mot de passe accepté, mais le compte attend un code de double authentification */
+export class OdooTwoFactorError extends OdooAuthError {}
+
+/** Droits insuffisants sur un modèle ou un enregistrement */
+export class OdooAccessError extends OdooError {}
+
+/** Serveur injoignable, URL invalide ou délai dépassé */
+export class OdooNetworkError extends OdooError {}
+
+/** Panne passagère (passerelle 502-504, connexion coupée, délai dépassé) : une lecture peut être rejouée */
+export class OdooUnavailableError extends OdooNetworkError {}
+
+/** Requête abandonnée par l'appelant, par exemple une recherche remplacée par une frappe plus récente */
+export class OdooCancelledError extends OdooError {
+  constructor(message = "The request was cancelled") {
+    super(message);
+  }
+}
+
+/** Données refusées par Odoo (contrainte, champ obligatoire, enregistrement supprimé...) */
+export class OdooValidationError extends OdooError {}
+
+/** Modèle absent de la base, généralement parce que le module n'est pas installé */
+export class OdooModelNotFoundError extends OdooError {
+  constructor(
+    message: string,
+    readonly model: string,
+    odooName?: string,
+  ) {
+    super(message, odooName);
+  }
+}
+
+/** Toute autre erreur renvoyée par le serveur */
+export class OdooServerError extends OdooError {}
+
+const AUTH_EXCEPTIONS = ["odoo.exceptions.AccessDenied", "odoo.http.SessionExpiredException"];
+const ACCESS_EXCEPTIONS = ["odoo.exceptions.AccessError"];
+const VALIDATION_EXCEPTIONS = [
+  "odoo.exceptions.ValidationError",
+  "odoo.exceptions.UserError",
+  "odoo.exceptions.MissingError",
+  "odoo.exceptions.RedirectWarning",
+  "psycopg2.errors.NotNullViolation",
+  "psycopg2.errors.UniqueViolation",
+  "psycopg2.IntegrityError",
+];
+
+const NETWORK_CODES = ["ENOTFOUND", "ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "EAI_AGAIN", "CERT_HAS_EXPIRED"];
+const TRANSIENT_CODES = ["ECONNRESET", "ETIMEDOUT", "EAI_AGAIN"];
+
+/**
+ * Modèle inconnu : KeyError sur le registre (Odoo ≤ 16) ou UserError "Object x doesn't exist" (Odoo 17+)
+ */
+function getMissingModel(name: string | undefined, message: string): string | null {
+  const objectMatch = message.match(/Object ([\w.]+) doesn't exist/);
+  if (objectMatch) return objectMatch[1];
+  if (name === "builtins.KeyError") {
+    const keyMatch = message.match(/^'?([a-z_]+(?:\.[a-z_]+)+)'?$/);
+    if (keyMatch) return keyMatch[1];
+  }
+  return null;
+}
+
+/**
+ * Construit l'erreur typée correspondant à une exception Odoo
+ */
+export function parseOdooException(name: string | undefined, message: string): OdooError {
+  const missingModel = getMissingModel(name, message);
+  if (missingModel) {
+    return new OdooModelNotFoundError(`Model ${missingModel} is not available on this database`, missingModel, name);
+  }
+  if (name && AUTH_EXCEPTIONS.includes(name)) return new OdooAuthError(message, name);
+  if (name && ACCESS_EXCEPTIONS.includes(name)) return new OdooAccessError(message, name);
+  if (name && VALIDATION_EXCEPTIONS.includes(name)) return new OdooValidationError(message, name);
+  return new OdooServerError(message, name);
+}
+
+/**
+ * Erreur correspondant à un statut HTTP en échec
+ */
+export function httpError(status: number): OdooError {
+  if (status === 401 || status === 403) {
+    return new OdooAuthError(`The server rejected the credentials (HTTP ${status})`);
+  }
+  if (status === 404) {
+    return new OdooNetworkError("The Odoo API was not found at this URL (HTTP 404)");
+  }
+  if (status >= 502 && status <= 504) {
+    return new OdooUnavailableError(`The Odoo server is unavailable (HTTP ${status})`);
+  }
+  return new OdooServerError(`HTTP error! status: ${status}`);
+}
+
+/**
+ * Normalise n'importe quelle erreur (fetch, transport, exception) en OdooError
+ */
+export function toOdooError(error: unknown): OdooError {
+  if (error instanceof OdooError) return error;
+  if (!(error instanceof Error)) return new OdooServerError(String(error));
+
+  // fetch (undici) expose le code système dans error.cause
+  const cause = (error as Error & { cause?: { code?: string } }).cause;
+  const code = cause?.code || (error as Error & { code?: string }).code;
+  const message = code ? `${error.message} (${code})` : error.message;
+  if ((code && TRANSIENT_CODES.includes(code)) || error.name === "TimeoutError") {
+    return new OdooUnavailableError(message);
+  }
+  if (error.name === "AbortError") {
+    return new OdooCancelledError();
+  }
+  if ((code && NETWORK_CODES.includes(code)) || error.message === "fetch failed") {
+    return new OdooNetworkError(message);
+  }
+  if (error instanceof SyntaxError) {
+    return new OdooNetworkError("The server did not answer with a valid Odoo response. Please check the URL.");
+  }
+  return new OdooServerError(error.message);
+}
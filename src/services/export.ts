@@ -0,0 +1,72 @@
+import { showInFinder } from "@raycast/api";
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { OdooFields } from "../types";
+import { EXPORT_FORMATS, ExportFormat } from "../utils/export";
+import { OdooService } from "./odoo";
+
+const TO_MANY_TYPES = ["many2many", "one2many"];
+
+// Caractères interdits dans un nom de fichier macOS ou Windows
+const toFileName = (name: string) => name.replace(/[/\\:*?"<>|]/g, "-").trim();
+
+/**
+ * Enregistre un fichier dans Téléchargements et le montre dans le Finder
+ */
+export async function saveToDownloads(fileName: string, content: string): Promise<string> {
+  const path = join(homedir(), "Downloads", toFileName(fileName));
+  await writeFile(path, content, "utf8");
+  await showInFinder(path);
+  return path;
+}
+
+/**
+ * Libellés des colonnes exportées, et many2many remplacés par les noms de leurs enregistrements
+ */
+export async function resolveExport(
+  odooService: OdooService,
+  model: string,
+  records: object[],
+  columns: string[],
+  fields?: OdooFields,
+): Promise<{ records: object[]; fields: OdooFields }> {
+  const metadata = fields || (await odooService.fieldsGet(model, columns));
+  const relational = columns.filter(
+    column => TO_MANY_TYPES.includes(metadata[column]?.type) && metadata[column].relation,
+  );
+  if (relational.length === 0) return { records, fields: metadata };
+
+  const getIds = (record: object, column: string): number[] => {
+    const value = (record as Record<string, unknown>)[column];
+    return Array.isArray(value) ? value.filter((id): id is number => typeof id === "number") : [];
+  };
+
+  // Une seule lecture par modèle lié pour toutes les lignes
+  const names = Object.fromEntries(
+    await Promise.all(
+      relational.map(async column => {
+        const ids = [...new Set(records.flatMap(record => getIds(record, column)))];
+        return [column, await odooService.getDisplayNames(metadata[column].relation!, ids)] as const;
+      }),
+    ),
+  );
+
+  return {
+    records: records.map(record => ({
+      ...record,
+      ...Object.fromEntries(
+        relational.map(column => [column, getIds(record, column).map(id => names[column][id] ?? String(id))]),
+      ),
+    })),
+    fields: metadata,
+  };
+}
+
+/**
+ * Enregistre un export sous un nom daté ("projects-2025-01-31.csv")
+ */
+export function saveExport(content: string, name: string, format: ExportFormat): Promise<string> {
+  const date = new Date().toISOString().slice(0, 10);
+  return saveToDownloads(`${name}-${date}.${EXPORT_FORMATS[format].extension}`, content);
+}
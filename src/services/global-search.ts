@@ -0,0 +1,112 @@
+import { getPreferenceValues } from "@raycast/api";
+import { fuzzyScore } from "../utils/fuzzy";
+import { OdooAccessError, OdooCancelledError, OdooModelNotFoundError } from "./errors";
+import { OdooService } from "./odoo";
+
+const RESULTS_PER_MODEL = 8;
+
+export interface SearchableModel {
+  model: string;
+  title: string;
+  preference: keyof SearchEverythingPreferences; // Case à cocher de la commande qui l'active
+}
+
+export interface GlobalSearchHit {
+  id: number;
+  name: string;
+  score: number;
+}
+
+export interface GlobalSearchGroup extends SearchableModel {
+  hits: GlobalSearchHit[];
+}
+
+interface SearchEverythingPreferences {
+  searchProjects?: boolean;
+  searchTasks?: boolean;
+  searchTeams?: boolean;
+  searchTickets?: boolean;
+  searchPartners?: boolean;
+  searchSaleOrders?: boolean;
+}
+
+export const SEARCHABLE_MODELS: SearchableModel[] = [
+  { model: "project.project", title: "Projects", preference: "searchProjects" },
+  { model: "project.task", title: "Tasks", preference: "searchTasks" },
+  { model: "helpdesk.team", title: "Helpdesk Teams", preference: "searchTeams" },
+  { model: "helpdesk.ticket", title: "Tickets", preference: "searchTickets" },
+  { model: "res.partner", title: "Contacts", preference: "searchPartners" },
+  { model: "sale.order", title: "Sale Orders", preference: "searchSaleOrders" },
+];
+
+/**
+ * Modèles cochés dans les préférences de la commande, tous si aucune n'est définie
+ */
+export function getSearchModels(): SearchableModel[] {
+  const preferences = getPreferenceValues<SearchEverythingPreferences>();
+  return SEARCHABLE_MODELS.filter(model => preferences[model.preference] !== false);
+}
+
+/**
+ * name_search sur un modèle, null s'il n'est pas installé ou pas accessible à l'utilisateur
+ */
+async function searchModel(
+  odooService: OdooService,
+  model: SearchableModel,
+  query: string,
+  signal?: AbortSignal,
+): Promise<GlobalSearchGroup | null> {
+  try {
+    // Sans domaine : le paramètre s'appelle args jusqu'à Odoo 17, domain ensuite, et JSON-2 n'accepte que domain
+    const results = await odooService.execute<[number, string][]>(
+      model.model,
+      "name_search",
+      [],
+      { name: query, operator: "ilike", limit: RESULTS_PER_MODEL },
+      { signal },
+    );
+
+    // name_search peut trouver par référence ou e-mail : ces résultats gardent l'ordre du serveur, après les autres
+    const hits = (results || [])
+      .map(([id, name], index) => ({ id, name, score: fuzzyScore(query, [{ value: name, weight: 1 }]), index }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ id, name, score }) => ({ id, name, score }));
+    return { ...model, hits };
+  } catch (error) {
+    if (error instanceof OdooModelNotFoundError || error instanceof OdooAccessError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Recherche par nom dans tous les modèles en parallèle, sections triées par leur meilleur résultat
+ * @throws la première erreur si aucun modèle n'a pu répondre
+ */
+export async function searchEverything(
+  odooService: OdooService,
+  query: string,
+  models: SearchableModel[],
+  signal?: AbortSignal,
+): Promise<GlobalSearchGroup[]> {
+  const settled = await Promise.allSettled(models.map(model => searchModel(odooService, model, query, signal)));
+
+  const groups: GlobalSearchGroup[] = [];
+  const errors: unknown[] = [];
+  for (const result of settled) {
+    if (result.status === "fulfilled") {
+      if (result.value && result.value.hits.length > 0) groups.push(result.value);
+    } else {
+      if (result.reason instanceof OdooCancelledError) throw result.reason;
+      console.error("Error during global search:", result.reason);
+      errors.push(result.reason);
+    }
+  }
+
+  // Un modèle en erreur n'empêche pas d'afficher les autres
+  if (errors.length > 0 && errors.length === settled.length) {
+    throw errors[0];
+  }
+
+  const bestScore = (group: GlobalSearchGroup) => group.hits[0]?.score ?? 0;
+  return groups.sort((a, b) => bestScore(b) - bestScore(a));
+}
@@ -0,0 +1,81 @@
+import { HelpdeskTicket, MailMessage, Task } from "../types";
+import { toOdooDate } from "../utils/validation";
+import { CachedResult, PersistentCache } from "./cache";
+import { OdooModelNotFoundError } from "./errors";
+import { OdooService } from "./odoo";
+
+const TOP_ITEMS = 5;
+const CACHE_KEY = "my-work";
+
+export interface WorkGroup<T> {
+  count: number;
+  items: T[];
+}
+
+export interface MyWork {
+  tasks: WorkGroup<Task> | null; // null si le module n'est pas installé
+  tickets: WorkGroup<HelpdeskTicket> | null;
+  breachingTickets: WorkGroup<HelpdeskTicket> | null;
+  notifications: WorkGroup<MailMessage>;
+}
+
+const TASK_FIELDS = ["id", "name", "display_name", "project_id", "date_deadline", "priority"];
+const TICKET_FIELDS = ["id", "name", "display_name", "ticket_ref", "team_id", "partner_id", "sla_deadline", "user_id"];
+const MESSAGE_FIELDS = ["id", "subject", "body", "record_name", "model", "res_id", "author_id", "date"];
+
+/**
+ * Compte et premiers éléments d'un domaine, null si le modèle n'existe pas sur la base
+ */
+async function fetchGroup<T>(
+  odooService: OdooService,
+  model: string,
+  domain: unknown[],
+  fields: string[],
+): Promise<WorkGroup<T> | null> {
+  try {
+    const [items, count] = await Promise.all([
+      odooService.searchRead<T>(model, domain, { fields, limit: TOP_ITEMS }),
+      odooService.searchCount(model, domain),
+    ]);
+    return { count, items };
+  } catch (error) {
+    if (error instanceof OdooModelNotFoundError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Résumé de mon travail en cours, mis en cache pour la barre de menus
+ */
+export async function fetchMyWork(odooService: OdooService): Promise<MyWork> {
+  const uid = await odooService.authenticate();
+  const openStage = ["stage_id.fold", "=", false];
+
+  const [tasks, tickets, breachingTickets, notifications] = await Promise.all([
+    fetchGroup<Task>(odooService, "project.task", [["user_ids", "in", [uid]], openStage], TASK_FIELDS),
+    fetchGroup<HelpdeskTicket>(odooService, "helpdesk.ticket", [["user_id", "=", uid], openStage], TICKET_FIELDS),
+    fetchGroup<HelpdeskTicket>(
+      odooService,
+      "helpdesk.ticket",
+      [["user_id", "=", uid], ["sla_deadline", "<", toOdooDate(new Date(), "datetime")], openStage],
+      TICKET_FIELDS,
+    ),
+    fetchGroup<MailMessage>(odooService, "mail.message", [["needaction", "=", true]], MESSAGE_FIELDS),
+  ]);
+
+  const work: MyWork = {
+    tasks,
+    tickets,
+    breachingTickets,
+    notifications: notifications || { count: 0, items: [] },
+  };
+  new PersistentCache(odooService.connection).set(CACHE_KEY, "mail.message", work);
+  return work;
+}
+
+/**
+ * Dernier résumé connu, sans requête réseau
+ */
+export function peekMyWork(odooService: OdooService): CachedResult<MyWork> | null {
+  return new PersistentCache(odooService.connection).get<MyWork>(CACHE_KEY);
+}
@@ -1,247 +1,379 @@
-import { showToast, Toast } from "@raycast/api";
-import { showFailureToast } from "@raycast/utils";
-import { Preferences, OdooResponse, OdooSearchOptions } from "../types";
-
-// Cache simple pour stocker les derniers résultats
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  key: string;
-}
+import { OdooConnection, OdooFields, OdooPage, OdooSearchOptions, OdooVersionInfo, UserCompanies } from "../types";
+import { CachedResult, PersistentCache } from "./cache";
+import { getAllowedCompanyIds, getCompanySelection, saveCompanySelection } from "./companies";
+import { OdooAuthError, OdooCancelledError, OdooNetworkError, OdooUnavailableError, toOdooError } from "./errors";
+import { OdooCall, RequestOptions, RequestPipeline, getPipelineSettings } from "./pipeline";
+import { OdooTransport, TransportOptions, createTransport } from "./transports";
 
-class SimpleCache {
-  private cache = new Map<string, CacheEntry<unknown>>();
-  private readonly TTL = 5 * 60 * 1000; // 5 minutes
+export const PAGE_SIZE = 100;
 
-  set<T>(key: string, data: T): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      key,
-    });
+export class OdooService {
+  private preferences: OdooConnection;
+  private uid: number | null = null;
+  private cache: PersistentCache;
+  private transport: Promise<OdooTransport> | null = null;
+  private pipeline: RequestPipeline;
+  private selectedCompanies: number[] | null;
+  private companyContext: Promise<number[] | null> | null = null;
+
+  constructor(preferences: OdooConnection) {
+    this.preferences = preferences;
+    this.cache = new PersistentCache(preferences);
+    this.pipeline = new RequestPipeline((call, options) => this.send(call, options));
+    this.selectedCompanies = getCompanySelection(preferences);
   }
 
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
+  /**
+   * Connexion utilisée par ce service (profil actif)
+   */
+  get connection(): OdooConnection {
+    return this.preferences;
+  }
 
-    if (Date.now() - entry.timestamp > this.TTL) {
-      this.cache.delete(key);
-      return null;
+  /**
+   * Transport de la connexion, créé (et détecté si besoin) au premier appel.
+   * La détection a son propre délai : elle précède les tentatives du pipeline et n'est pas couverte par le leur.
+   */
+  private getTransport(): Promise<OdooTransport> {
+    if (!this.transport) {
+      const { timeout } = getPipelineSettings();
+      const signal = AbortSignal.timeout(timeout);
+      this.transport = createTransport(this.preferences, { signal }).catch(error => {
+        // Une détection échouée ou expirée est retentée au prochain appel
+        this.transport = null;
+        if (signal.aborted) {
+          throw new OdooUnavailableError(`Odoo did not answer within ${Math.round(timeout / 1000)} seconds`);
+        }
+        throw error;
+      });
     }
-
-    return entry.data as T;
+    return this.transport;
   }
 
-  clear(): void {
-    this.cache.clear();
+  /**
+   * Protocole effectivement utilisé (jsonrpc, xmlrpc ou json2)
+   */
+  async getProtocol(): Promise<string> {
+    return (await this.getTransport()).protocol;
   }
-}
 
-export class OdooService {
-  private preferences: Preferences;
-  private uid: number | null = null;
-  private cache = new SimpleCache();
-
-  constructor(preferences: Preferences) {
-    this.preferences = preferences;
+  /**
+   * Récupère la version du serveur Odoo
+   */
+  async version(): Promise<OdooVersionInfo> {
+    return this.pipeline.request("version", async options => (await this.getTransport()).version(options));
   }
 
-  private get apiUrl(): string {
-    return `${this.preferences.odooUrl.replace(/\/$/, "")}/jsonrpc`;
+  /**
+   * Bases de données de l'instance, refusé si list_db est désactivé
+   */
+  async listDatabases(): Promise<string[]> {
+    return this.pipeline.request("databases", async options => (await this.getTransport()).listDatabases(options));
   }
 
   /**
-   * Authentifie l'utilisateur et récupère l'UID
+   * Authentifie l'utilisateur et retourne son UID
+   * @throws {OdooAuthError} si les identifiants sont refusés
+   * @throws {OdooTwoFactorError} si une connexion par mot de passe attend un code (voir verifyCode)
    */
-  async authenticate(): Promise<number | null> {
+  async authenticate(options: RequestOptions = {}): Promise<number> {
     if (this.uid) {
       return this.uid;
     }
 
     try {
-      const authBody = {
-        jsonrpc: "2.0",
-        method: "call",
-        params: {
-          service: "common",
-          method: "login",
-          args: [this.preferences.database, this.preferences.userLogin, this.preferences.apiKey],
-        },
-        id: Math.floor(Math.random() * 1000000),
-      };
-
-      const response = await fetch(this.apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(authBody),
-      });
+      // Les appels lancés avant la fin de l'authentification partagent la même requête
+      const uid = await this.pipeline.request(
+        "authenticate",
+        async transportOptions => (await this.getTransport()).authenticate(transportOptions),
+        options,
+      );
+      if (!uid) {
+        throw new OdooAuthError("Invalid credentials. Please check your login and API key.");
+      }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      this.uid = uid;
+      this.cache.set("auth-uid", "res.users", uid);
+      return uid;
+    } catch (error) {
+      if (!(error instanceof OdooCancelledError)) {
+        console.error("Authentication error:", error);
       }
+      throw toOdooError(error);
+    }
+  }
 
-      const data = (await response.json()) as OdooResponse<number>;
+  /**
+   * Termine une connexion par mot de passe avec le code de l'application d'authentification
+   * @throws {OdooAuthError} si le code est refusé ou si la tentative de connexion a expiré
+   */
+  async verifyCode(code: string): Promise<number> {
+    const transport = await this.getTransport();
+    if (!transport.verifyCode) {
+      throw new OdooAuthError("Authentication codes are only used when signing in with a password");
+    }
 
-      if (data.error) {
-        throw new Error(data.error.data?.message || data.error.message);
+    try {
+      const uid = await transport.verifyCode(code.replace(/\s/g, ""));
+      if (!uid) {
+        throw new OdooAuthError("Invalid authentication code");
       }
+      this.uid = uid;
+      this.cache.set("auth-uid", "res.users", uid);
+      return uid;
+    } catch (error) {
+      throw toOdooError(error);
+    }
+  }
 
-      this.uid = data.result || null;
-      return this.uid;
+  /**
+   * Envoie un appel au transport, une fois l'utilisateur authentifié
+   */
+  private async send(call: OdooCall, options: TransportOptions): Promise<unknown> {
+    const uid = await this.authenticate(options);
+    try {
+      return await (await this.getTransport()).executeKw(uid, call.model, call.method, call.args, call.kwargs, options);
     } catch (error) {
-      console.error("Authentication error:", error);
-      let errorMessage = "Failed to authenticate with Odoo";
-      let title = "Authentication Error";
-
-      if (error instanceof Error) {
-        if (error.message.includes("ENOTFOUND") || error.message.includes("ECONNREFUSED")) {
-          title = "Connection Error";
-          errorMessage = "Cannot connect to Odoo server. Please check your URL and internet connection.";
-        } else if (error.message.includes("401") || error.message.includes("403")) {
-          errorMessage = "Invalid credentials. Please check your username and API key.";
-        } else if (error.message.includes("database")) {
-          errorMessage = "Database not found. Please check your database name.";
-        } else {
-          errorMessage = error.message;
-        }
-      }
+      if (!(toOdooError(error) instanceof OdooAuthError)) throw error;
 
-      showFailureToast({
-        title,
-        message: errorMessage,
-      });
-      return null;
+      // Session expirée ou clé révoquée : nouvelle authentification, puis l'appel est rejoué une fois
+      this.invalidateAuth();
+      const renewedUid = await this.authenticate(options);
+      const transport = await this.getTransport();
+      return transport.executeKw(renewedUid, call.model, call.method, call.args, call.kwargs, options);
     }
   }
 
   /**
-   * Exécute une méthode Odoo générique
+   * Exécute une méthode Odoo générique, via la file de requêtes (délai, annulation, nouvelles tentatives)
+   * @throws {OdooError} erreur typée selon l'exception renvoyée par Odoo
+   * @throws {OdooCancelledError} si le signal de l'appelant est déclenché
    */
   async execute<T = unknown>(
     model: string,
     method: string,
     args: unknown[] = [],
     kwargs: Record<string, unknown> | OdooSearchOptions = {},
+    request: RequestOptions = {},
   ): Promise<T | null> {
-    try {
-      const uid = await this.authenticate();
-      if (!uid) {
-        return null;
-      }
+    // Les sociétés autorisées accompagnent chaque appel, sauf si l'appelant fournit les siennes
+    const companyIds = await this.getCompanyContext();
+    if (companyIds) {
+      const { context, ...rest } = kwargs as Record<string, unknown> & { context?: Record<string, unknown> };
+      kwargs = { ...rest, context: { allowed_company_ids: companyIds, ...context } };
+    }
+    return this.call<T>(model, method, args, kwargs, request);
+  }
 
-      const requestBody = {
-        jsonrpc: "2.0",
-        method: "call",
-        params: {
-          service: "object",
-          method: "execute_kw",
-          args: [this.preferences.database, uid, this.preferences.apiKey, model, method, args, kwargs],
-        },
-        id: Math.floor(Math.random() * 1000000),
-      };
-
-      const response = await fetch(this.apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
-      });
+  /**
+   * Appel sans contexte de sociétés, pour lire les sociétés elles-mêmes
+   */
+  private async call<T>(
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown> | OdooSearchOptions,
+    request: RequestOptions,
+  ): Promise<T | null> {
+    try {
+      const call = { model, method, args, kwargs: kwargs as Record<string, unknown> };
+      const result = await this.pipeline.execute<T>(call, request);
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      return result || null;
+    } catch (error) {
+      if (!(error instanceof OdooCancelledError)) {
+        console.error(`Error executing ${model}.${method}:`, error);
       }
+      throw toOdooError(error);
+    }
+  }
 
-      const data = (await response.json()) as OdooResponse<T>;
+  /**
+   * Sociétés de l'utilisateur (company_id et company_ids de res.users), mises en cache
+   */
+  async getCompanies(request: RequestOptions = {}): Promise<UserCompanies> {
+    const cached = this.cache.get<UserCompanies>("user-companies");
+    if (cached && !cached.isStale) return cached.data;
+
+    const uid = await this.authenticate(request);
+    const [user] =
+      (await this.call<{ company_id: [number, string] | false; company_ids: number[] }[]>(
+        "res.users",
+        "read",
+        [[uid]],
+        { fields: ["company_id", "company_ids"] },
+        request,
+      )) || [];
+    const companyIds = user?.company_ids || [];
+    const records =
+      companyIds.length > 0
+        ? (await this.call<{ id: number; display_name: string }[]>(
+            "res.company",
+            "read",
+            [companyIds],
+            { fields: ["display_name"] },
+            request,
+          )) || []
+        : [];
+
+    const companies: UserCompanies = {
+      current: user?.company_id ? user.company_id[0] : null,
+      allowed: records.map(record => ({ id: record.id, name: record.display_name })),
+    };
+    this.cache.set("user-companies", "res.users", companies);
+    return companies;
+  }
 
-      if (data.error) {
-        throw new Error(data.error.data?.message || data.error.message);
-      }
+  /**
+   * Dernières sociétés connues, sans requête réseau
+   */
+  peekCompanies(): UserCompanies | null {
+    return this.cache.get<UserCompanies>("user-companies")?.data || null;
+  }
 
-      return data.result || null;
-    } catch (error) {
-      console.error(`Error executing ${model}.${method}:`, error);
-
-      // Provide more context in error messages
-      if (error instanceof Error) {
-        if (error.message.includes("ENOTFOUND")) {
-          throw new Error(
-            `Cannot reach Odoo server at ${this.preferences.odooUrl}. Please check the URL and your internet connection.`,
-          );
-        } else if (error.message.includes("ECONNREFUSED")) {
-          throw new Error(`Connection refused by Odoo server. Please verify the URL and server status.`);
-        } else if (error.message.includes("timeout")) {
-          throw new Error(`Request timed out. The Odoo server may be slow or overloaded.`);
-        }
-      }
+  /**
+   * Sociétés choisies par l'utilisateur, null pour toutes ses sociétés
+   */
+  get companySelection(): number[] | null {
+    return this.selectedCompanies;
+  }
 
-      throw error;
+  /**
+   * Restreint les requêtes suivantes à des sociétés, ou null pour toutes les sociétés autorisées
+   */
+  selectCompanies(ids: number[] | null): void {
+    saveCompanySelection(this.preferences, ids);
+    this.selectedCompanies = ids && ids.length > 0 ? ids : null;
+    this.companyContext = null;
+    this.pipeline.clear();
+  }
+
+  /**
+   * allowed_company_ids à envoyer, calculé une fois par service ; sans contexte si les sociétés sont illisibles
+   */
+  private getCompanyContext(): Promise<number[] | null> {
+    if (!this.companyContext) {
+      this.companyContext = this.getCompanies()
+        .then(companies => getAllowedCompanyIds(companies, this.selectedCompanies))
+        .catch(error => {
+          console.error("Cannot load allowed companies:", error);
+          this.companyContext = null;
+          return null;
+        });
     }
+    return this.companyContext;
+  }
+
+  /**
+   * Suffixe des clés de cache : les résultats dépendent des sociétés choisies
+   */
+  private get companyKey(): string {
+    return this.selectedCompanies ? `@${this.selectedCompanies.join(",")}` : "";
+  }
+
+  private getSearchCacheKey(model: string, domain: unknown[], options: OdooSearchOptions): string {
+    return `${model}-${JSON.stringify(domain)}-${JSON.stringify(options)}${this.companyKey}`;
+  }
+
+  private getCountCacheKey(model: string, domain: unknown[]): string {
+    return `${model}-count-${JSON.stringify(domain)}${this.companyKey}`;
+  }
+
+  private getAllOptions(options: Omit<OdooSearchOptions, "domain"> & { limit?: number }): OdooSearchOptions {
+    return { ...options, limit: options.limit || PAGE_SIZE };
   }
 
   /**
    * Recherche des enregistrements avec un domaine de recherche
    */
-  async searchRead<T = unknown>(model: string, domain: unknown[] = [], options: OdooSearchOptions): Promise<T[]> {
-    const cacheKey = `${model}-${JSON.stringify(domain)}-${JSON.stringify(options)}`;
+  async searchRead<T = unknown>(
+    model: string,
+    domain: unknown[] = [],
+    options: OdooSearchOptions,
+    request: RequestOptions = {},
+  ): Promise<T[]> {
+    const cacheKey = this.getSearchCacheKey(model, domain, options);
 
     try {
-      const result = await this.execute<T[]>(model, "search_read", [domain], options);
+      const result = await this.execute<T[]>(model, "search_read", [domain], options, request);
       const data = result || [];
 
-      // Cache successful results
-      if (data.length > 0) {
-        this.cache.set(cacheKey, data);
-      }
+      // Cache successful results, même vides, pour l'affichage instantané au prochain lancement
+      this.cache.set(cacheKey, model, data);
 
       return data;
     } catch (error) {
+      if (error instanceof OdooCancelledError) throw error;
       console.error(`Error searching ${model}:`, error);
 
-      // Try to return cached data if available
+      // Hors ligne, les derniers résultats connus restent servis
       const cachedData = this.cache.get<T[]>(cacheKey);
-      if (cachedData) {
-        showToast({
-          style: Toast.Style.Success,
-          title: "Showing cached data",
-          message: "Using previous results due to connection issue",
-        });
-        return cachedData;
+      if (error instanceof OdooNetworkError && cachedData) {
+        return cachedData.data;
       }
+      throw error;
+    }
+  }
 
-      // Show appropriate error message
-      let errorMessage = `Failed to search ${model}`;
-      if (error instanceof Error) {
-        if (error.message.includes("ENOTFOUND") || error.message.includes("ECONNREFUSED")) {
-          errorMessage = "Cannot connect to Odoo server. Please check your connection.";
-        } else if (error.message.includes("access")) {
-          errorMessage = "Access denied. You may not have permission to view this data.";
-        } else {
-          errorMessage = error.message;
-        }
-      }
+  /**
+   * Compte les enregistrements correspondant à un domaine
+   */
+  async searchCount(model: string, domain: unknown[] = [], request: RequestOptions = {}): Promise<number> {
+    const cacheKey = this.getCountCacheKey(model, domain);
 
-      showFailureToast({
-        title: "Search Error",
-        message: errorMessage,
-      });
-      return [];
+    try {
+      const count = (await this.execute<number>(model, "search_count", [domain], {}, request)) || 0;
+      this.cache.set(cacheKey, model, count);
+      return count;
+    } catch (error) {
+      // Hors ligne, le dernier total connu reste servi, y compris 0
+      const cachedCount = this.cache.get<number>(cacheKey)?.data ?? null;
+      if (error instanceof OdooNetworkError && cachedCount !== null) {
+        return cachedCount;
+      }
+      throw error;
     }
   }
 
   /**
-   * Recherche des enregistrements par nom
+   * Dernier total connu d'un domaine, sans requête réseau
    */
-  async searchByName<T = unknown>(
+  peekSearchCount(model: string, domain: unknown[] = []): number | null {
+    return this.cache.get<number>(this.getCountCacheKey(model, domain))?.data ?? null;
+  }
+
+  /**
+   * Charge une page de résultats (offset, limit, order) et le total du domaine
+   */
+  async searchPage<T = unknown>(
     model: string,
-    query: string,
-    options: Omit<OdooSearchOptions, "domain">,
-  ): Promise<T[]> {
-    const domain = ["|", ["name", "ilike", query], ["display_name", "ilike", query]];
-    return this.searchRead<T>(model, domain, { ...options, domain });
+    domain: unknown[],
+    options: OdooSearchOptions,
+    request: RequestOptions = {},
+  ): Promise<OdooPage<T>> {
+    // Sans offset, la première page partage sa clé de cache avec un searchRead équivalent
+    const { offset, ...pageOptions } = this.getAllOptions(options);
+    const [records, total] = await Promise.all([
+      this.searchRead<T>(model, domain, offset ? { ...pageOptions, offset } : pageOptions, request),
+      this.searchCount(model, domain, request),
+    ]);
+
+    const loaded = (offset || 0) + records.length;
+    return { records, total: Math.max(total, loaded), hasMore: loaded < total };
+  }
+
+  /**
+   * Dernier UID connu, pour construire les domaines avant la fin de l'authentification
+   */
+  peekUid(): number | null {
+    return this.uid ?? this.cache.get<number>("auth-uid")?.data ?? null;
+  }
+
+  /**
+   * Lit les derniers résultats connus d'une recherche, sans requête réseau
+   */
+  peekSearchRead<T = unknown>(model: string, domain: unknown[], options: OdooSearchOptions): CachedResult<T[]> | null {
+    return this.cache.get<T[]>(this.getSearchCacheKey(model, domain, options));
   }
 
   /**
@@ -251,30 +383,101 @@ export class OdooService {
     model: string,
     options: Omit<OdooSearchOptions, "domain"> & { limit?: number } = { fields: [] },
   ): Promise<T[]> {
-    const searchOptions: OdooSearchOptions = {
-      ...options,
-      limit: options.limit || 100,
-    };
-    return this.searchRead<T>(model, [], searchOptions);
+    return this.searchRead<T>(model, [], this.getAllOptions(options));
   }
 
   /**
-   * Teste la connectivité avec l'instance Odoo
+   * Crée un enregistrement et retourne son ID
    */
-  async testConnection(): Promise<boolean> {
-    try {
-      const uid = await this.authenticate();
-      return uid !== null;
-    } catch {
-      return false;
+  async create(model: string, values: Record<string, unknown>): Promise<number> {
+    const id = await this.execute<number>(model, "create", [values]);
+    if (!id) {
+      throw new Error(`Failed to create ${model} record`);
+    }
+    return id;
+  }
+
+  /**
+   * Met à jour un ou plusieurs enregistrements
+   */
+  async write(model: string, ids: number[], values: Record<string, unknown>): Promise<boolean> {
+    const result = await this.execute<boolean>(model, "write", [ids, values]);
+    return result === true;
+  }
+
+  /**
+   * Publie une note interne dans le chatter d'un enregistrement
+   */
+  async postNote(model: string, id: number, body: string): Promise<number | null> {
+    return this.execute<number>(model, "message_post", [[id]], {
+      body,
+      message_type: "comment",
+      subtype_xmlid: "mail.mt_note",
+    });
+  }
+
+  /**
+   * Récupère les métadonnées des champs d'un modèle
+   */
+  async fieldsGet(model: string, fields: string[] = []): Promise<OdooFields> {
+    const cacheKey = `fields-${model}-${fields.join(",")}`;
+    const cached = this.cache.get<OdooFields>(cacheKey);
+    if (cached && !cached.isStale) return cached.data;
+
+    const result = await this.execute<OdooFields>(model, "fields_get", [fields], {
+      attributes: ["type", "string", "required", "readonly", "size", "selection", "relation"],
+    });
+    const metadata = result || {};
+    this.cache.set(cacheKey, model, metadata);
+    return metadata;
+  }
+
+  /**
+   * Récupère les noms d'affichage d'une liste d'IDs (many2many, etc.)
+   */
+  async getDisplayNames(model: string, ids: number[], request: RequestOptions = {}): Promise<Record<number, string>> {
+    if (ids.length === 0) return {};
+
+    const records = await this.execute<{ id: number; display_name: string }[]>(
+      model,
+      "read",
+      [ids],
+      { fields: ["display_name"] },
+      request,
+    );
+
+    const names: Record<number, string> = {};
+    for (const record of records || []) {
+      names[record.id] = record.display_name;
     }
+
+    // Conserve les noms connus pour l'affichage instantané au prochain lancement
+    this.cache.set(`names-${model}`, model, { ...this.peekDisplayNames(model), ...names });
+    return names;
+  }
+
+  /**
+   * Noms d'affichage déjà connus pour un modèle, sans requête réseau
+   */
+  peekDisplayNames(model: string): Record<number, string> {
+    return this.cache.get<Record<number, string>>(`names-${model}`)?.data || {};
   }
 
   /**
-   * Invalide les caches
+   * Oublie l'UID et le transport : la prochaine requête s'authentifie à nouveau
    */
   invalidateAuth(): void {
     this.uid = null;
+    this.transport = null;
+    this.companyContext = null;
+    this.pipeline.clear();
+  }
+
+  /**
+   * Vide le cache persistant de la connexion
+   */
+  clearCache(): void {
+    this.pipeline.clear();
     this.cache.clear();
   }
 }
@@ -0,0 +1,70 @@
+import { OdooPartner } from "../types";
+import { toVCard } from "../utils/vcard";
+import { OdooValidationError } from "./errors";
+import { saveToDownloads } from "./export";
+import { OdooService } from "./odoo";
+import { RequestOptions } from "./pipeline";
+
+export const PARTNER_FIELDS = [
+  "id",
+  "name",
+  "display_name",
+  "email",
+  "phone",
+  "is_company",
+  "parent_id",
+  "child_ids",
+  "function",
+  "street",
+  "street2",
+  "zip",
+  "city",
+  "state_id",
+  "country_id",
+  "website",
+  "category_id",
+  "user_id",
+];
+
+// Champs qui n'existent pas sur toutes les versions d'Odoo
+const OPTIONAL_FIELDS = ["mobile"];
+
+/**
+ * Champs lus pour un contact, selon ceux présents sur la base
+ */
+export async function getPartnerFields(odooService: OdooService): Promise<string[]> {
+  const available = await odooService.fieldsGet("res.partner", OPTIONAL_FIELDS);
+  return [...PARTNER_FIELDS, ...OPTIONAL_FIELDS.filter(field => field in available)];
+}
+
+/**
+ * Fiche complète d'un contact, notes internes comprises
+ * @throws {OdooValidationError} s'il n'existe plus ou n'est pas accessible
+ */
+export async function getPartner(odooService: OdooService, id: number): Promise<OdooPartner> {
+  const fields = [...(await getPartnerFields(odooService)), "comment"];
+  const [partner] = await odooService.searchRead<OdooPartner>("res.partner", [["id", "=", id]], { fields, limit: 1 });
+  if (!partner) {
+    throw new OdooValidationError(`Contact #${id} does not exist or is not visible to you`);
+  }
+  return partner;
+}
+
+/**
+ * Noms des étiquettes des contacts, lus en une fois
+ */
+export function getTagNames(
+  odooService: OdooService,
+  partners: OdooPartner[],
+  request: RequestOptions = {},
+): Promise<Record<number, string>> {
+  const ids = [...new Set(partners.flatMap(partner => partner.category_id || []))];
+  return odooService.getDisplayNames("res.partner.category", ids, request);
+}
+
+/**
+ * Enregistre la vCard du contact dans Téléchargements et la montre dans le Finder
+ */
+export function exportVCard(partner: OdooPartner, tags: string[]): Promise<string> {
+  return saveToDownloads(`${partner.name.trim() || `contact-${partner.id}`}.vcf`, toVCard(partner, tags));
+}
@@ -0,0 +1,322 @@
+import { getPreferenceValues } from "@raycast/api";
+import { Preferences } from "../types";
+import { OdooCancelledError, OdooNetworkError, OdooUnavailableError, toOdooError } from "./errors";
+import { TransportOptions } from "./transports";
+
+/**
+ * Appel de méthode de modèle, tel que transmis à execute_kw
+ */
+export interface OdooCall {
+  model: string;
+  method: string;
+  args: unknown[];
+  kwargs: Record<string, unknown>;
+}
+
+/**
+ * Options d'une requête : annulation par l'appelant et délai propre à l'appel
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeout?: number; // En millisecondes, remplace le délai des préférences
+}
+
+export interface PipelineSettings {
+  timeout: number; // Délai d'une tentative, en millisecondes
+  retries: number; // Nouvelles tentatives d'une lecture après une panne passagère
+  batching: boolean; // Fusionne les read simultanés d'un même modèle
+}
+
+type Task<T> = (options: TransportOptions) => Promise<T>;
+type Sender = (call: OdooCall, options: TransportOptions) => Promise<unknown>;
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+interface PendingRead {
+  ids: number[];
+  signal?: AbortSignal;
+  resolve: (records: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+// Méthodes sans effet de bord : partagées entre appels identiques et rejouées après une panne passagère
+const READ_METHODS = [
+  "search_read",
+  "search",
+  "read",
+  "search_count",
+  "fields_get",
+  "name_search",
+  "read_group",
+  "check_access_rights",
+  "has_access",
+  "context_get",
+];
+
+const DEFAULT_TIMEOUT = 30 * 1000;
+const MAX_RETRIES = 2;
+const RETRY_DELAY = 500; // Doublé à chaque nouvelle tentative
+const MAX_CONCURRENT_REQUESTS = 6;
+// Une lecture terminée reste servie aux appels identiques qui suivent de près (effets relancés, frappe effacée)
+const SETTLED_TTL = 2 * 1000;
+
+/**
+ * Réglages réseau des préférences de l'extension
+ */
+export function getPipelineSettings(): PipelineSettings {
+  const { requestTimeout, batchRequests } = getPreferenceValues<Partial<Preferences>>();
+  const seconds = Number(requestTimeout);
+  return {
+    timeout: seconds > 0 ? seconds * 1000 : DEFAULT_TIMEOUT,
+    retries: MAX_RETRIES,
+    batching: !!batchRequests,
+  };
+}
+
+const isRead = (call: OdooCall) => READ_METHODS.includes(call.method);
+
+const getCallKey = (call: OdooCall) => JSON.stringify([call.model, call.method, call.args, call.kwargs]);
+
+/**
+ * Rejette dès que le signal est déclenché, sans attendre la fin de la promesse
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new OdooCancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new OdooCancelledError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+function wait(delay: number, signal: AbortSignal): Promise<void> {
+  return abortable(new Promise<void>(resolve => setTimeout(resolve, delay)), signal);
+}
+
+/**
+ * Signal déclenché seulement quand tous les appelants ont abandonné
+ */
+function whenAllAborted(signals: (AbortSignal | undefined)[]): AbortSignal | undefined {
+  if (signals.some(signal => !signal)) return undefined;
+
+  const controller = new AbortController();
+  const check = () => {
+    if (signals.every(signal => signal?.aborted)) controller.abort();
+  };
+  signals.forEach(signal => signal?.addEventListener("abort", check, { once: true }));
+  check();
+  return controller.signal;
+}
+
+/**
+ * File des requêtes d'une connexion : délais, annulation, partage des lectures identiques en cours,
+ * nouvelles tentatives sur les pannes passagères et regroupement facultatif des read
+ */
+export class RequestPipeline {
+  private inFlight = new Map<string, SharedRequest>();
+  private settled = new Map<string, { data: unknown; expiresAt: number }>();
+  private pendingReads = new Map<string, PendingRead[]>();
+  private waiting: (() => void)[] = [];
+  private active = 0;
+
+  constructor(
+    private send: Sender,
+    private settings: PipelineSettings = getPipelineSettings(),
+  ) {}
+
+  /**
+   * Appel idempotent hors execute_kw (version, authentification), partagé entre appelants simultanés
+   */
+  request<T>(key: string, task: Task<T>, options: RequestOptions = {}): Promise<T> {
+    return this.share(key, signal => this.retry(task, signal, options.timeout), options.signal);
+  }
+
+  /**
+   * Exécute un appel de modèle : les lectures sont partagées et rejouées, les écritures envoyées une seule fois
+   */
+  execute<T>(call: OdooCall, options: RequestOptions = {}): Promise<T> {
+    const task: Task<unknown> = transportOptions => this.schedule(call, transportOptions);
+
+    if (!isRead(call)) {
+      // Une écriture rend obsolètes les lectures qui viennent de se terminer
+      this.settled.clear();
+      return this.attempt(task, options.signal, options.timeout) as Promise<T>;
+    }
+
+    const key = getCallKey(call);
+    const settled = this.settled.get(key);
+    if (settled && settled.expiresAt > Date.now()) {
+      return Promise.resolve(settled.data as T);
+    }
+
+    return this.share(
+      key,
+      async signal => {
+        const data = await this.retry(task, signal, options.timeout);
+        this.remember(key, data);
+        return data;
+      },
+      options.signal,
+    ) as Promise<T>;
+  }
+
+  /**
+   * Oublie les lectures récentes, après un changement de session
+   */
+  clear(): void {
+    this.settled.clear();
+  }
+
+  private remember(key: string, data: unknown) {
+    const now = Date.now();
+    for (const [settledKey, entry] of this.settled) {
+      if (entry.expiresAt <= now) this.settled.delete(settledKey);
+    }
+    this.settled.set(key, { data, expiresAt: now + SETTLED_TTL });
+  }
+
+  /**
+   * Rattache l'appelant à la requête identique en cours, ou la lance ; elle n'est interrompue
+   * que lorsque tous ses appelants ont abandonné
+   */
+  private share<T>(key: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(new OdooCancelledError());
+
+    let shared = this.inFlight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      shared = {
+        promise: run(controller.signal).finally(() => this.inFlight.delete(key)),
+        controller,
+        subscribers: 0,
+      };
+      this.inFlight.set(key, shared);
+    }
+
+    const request = shared;
+    request.subscribers++;
+    const release = () => {
+      request.subscribers--;
+      if (request.subscribers === 0) request.controller.abort();
+    };
+    signal?.addEventListener("abort", release, { once: true });
+
+    return abortable(request.promise as Promise<T>, signal).finally(() =>
+      signal?.removeEventListener("abort", release),
+    );
+  }
+
+  /**
+   * Rejoue une lecture après une panne passagère, avec une attente exponentielle
+   */
+  private async retry<T>(task: Task<T>, signal: AbortSignal, timeout?: number): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(task, signal, timeout);
+      } catch (error) {
+        if (!(error instanceof OdooUnavailableError) || attempt >= this.settings.retries) {
+          throw error;
+        }
+        // La part aléatoire évite que tous les appels en échec repartent ensemble
+        await wait(RETRY_DELAY * 2 ** attempt * (1 + Math.random() / 2), signal);
+      }
+    }
+  }
+
+  /**
+   * Une tentative, interrompue par l'appelant ou à l'expiration du délai
+   */
+  private async attempt<T>(task: Task<T>, signal?: AbortSignal, timeout = this.settings.timeout): Promise<T> {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    try {
+      return await task({ signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal });
+    } catch (error) {
+      if (signal?.aborted) throw new OdooCancelledError();
+      if (timeoutSignal.aborted) {
+        throw new OdooUnavailableError(`Odoo did not answer within ${Math.round(timeout / 1000)} seconds`);
+      }
+      throw toOdooError(error);
+    }
+  }
+
+  private schedule(call: OdooCall, options: TransportOptions): Promise<unknown> {
+    if (this.settings.batching && call.method === "read" && Array.isArray(call.args[0])) {
+      return abortable(this.batchRead(call, options.signal), options.signal);
+    }
+    return this.throttle(() => this.send(call, options));
+  }
+
+  /**
+   * Limite le nombre de requêtes simultanées vers le serveur
+   */
+  private async throttle<T>(run: () => Promise<T>): Promise<T> {
+    if (this.active < MAX_CONCURRENT_REQUESTS) {
+      this.active++;
+    } else {
+      // Le créneau est transmis directement par la requête qui se termine
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await run();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  /**
+   * Met un read en attente : ceux du même modèle et des mêmes champs émis pendant le même tour partent ensemble
+   */
+  private batchRead(call: OdooCall, signal?: AbortSignal): Promise<unknown> {
+    const [ids, ...rest] = call.args as [number[], ...unknown[]];
+    const key = JSON.stringify([call.model, rest, call.kwargs]);
+
+    return new Promise((resolve, reject) => {
+      const read = { ids, signal, resolve, reject };
+      const pending = this.pendingReads.get(key);
+      if (pending) {
+        pending.push(read);
+        return;
+      }
+      this.pendingReads.set(key, [read]);
+      setTimeout(() => this.flushReads(key, call), 0);
+    });
+  }
+
+  private async flushReads(key: string, call: OdooCall) {
+    const reads = this.pendingReads.get(key) || [];
+    this.pendingReads.delete(key);
+
+    const [, ...rest] = call.args;
+    const ids = [...new Set(reads.flatMap(read => read.ids))];
+    const signal = whenAllAborted(reads.map(read => read.signal));
+
+    try {
+      const records = (await this.throttle(() => this.send({ ...call, args: [ids, ...rest] }, { signal }))) as {
+        id: number;
+      }[];
+      const byId = new Map((records || []).map(record => [record.id, record]));
+      reads.forEach(read => read.resolve(read.ids.map(id => byId.get(id)).filter(record => record !== undefined)));
+    } catch (error) {
+      // Un enregistrement supprimé fait échouer toute la lecture commune : chaque read est alors rejoué seul
+      if (reads.length > 1 && !signal?.aborted && !(toOdooError(error) instanceof OdooNetworkError)) {
+        reads.forEach(read =>
+          this.throttle(() => this.send({ ...call, args: [read.ids, ...rest] }, { signal: read.signal })).then(
+            read.resolve,
+            read.reject,
+          ),
+        );
+        return;
+      }
+      reads.forEach(read => read.reject(error));
+    }
+  }
+}
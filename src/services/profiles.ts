@@ -0,0 +1,244 @@
+import { LocalStorage, environment, getPreferenceValues } from "@raycast/api";
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+import { OdooProfile, Preferences } from "../types";
+import { OdooService } from "./odoo";
+import { clearSessionCookies } from "./session";
+import { loadFixture } from "./transports/fixtures";
+
+const PROFILES_KEY = "profiles";
+const ACTIVE_PROFILE_KEY = "activeProfileId";
+export const PREFERENCES_PROFILE_ID = "preferences";
+export const DEMO_PROFILE_ID = "demo";
+export const REPLAY_PROFILE_ID = "replay";
+
+// Profils construits à partir des préférences, modifiables seulement depuis celles-ci
+const PREFERENCES_PROFILE_IDS = [PREFERENCES_PROFILE_ID, DEMO_PROFILE_ID, REPLAY_PROFILE_ID];
+
+// Profil tel que stocké dans le LocalStorage : la clé API est chiffrée
+type StoredProfile = Omit<OdooProfile, "apiKey"> & { encryptedApiKey: string };
+
+/**
+ * Récupère (ou génère) la clé de chiffrement locale, stockée hors du LocalStorage
+ */
+function getEncryptionKey(): Buffer {
+  const keyPath = join(environment.supportPath, "profiles.key");
+  if (existsSync(keyPath)) {
+    return Buffer.from(readFileSync(keyPath, "utf8"), "base64");
+  }
+
+  const key = randomBytes(32);
+  mkdirSync(environment.supportPath, { recursive: true });
+  writeFileSync(keyPath, key.toString("base64"), { mode: 0o600 });
+  return key;
+}
+
+function encrypt(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64")).join(".");
+}
+
+function decrypt(value: string): string {
+  const [iv, tag, encrypted] = value.split(".").map(part => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+/**
+ * Profil construit à partir des préférences de l'extension, s'il est renseigné
+ */
+function getPreferencesProfile(): OdooProfile | null {
+  const preferences = getPreferenceValues<Partial<Preferences>>();
+  if (!preferences.odooUrl || !preferences.database || !preferences.userLogin || !preferences.apiKey) {
+    return null;
+  }
+
+  return {
+    id: PREFERENCES_PROFILE_ID,
+    name: "Default",
+    odooUrl: preferences.odooUrl,
+    database: preferences.database,
+    userLogin: preferences.userLogin,
+    apiKey: preferences.apiKey,
+    protocol: preferences.protocol,
+    authMethod: preferences.authMethod,
+  };
+}
+
+/**
+ * Instance de démonstration, servie par les fixtures fournies avec l'extension
+ */
+function getDemoProfile(): OdooProfile | null {
+  if (!getPreferenceValues<Preferences>().demoMode) return null;
+
+  return {
+    id: DEMO_PROFILE_ID,
+    name: "Demo Instance",
+    odooUrl: "https://demo.example.com",
+    database: "demo",
+    userLogin: "admin",
+    apiKey: "",
+    fixture: join(environment.assetsPath, "demo", "fixtures.json"),
+  };
+}
+
+/**
+ * Fichier de fixtures enregistré, rejoué hors ligne avec la connexion d'origine
+ */
+async function getReplayProfile(): Promise<OdooProfile | null> {
+  const { replayFixture } = getPreferenceValues<Preferences>();
+  if (!replayFixture) return null;
+
+  try {
+    const { connection } = await loadFixture(replayFixture);
+    return {
+      id: REPLAY_PROFILE_ID,
+      name: basename(replayFixture, ".json"),
+      ...connection,
+      apiKey: "",
+      fixture: replayFixture,
+    };
+  } catch (error) {
+    console.error(`Cannot load fixture ${replayFixture}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Profil géré depuis les préférences de l'extension (connexion par défaut, démonstration, fixtures)
+ */
+export function isPreferencesProfile(profile: OdooProfile): boolean {
+  return PREFERENCES_PROFILE_IDS.includes(profile.id);
+}
+
+async function readStoredProfiles(): Promise<StoredProfile[]> {
+  const raw = await LocalStorage.getItem<string>(PROFILES_KEY);
+  return raw ? (JSON.parse(raw) as StoredProfile[]) : [];
+}
+
+/**
+ * Liste les profils : ceux des préférences (connexion, démonstration, fixtures) puis ceux enregistrés
+ */
+export async function getProfiles(): Promise<OdooProfile[]> {
+  const stored = await readStoredProfiles();
+  const profiles: OdooProfile[] = [];
+
+  for (const preferencesProfile of [getPreferencesProfile(), getDemoProfile(), await getReplayProfile()]) {
+    if (preferencesProfile) {
+      profiles.push(preferencesProfile);
+    }
+  }
+
+  for (const { encryptedApiKey, ...profile } of stored) {
+    try {
+      profiles.push({ ...profile, apiKey: decrypt(encryptedApiKey) });
+    } catch (error) {
+      console.error(`Cannot decrypt API key of profile ${profile.name}:`, error);
+      profiles.push({ ...profile, apiKey: "" });
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Crée ou met à jour un profil enregistré
+ */
+export async function saveProfile(profile: Omit<OdooProfile, "id"> & { id?: string }): Promise<OdooProfile> {
+  if (profile.id && PREFERENCES_PROFILE_IDS.includes(profile.id)) {
+    throw new Error("This profile is managed from the extension preferences");
+  }
+
+  const stored = await readStoredProfiles();
+  const { apiKey, ...rest } = profile;
+  const saved: StoredProfile = { ...rest, id: profile.id || randomUUID(), encryptedApiKey: encrypt(apiKey) };
+
+  const index = stored.findIndex(item => item.id === saved.id);
+  if (index >= 0) {
+    stored[index] = saved;
+  } else {
+    stored.push(saved);
+  }
+
+  await LocalStorage.setItem(PROFILES_KEY, JSON.stringify(stored));
+  releaseOdooService(saved.id);
+  return { ...rest, id: saved.id, apiKey };
+}
+
+/**
+ * Supprime un profil enregistré
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  const stored = await readStoredProfiles();
+  await LocalStorage.setItem(PROFILES_KEY, JSON.stringify(stored.filter(item => item.id !== id)));
+  releaseOdooService(id);
+
+  const deleted = stored.find(item => item.id === id);
+  if (deleted) {
+    await clearSessionCookies({ ...deleted, apiKey: "" });
+  }
+
+  if ((await LocalStorage.getItem<string>(ACTIVE_PROFILE_KEY)) === id) {
+    await LocalStorage.removeItem(ACTIVE_PROFILE_KEY);
+  }
+}
+
+/**
+ * Retourne le profil actif, ou le premier disponible
+ */
+export async function getActiveProfile(profiles?: OdooProfile[]): Promise<OdooProfile | null> {
+  const available = profiles || (await getProfiles());
+  const activeId = await LocalStorage.getItem<string>(ACTIVE_PROFILE_KEY);
+  return available.find(profile => profile.id === activeId) || available[0] || null;
+}
+
+/**
+ * Retourne un profil par son ID, null s'il a été supprimé
+ */
+export async function getProfile(id: string): Promise<OdooProfile | null> {
+  return (await getProfiles()).find(profile => profile.id === id) || null;
+}
+
+export async function setActiveProfile(id: string): Promise<void> {
+  await LocalStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+// Une instance (et donc un cache) par profil, pour ne jamais mélanger les bases
+const services = new Map<string, { signature: string; service: OdooService }>();
+
+const getSignature = (profile: OdooProfile) =>
+  [
+    profile.odooUrl,
+    profile.database,
+    profile.userLogin,
+    profile.apiKey,
+    profile.protocol,
+    profile.authMethod,
+    profile.fixture,
+  ].join("|");
+
+/**
+ * Retourne le service Odoo associé à un profil
+ */
+export function getOdooService(profile: OdooProfile): OdooService {
+  const signature = getSignature(profile);
+  const existing = services.get(profile.id);
+  if (existing && existing.signature === signature) {
+    return existing.service;
+  }
+
+  const service = new OdooService(profile);
+  services.set(profile.id, { signature, service });
+  return service;
+}
+
+function releaseOdooService(id: string): void {
+  const existing = services.get(id);
+  existing?.service.invalidateAuth();
+  existing?.service.clearCache();
+  services.delete(id);
+}
@@ -0,0 +1,165 @@
+import { Domain, DomainBuilder, DomainLeaf, not } from "./domain";
+
+/**
+ * Filtre de la syntaxe de recherche (`clé:valeur`) et champ Odoo correspondant
+ */
+export type QueryFilter =
+  | { kind: "relation"; field: string } // Many2one / many2many, recherché par nom
+  | { kind: "user"; field: string; multi?: boolean } // Accepte "me"
+  | { kind: "selection"; field: string; values: Record<string, string | boolean> }
+  | { kind: "archived" }; // inactive:yes|no|all
+
+export interface QuerySchema {
+  text: string[]; // Champs recherchés par le texte libre, en OU
+  filters: Record<string, QueryFilter>;
+}
+
+export interface QueryToken {
+  key: string;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  text: string;
+  filters: QueryToken[];
+}
+
+const archived: QueryFilter = { kind: "archived" };
+const company: QueryFilter = { kind: "relation", field: "company_id" };
+
+export const QUERY_SCHEMAS: Record<string, QuerySchema> = {
+  "project.project": {
+    text: ["name", "display_name"],
+    filters: {
+      stage: { kind: "relation", field: "stage_id" },
+      user: { kind: "user", field: "user_id" },
+      manager: { kind: "user", field: "user_id" },
+      customer: { kind: "relation", field: "partner_id" },
+      company,
+      inactive: archived,
+    },
+  },
+  "helpdesk.team": {
+    text: ["name", "display_name"],
+    filters: {
+      member: { kind: "user", field: "member_ids", multi: true },
+      user: { kind: "user", field: "member_ids", multi: true },
+      company,
+      inactive: archived,
+    },
+  },
+  "project.task": {
+    text: ["name"],
+    filters: {
+      stage: { kind: "relation", field: "stage_id" },
+      user: { kind: "user", field: "user_ids", multi: true },
+      assignee: { kind: "user", field: "user_ids", multi: true },
+      project: { kind: "relation", field: "project_id" },
+      tag: { kind: "relation", field: "tag_ids" },
+      priority: { kind: "selection", field: "priority", values: { normal: "0", high: "1", starred: "1" } },
+      company,
+      inactive: archived,
+    },
+  },
+  "res.partner": {
+    text: ["complete_name", "email", "phone", "ref"],
+    filters: {
+      company: { kind: "relation", field: "parent_id" },
+      tag: { kind: "relation", field: "category_id" },
+      salesperson: { kind: "user", field: "user_id" },
+      user: { kind: "user", field: "user_id" },
+      country: { kind: "relation", field: "country_id" },
+      type: { kind: "selection", field: "is_company", values: { company: true, person: false } },
+      inactive: archived,
+    },
+  },
+  "helpdesk.ticket": {
+    text: ["ticket_ref", "name", "partner_id", "partner_name"],
+    filters: {
+      stage: { kind: "relation", field: "stage_id" },
+      user: { kind: "user", field: "user_id" },
+      team: { kind: "relation", field: "team_id" },
+      customer: { kind: "relation", field: "partner_id" },
+      priority: { kind: "selection", field: "priority", values: { low: "0", medium: "1", high: "2", urgent: "3" } },
+      company,
+      inactive: archived,
+    },
+  },
+};
+
+// clé:valeur, clé:"valeur avec espaces", -clé:valeur (négation), "texte exact" ou mot libre
+const TOKEN_PATTERN = /(-?)([a-z_]+):(?:"([^"]*)"|'([^']*)'|(\S+))|"([^"]*)"|(\S+)/gi;
+
+const NONE_VALUES = ["none", "false", "no", "unset"];
+
+/**
+ * Sépare les filtres connus du schéma et le texte libre ; une clé inconnue reste du texte
+ */
+export function parseQuery(input: string, schema: QuerySchema): ParsedQuery {
+  const words: string[] = [];
+  const filters: QueryToken[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, negation, key, doubleQuoted, singleQuoted, bare, phrase, word] = match;
+    if (key !== undefined && key.toLowerCase() in schema.filters) {
+      filters.push({ key: key.toLowerCase(), value: doubleQuoted ?? singleQuoted ?? bare ?? "", negated: !!negation });
+    } else {
+      words.push(phrase ?? word ?? token);
+    }
+  }
+
+  return { text: words.join(" ").trim(), filters };
+}
+
+export function hasQueryFilters(input: string, schema: QuerySchema): boolean {
+  return parseQuery(input, schema).filters.length > 0;
+}
+
+function compileFilter(filter: QueryFilter, value: string, uid: number | null): Domain {
+  const normalized = value.trim().toLowerCase();
+
+  switch (filter.kind) {
+    case "archived":
+      if (["all", "any", "both"].includes(normalized)) return [["active", "in", [true, false]]];
+      // inactive:no ne montre que les actifs, toute autre valeur (yes, only) les archivés
+      return [["active", "=", NONE_VALUES.includes(normalized)]];
+    case "selection":
+      return [[filter.field, "=", filter.values[normalized] ?? value]];
+    case "user":
+      if (normalized === "me" && uid) {
+        return [filter.multi ? [filter.field, "in", [uid]] : [filter.field, "=", uid]];
+      }
+      break;
+  }
+
+  if (NONE_VALUES.includes(normalized)) return [[filter.field, "=", false]];
+  return [[filter.field, "ilike", value]];
+}
+
+/**
+ * Compile une requête en domaine Odoo : filtres en ET, texte libre en OU sur les champs du schéma
+ */
+export function compileQuery(query: ParsedQuery, schema: QuerySchema, uid: number | null): Domain {
+  const builder = new DomainBuilder();
+
+  for (const token of query.filters) {
+    const domain = compileFilter(schema.filters[token.key], token.value, uid);
+    builder.add(token.negated ? not(domain) : domain);
+  }
+
+  if (query.text) {
+    builder.any(...schema.text.map((field): Domain => [[field, "ilike", query.text] as DomainLeaf]));
+  }
+
+  return builder.build();
+}
+
+/**
+ * Clés disponibles pour un modèle, pour l'aide affichée dans les listes
+ */
+export function describeQuerySyntax(schema: QuerySchema): string {
+  return Object.keys(schema.filters)
+    .map(key => `${key}:`)
+    .join(" ");
+}
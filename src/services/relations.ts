@@ -0,0 +1,103 @@
+import { MailMessage, OdooAttachment, OdooFollower, OdooSearchOptions, Task } from "../types";
+import { OdooService } from "./odoo";
+
+export interface RecordRelations {
+  messages: MailMessage[];
+  followers: string[];
+  attachments: OdooAttachment[];
+  subtasks: Task[];
+  description: string | false | undefined; // HTML, lu ici pour les résultats de l'index local qui ne le stocke pas
+}
+
+// Modèles indexés localement dont la description est affichée dans le panneau de détail
+const DESCRIBED_MODELS = ["project.task", "helpdesk.ticket", "project.project", "helpdesk.team"];
+
+interface RelationQuery {
+  model: string;
+  domain: unknown[];
+  options: OdooSearchOptions;
+}
+
+/**
+ * Requêtes des données liées à un enregistrement : chatter, abonnés, pièces jointes, sous-tâches et description
+ */
+function getQueries(model: string, id: number): Record<keyof RecordRelations, RelationQuery | null> {
+  return {
+    messages: {
+      model: "mail.message",
+      domain: [
+        ["model", "=", model],
+        ["res_id", "=", id],
+        ["message_type", "in", ["comment", "email"]],
+      ],
+      options: { fields: ["id", "body", "author_id", "date", "subject"], limit: 5 },
+    },
+    followers: {
+      model: "mail.followers",
+      domain: [
+        ["res_model", "=", model],
+        ["res_id", "=", id],
+      ],
+      options: { fields: ["id", "partner_id"], limit: 50 },
+    },
+    attachments: {
+      model: "ir.attachment",
+      domain: [
+        ["res_model", "=", model],
+        ["res_id", "=", id],
+      ],
+      options: { fields: ["id", "name", "mimetype", "file_size"], limit: 20 },
+    },
+    subtasks:
+      model === "project.task"
+        ? {
+            model: "project.task",
+            domain: [["parent_id", "=", id]],
+            options: { fields: ["id", "name", "stage_id", "user_ids", "date_deadline"], limit: 20 },
+          }
+        : null,
+    description: DESCRIBED_MODELS.includes(model)
+      ? { model, domain: [["id", "=", id]], options: { fields: ["id", "description"], limit: 1 } }
+      : null,
+  };
+}
+
+const toRelations = (results: Record<keyof RecordRelations, unknown[]>): RecordRelations => ({
+  messages: results.messages as MailMessage[],
+  followers: (results.followers as OdooFollower[])
+    .map(follower => (follower.partner_id ? follower.partner_id[1] : ""))
+    .filter(Boolean),
+  attachments: results.attachments as OdooAttachment[],
+  subtasks: results.subtasks as Task[],
+  description: (results.description as { description?: string | false }[])[0]?.description,
+});
+
+/**
+ * Charge les données liées ; une requête refusée (droits, module absent) laisse simplement sa liste vide
+ */
+export async function fetchRelations(odooService: OdooService, model: string, id: number): Promise<RecordRelations> {
+  const entries = await Promise.all(
+    Object.entries(getQueries(model, id)).map(async ([key, query]) => {
+      if (!query) return [key, []] as const;
+      try {
+        return [key, await odooService.searchRead(query.model, query.domain, query.options)] as const;
+      } catch (error) {
+        console.error(`Cannot load ${key} of ${model} ${id}:`, error);
+        return [key, []] as const;
+      }
+    }),
+  );
+  return toRelations(Object.fromEntries(entries) as Record<keyof RecordRelations, unknown[]>);
+}
+
+/**
+ * Dernières données liées connues, sans requête réseau
+ */
+export function peekRelations(odooService: OdooService, model: string, id: number): RecordRelations | null {
+  const entries = Object.entries(getQueries(model, id)).map(([key, query]) => [
+    key,
+    query ? odooService.peekSearchRead(query.model, query.domain, query.options)?.data : [],
+  ]);
+  if (entries.some(([, data]) => !data)) return null;
+  return toRelations(Object.fromEntries(entries) as Record<keyof RecordRelations, unknown[]>);
+}
@@ -0,0 +1,41 @@
+import { LocalStorage } from "@raycast/api";
+import { randomUUID } from "crypto";
+import { SavedSearch, SearchCommand } from "../types";
+
+const SAVED_SEARCHES_KEY = "savedSearches";
+
+async function readSavedSearches(): Promise<SavedSearch[]> {
+  const raw = await LocalStorage.getItem<string>(SAVED_SEARCHES_KEY);
+  return raw ? (JSON.parse(raw) as SavedSearch[]) : [];
+}
+
+async function writeSavedSearches(searches: SavedSearch[]): Promise<void> {
+  await LocalStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(searches));
+}
+
+/**
+ * Recherches enregistrées d'une liste, dans l'ordre de création
+ */
+export async function getSavedSearches(command: SearchCommand): Promise<SavedSearch[]> {
+  return (await readSavedSearches()).filter(search => search.command === command);
+}
+
+/**
+ * Enregistre une recherche ; sans ID, un nom déjà utilisé sur la même liste est remplacé
+ */
+export async function saveSearch(search: Omit<SavedSearch, "id"> & { id?: string }): Promise<SavedSearch> {
+  const searches = await readSavedSearches();
+  const existing = searches.find(item =>
+    search.id ? item.id === search.id : item.command === search.command && item.name === search.name,
+  );
+  const saved: SavedSearch = { ...search, id: existing?.id || randomUUID() };
+
+  await writeSavedSearches(
+    existing ? searches.map(item => (item.id === saved.id ? saved : item)) : [...searches, saved],
+  );
+  return saved;
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+  await writeSavedSearches((await readSavedSearches()).filter(search => search.id !== id));
+}
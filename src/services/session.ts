@@ -0,0 +1,29 @@
+import { LocalStorage } from "@raycast/api";
+import { OdooConnection } from "../types";
+import { getConnectionNamespace } from "./cache";
+
+/**
+ * Cookies d'une session web Odoo, conservés dans le stockage chiffré de Raycast
+ */
+export interface SessionCookies {
+  session_id?: string;
+  td_id?: string; // Appareil de confiance : dispense du code de double authentification (auth_totp)
+}
+
+const getSessionKey = (connection: OdooConnection) => `session-${getConnectionNamespace(connection)}`;
+
+export async function getSessionCookies(connection: OdooConnection): Promise<SessionCookies> {
+  const raw = await LocalStorage.getItem<string>(getSessionKey(connection));
+  return raw ? (JSON.parse(raw) as SessionCookies) : {};
+}
+
+export async function saveSessionCookies(connection: OdooConnection, cookies: SessionCookies): Promise<void> {
+  await LocalStorage.setItem(getSessionKey(connection), JSON.stringify(cookies));
+}
+
+/**
+ * Oublie la session et l'appareil de confiance, par exemple à la suppression du profil
+ */
+export async function clearSessionCookies(connection: OdooConnection): Promise<void> {
+  await LocalStorage.removeItem(getSessionKey(connection));
+}
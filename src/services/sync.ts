@@ -0,0 +1,222 @@
+import { Cache } from "@raycast/api";
+import { FuzzyField, fuzzySearch } from "../utils/fuzzy";
+import { getConnectionNamespace } from "./cache";
+import { getAllowedCompanyIds } from "./companies";
+import { OdooService } from "./odoo";
+
+// Index local des enregistrements, synchronisé par deltas de write_date
+interface IndexEntry<T> {
+  fields: string;
+  companies?: string; // Sociétés couvertes par la synchronisation
+  lastWriteDate: string | null;
+  syncedAt: number;
+  fullSyncedAt: number;
+  records: T[];
+}
+
+type IndexedRecord = { id: number; write_date?: string } & Record<string, unknown>;
+
+const CAPACITY = 20 * 1024 * 1024; // 20 Mo par profil
+const FULL_SYNC_INTERVAL = 24 * 60 * 60 * 1000; // Resynchronisation complète quotidienne
+const SYNC_PAGE_SIZE = 500;
+// Champs longs jamais indexés (HTML) : le panneau de détail les lit à la demande
+const UNINDEXED_FIELDS = ["description"];
+
+const relationName = (value: unknown) => (Array.isArray(value) ? String(value[1]) : "");
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+// Champs utilisés pour le classement, le premier étant le titre
+const SEARCH_FIELDS: Record<string, (record: IndexedRecord) => FuzzyField[]> = {
+  "project.project": record => [
+    { value: text(record.name), weight: 1 },
+    { value: relationName(record.partner_id), weight: 0.8 },
+    { value: relationName(record.user_id), weight: 0.6 },
+  ],
+  "helpdesk.team": record => [{ value: text(record.name), weight: 1 }],
+  "project.task": record => [
+    { value: text(record.name), weight: 1 },
+    { value: relationName(record.project_id), weight: 0.7 },
+    { value: relationName(record.stage_id), weight: 0.5 },
+  ],
+  "helpdesk.ticket": record => [
+    { value: text(record.name), weight: 1 },
+    { value: text(record.ticket_ref), weight: 1 },
+    { value: relationName(record.partner_id) || text(record.partner_name), weight: 0.8 },
+    { value: relationName(record.team_id), weight: 0.5 },
+  ],
+};
+
+const defaultSearchFields = (record: IndexedRecord): FuzzyField[] => [
+  { value: text(record.display_name) || text(record.name), weight: 1 },
+];
+
+/**
+ * Recherche floue côté client dans des enregistrements indexés, tolérante aux fautes de frappe
+ */
+export function searchRecords<T>(
+  model: string,
+  records: T[],
+  query: string,
+  filter?: (record: T) => boolean,
+  limit = 100,
+): T[] {
+  const candidates = filter ? records.filter(filter) : records;
+  const getFields = SEARCH_FIELDS[model] || defaultSearchFields;
+  return fuzzySearch(candidates, query, record => getFields(record as IndexedRecord), limit);
+}
+
+export class LocalIndex {
+  private cache: Cache;
+  private pending = new Map<string, Promise<unknown[]>>();
+
+  constructor(private odooService: OdooService) {
+    this.cache = new Cache({
+      namespace: `index-${getConnectionNamespace(odooService.connection)}`,
+      capacity: CAPACITY,
+    });
+  }
+
+  private read<T>(model: string): IndexEntry<T> | null {
+    const raw = this.cache.get(model);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as IndexEntry<T>;
+    } catch {
+      this.cache.remove(model);
+      return null;
+    }
+  }
+
+  /**
+   * Enregistrements indexés d'un modèle (vide si jamais synchronisé)
+   */
+  getRecords<T>(model: string): T[] {
+    return this.read<T>(model)?.records || [];
+  }
+
+  getSyncedAt(model: string): Date | null {
+    const entry = this.read(model);
+    return entry ? new Date(entry.syncedAt) : null;
+  }
+
+  /**
+   * Synchronise un modèle : seuls les enregistrements modifiés depuis la dernière fois sont récupérés
+   */
+  async sync<T>(model: string, fields: string[]): Promise<T[]> {
+    // Une seule synchronisation à la fois par modèle
+    const running = this.pending.get(model);
+    if (running) return running as Promise<T[]>;
+
+    const promise = this.runSync<T>(model, fields).finally(() => this.pending.delete(model));
+    this.pending.set(model, promise);
+    return promise;
+  }
+
+  /**
+   * Contexte de synchronisation : toutes les sociétés autorisées, quelle que soit la sélection,
+   * que les listes appliquent ensuite en filtrant l'index sur company_id
+   */
+  private async getCompanyIds(): Promise<number[] | null> {
+    try {
+      return getAllowedCompanyIds(await this.odooService.getCompanies(), null);
+    } catch (error) {
+      console.error("Cannot load allowed companies for the local index:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Enregistrements modifiés, lus par pages pour ne pas demander toute la base d'un coup
+   */
+  private async readChanged(
+    model: string,
+    domain: unknown[],
+    fields: string[],
+    context: Record<string, unknown>,
+  ): Promise<IndexedRecord[] | null> {
+    const changed: IndexedRecord[] = [];
+    for (let offset = 0; ; offset += SYNC_PAGE_SIZE) {
+      const page = await this.odooService.execute<IndexedRecord[]>(model, "search_read", [domain], {
+        fields,
+        limit: SYNC_PAGE_SIZE,
+        offset,
+        order: "id",
+        ...context,
+      });
+      if (page === null) return null;
+      changed.push(...page);
+      if (page.length < SYNC_PAGE_SIZE) return changed;
+    }
+  }
+
+  private async runSync<T>(model: string, listFields: string[]): Promise<T[]> {
+    const fields = listFields.filter(field => !UNINDEXED_FIELDS.includes(field));
+    const signature = [...fields].sort().join(",");
+    const companyIds = await this.getCompanyIds();
+    const companies = companyIds ? [...companyIds].sort((a, b) => a - b).join(",") : "";
+    const context = companyIds ? { context: { allowed_company_ids: companyIds } } : {};
+    const entry = this.read<IndexedRecord>(model);
+    // Un index synchronisé pour d'autres sociétés est entièrement resynchronisé
+    const isIncremental =
+      entry !== null &&
+      entry.fields === signature &&
+      (entry.companies ?? "") === companies &&
+      entry.lastWriteDate !== null &&
+      Date.now() - entry.fullSyncedAt < FULL_SYNC_INTERVAL;
+
+    const domain = isIncremental ? [["write_date", ">=", entry.lastWriteDate]] : [];
+    const changed = await this.readChanged(model, domain, [...new Set([...fields, "write_date"])], context);
+    if (changed === null) {
+      return (entry?.records as T[]) || [];
+    }
+
+    const records = new Map<number, IndexedRecord>();
+    if (isIncremental) {
+      // Retire les enregistrements supprimés ou archivés depuis la dernière synchronisation
+      const activeIds = new Set((await this.odooService.execute<number[]>(model, "search", [[]], context)) || []);
+      for (const record of entry.records) {
+        if (activeIds.has(record.id)) records.set(record.id, record);
+      }
+    }
+    for (const record of changed) {
+      records.set(record.id, record);
+    }
+
+    const all = [...records.values()];
+    const lastWriteDate = all.reduce<string | null>(
+      (latest, record) => (record.write_date && (!latest || record.write_date > latest) ? record.write_date : latest),
+      null,
+    );
+
+    const updated: IndexEntry<IndexedRecord> = {
+      fields: signature,
+      companies,
+      lastWriteDate,
+      syncedAt: Date.now(),
+      fullSyncedAt: isIncremental ? entry.fullSyncedAt : Date.now(),
+      records: all,
+    };
+    try {
+      this.cache.set(model, JSON.stringify(updated));
+    } catch (error) {
+      console.error(`Cannot store index for ${model}:`, error);
+    }
+    return all as unknown as T[];
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+}
+
+// Un index par service, donc par profil
+const indexes = new WeakMap<OdooService, LocalIndex>();
+
+export function getLocalIndex(odooService: OdooService): LocalIndex {
+  let index = indexes.get(odooService);
+  if (!index) {
+    index = new LocalIndex(odooService);
+    indexes.set(odooService, index);
+  }
+  return index;
+}
@@ -0,0 +1,49 @@
+import { LaunchType, LocalStorage, launchCommand } from "@raycast/api";
+import { RunningTimer } from "../types";
+
+const TIMER_KEY = "runningTimer";
+
+/**
+ * Rafraîchit la barre de menus après un changement de minuteur (sans effet si la commande est désactivée)
+ */
+async function refreshTimerMenuBar(): Promise<void> {
+  try {
+    await launchCommand({ name: "timer-menu-bar", type: LaunchType.Background });
+  } catch (error) {
+    console.error("Cannot refresh the timer menu bar:", error);
+  }
+}
+
+/**
+ * Minuteur en cours, conservé dans le LocalStorage pour survivre aux redémarrages de Raycast
+ */
+export async function getRunningTimer(): Promise<RunningTimer | null> {
+  const raw = await LocalStorage.getItem<string>(TIMER_KEY);
+  return raw ? (JSON.parse(raw) as RunningTimer) : null;
+}
+
+/**
+ * Démarre un minuteur, en remplaçant celui éventuellement en cours
+ */
+export async function startTimer(timer: Omit<RunningTimer, "startedAt">): Promise<RunningTimer> {
+  const running: RunningTimer = { ...timer, startedAt: new Date().toISOString() };
+  await LocalStorage.setItem(TIMER_KEY, JSON.stringify(running));
+  await refreshTimerMenuBar();
+  return running;
+}
+
+export async function clearTimer(): Promise<void> {
+  await LocalStorage.removeItem(TIMER_KEY);
+  await refreshTimerMenuBar();
+}
+
+/**
+ * Durée écoulée en heures, arrondie à la minute supérieure
+ */
+export function getElapsedHours(timer: RunningTimer, now = new Date()): number {
+  const minutes = Math.ceil((now.getTime() - new Date(timer.startedAt).getTime()) / 60000);
+  return Math.max(minutes, 1) / 60;
+}
+
+export const isTimerFor = (timer: RunningTimer | null, model: RunningTimer["model"], recordId: number) =>
+  timer !== null && timer.model === model && timer.recordId === recordId;
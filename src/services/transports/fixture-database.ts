@@ -0,0 +1,407 @@
+import { OdooField, OdooFields } from "../../types";
+import { toOdooDate } from "../../utils/validation";
+import { OdooModelNotFoundError, OdooServerError, OdooValidationError } from "../errors";
+import { Fixture, FixtureRecord } from "./fixtures";
+
+type Domain = unknown[];
+
+const TEXT_OPERATORS = ["like", "ilike", "not like", "not ilike", "=like", "=ilike"];
+
+const isEmpty = (value: unknown) =>
+  value === false || value === null || value === undefined || value === "" || (Array.isArray(value) && !value.length);
+
+const isMany2one = (value: unknown): value is [number, string] =>
+  Array.isArray(value) && value.length === 2 && typeof value[0] === "number" && typeof value[1] === "string";
+
+/**
+ * Motif SQL (%, _) converti en expression régulière
+ */
+function likePattern(pattern: string, caseSensitive: boolean): RegExp {
+  const source = pattern
+    .split("")
+    .map(char => (char === "%" ? ".*" : char === "_" ? "." : char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, caseSensitive ? "s" : "is");
+}
+
+/**
+ * Compare une valeur de champ à l'opérande d'une feuille de domaine, selon la sémantique d'Odoo :
+ * un many2one se compare par ID, ou par nom pour les opérateurs texte, un x2many par l'un de ses IDs
+ */
+function matchValue(value: unknown, operator: string, operand: unknown): boolean {
+  if (TEXT_OPERATORS.includes(operator)) {
+    const text = isMany2one(value) ? value[1] : isEmpty(value) ? "" : String(value);
+    const negated = operator.startsWith("not ");
+    const pattern = String(operand ?? "");
+    let matches: boolean;
+    if (operator.startsWith("=")) {
+      matches = likePattern(pattern, operator === "=like").test(text);
+    } else if (operator.includes("ilike")) {
+      matches = !isEmpty(value) && text.toLowerCase().includes(pattern.toLowerCase());
+    } else {
+      matches = !isEmpty(value) && text.includes(pattern);
+    }
+    return negated ? !matches : matches;
+  }
+
+  const values = Array.isArray(value) && !isMany2one(value) ? value : [isMany2one(value) ? value[0] : value];
+  const equals = (candidate: unknown) => (candidate === false ? isEmpty(value) : values.includes(candidate));
+
+  switch (operator) {
+    case "=":
+    case "child_of":
+    case "parent_of":
+      return Array.isArray(operand) ? operand.some(equals) : equals(operand);
+    case "=?":
+      return operand === false || operand === null || equals(operand);
+    case "!=":
+    case "<>":
+      return !equals(operand);
+    case "in":
+      return (operand as unknown[]).some(equals);
+    case "not in":
+      return !(operand as unknown[]).some(equals);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      const [current] = values;
+      if (isEmpty(current) || isEmpty(operand)) return false;
+      const left = current as string | number;
+      const right = operand as string | number;
+      if (operator === "<") return left < right;
+      if (operator === "<=") return left <= right;
+      if (operator === ">") return left > right;
+      return left >= right;
+    }
+    default:
+      throw new OdooServerError(`Domain operator ${operator} is not supported by the fixture database`);
+  }
+}
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const left = isMany2one(a) ? a[1] : a;
+  const right = isMany2one(b) ? b[1] : b;
+  if (isEmpty(left) || isEmpty(right)) return Number(isEmpty(left)) - Number(isEmpty(right));
+  if (typeof left === "string" && typeof right === "string") return left.localeCompare(right);
+  return Number(left) - Number(right);
+};
+
+/**
+ * Type de champ déduit de sa valeur, pour les modèles dont la fixture ne décrit pas les champs
+ */
+function inferField(name: string, value: unknown): OdooField {
+  const string = name.replace(/_ids?$/, "").replace(/_/g, " ");
+  const label = string.charAt(0).toUpperCase() + string.slice(1);
+  if (typeof value === "boolean") return { type: "boolean", string: label };
+  if (typeof value === "number") return { type: Number.isInteger(value) ? "integer" : "float", string: label };
+  if (isMany2one(value)) return { type: "many2one", string: label };
+  if (Array.isArray(value)) return { type: "many2many", string: label };
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)) {
+    return { type: "datetime", string: label };
+  }
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) return { type: "date", string: label };
+  if (typeof value === "string" && /^\s*<[a-z][^>]*>/i.test(value)) return { type: "html", string: label };
+  return { type: "char", string: label };
+}
+
+/**
+ * Base Odoo simulée en mémoire à partir des enregistrements d'une fixture : domaines, tri, lecture,
+ * création et modification, pour répondre aux appels qui n'ont pas été enregistrés
+ */
+export class FixtureDatabase {
+  private records: Record<string, FixtureRecord[]>;
+  private fields: Record<string, OdooFields>;
+
+  constructor(
+    fixture: Fixture,
+    private uid: number,
+  ) {
+    // Copie : les modifications ne touchent pas la fixture partagée
+    this.records = structuredClone(fixture.records || {});
+    this.fields = fixture.fields || {};
+
+    const now = toOdooDate(new Date(), "datetime");
+    for (const records of Object.values(this.records)) {
+      for (const record of records) {
+        record.create_date ??= now;
+        record.write_date ??= now;
+      }
+    }
+  }
+
+  /**
+   * Exécute une méthode ORM sur les enregistrements en mémoire
+   * @throws {OdooModelNotFoundError} si la fixture ne contient pas le modèle
+   */
+  execute(model: string, method: string, args: unknown[], kwargs: Record<string, unknown>): unknown {
+    if (!(model in this.records)) {
+      throw new OdooModelNotFoundError(`Model ${model} is not available on this database`, model);
+    }
+
+    switch (method) {
+      case "search_read":
+        return this.searchRead(model, (args[0] ?? kwargs.domain ?? []) as Domain, kwargs);
+      case "search":
+        return this.search(model, (args[0] ?? []) as Domain, kwargs).map(record => record.id);
+      case "search_count":
+        return this.search(model, (args[0] ?? []) as Domain, {}).length;
+      case "read":
+        return this.read(model, args[0] as number[], (args[1] ?? kwargs.fields) as string[] | undefined);
+      case "name_search":
+        return this.nameSearch(model, kwargs);
+      case "fields_get":
+        return this.fieldsGet(model, (args[0] ?? []) as string[], kwargs.attributes as string[] | undefined);
+      case "create":
+        return Array.isArray(args[0])
+          ? (args[0] as Record<string, unknown>[]).map(values => this.create(model, values))
+          : this.create(model, args[0] as Record<string, unknown>);
+      case "write":
+        return this.write(model, args[0] as number[], args[1] as Record<string, unknown>);
+      case "message_post":
+        return this.messagePost(model, args[0] as number[], kwargs);
+      case "has_access":
+      case "check_access_rights":
+        return true;
+      case "context_get":
+        return { uid: this.uid, lang: "en_US", tz: "UTC" };
+      default:
+        throw new OdooServerError(`Method ${model}.${method} is not supported by the demo instance`);
+    }
+  }
+
+  private getField(model: string, name: string): OdooField | undefined {
+    return this.fields[model]?.[name];
+  }
+
+  /**
+   * Valeur d'un champ telle que renvoyée par Odoo : false si absente, liste vide pour un x2many
+   */
+  private getValue(model: string, record: FixtureRecord, name: string): unknown {
+    if (name === "display_name" || name === "complete_name") {
+      const parent = record.parent_id;
+      const fallback = model === "res.partner" && isMany2one(parent) ? `${parent[1]}, ${record.name}` : record.name;
+      return record[name] ?? record.display_name ?? record.complete_name ?? fallback ?? `${model},${record.id}`;
+    }
+    if (name in record) return record[name];
+    if (name === "active") return true;
+
+    const type = this.getField(model, name)?.type;
+    return type === "many2many" || type === "one2many" ? [] : false;
+  }
+
+  /**
+   * Valeurs d'un chemin pointé (stage_id.fold, partner_id.name), en suivant les relations connues
+   */
+  private resolvePath(model: string, record: FixtureRecord, path: string): unknown {
+    const [name, ...rest] = path.split(".");
+    const value = this.getValue(model, record, name);
+    if (rest.length === 0) return value;
+
+    const ids = isMany2one(value) ? [value[0]] : Array.isArray(value) ? (value as number[]) : [];
+    const relation = this.getField(model, name)?.relation;
+    if (!relation || !this.records[relation]) {
+      // Sans le modèle lié, seul le nom d'un many2one est connu
+      return isMany2one(value) && ["name", "display_name"].includes(rest.join(".")) ? value[1] : false;
+    }
+
+    const related = this.records[relation].filter(item => ids.includes(item.id));
+    const values = related.map(item => this.resolvePath(relation, item, rest.join(".")));
+    return values.length > 1 ? values.flat() : (values[0] ?? false);
+  }
+
+  private matchLeaf(model: string, record: FixtureRecord, leaf: unknown[]): boolean {
+    const [field, operator, operand] = leaf;
+    if (typeof field !== "string") {
+      return matchValue(field, String(operator), operand);
+    }
+    if (field === "id") {
+      return matchValue(record.id, String(operator), operand);
+    }
+    return matchValue(this.resolvePath(model, record, field), String(operator), operand);
+  }
+
+  /**
+   * Évalue un domaine en notation préfixée (&, |, !), les termes consécutifs étant combinés par un ET
+   */
+  private matchDomain(model: string, record: FixtureRecord, domain: Domain): boolean {
+    const stack: boolean[] = [];
+    for (const term of [...domain].reverse()) {
+      if (term === "!") {
+        stack.push(!stack.pop());
+      } else if (term === "&" || term === "|") {
+        const left = stack.pop() ?? true;
+        const right = stack.pop() ?? true;
+        stack.push(term === "&" ? left && right : left || right);
+      } else {
+        stack.push(this.matchLeaf(model, record, term as unknown[]));
+      }
+    }
+    return stack.every(Boolean);
+  }
+
+  private search(model: string, domain: Domain, options: Record<string, unknown>): FixtureRecord[] {
+    // Comme dans Odoo, les enregistrements archivés sont exclus sauf si le domaine porte sur active
+    const filtersActive = domain.some(term => Array.isArray(term) && term[0] === "active");
+    const matches = this.records[model].filter(
+      record =>
+        (filtersActive || this.getValue(model, record, "active") !== false) && this.matchDomain(model, record, domain),
+    );
+
+    const order = String(options.order || "id")
+      .split(",")
+      .map(part => part.trim().split(/\s+/))
+      .filter(([name]) => name);
+    matches.sort((a, b) => {
+      for (const [name, direction] of order) {
+        const result = compareValues(this.getValue(model, a, name), this.getValue(model, b, name));
+        if (result !== 0) return direction?.toLowerCase() === "desc" ? -result : result;
+      }
+      return 0;
+    });
+
+    const offset = Number(options.offset || 0);
+    const limit = Number(options.limit || 0);
+    return matches.slice(offset, limit ? offset + limit : undefined);
+  }
+
+  private project(model: string, record: FixtureRecord, fields?: string[]): FixtureRecord {
+    const names = fields?.length ? fields : [...new Set([...Object.keys(record), "display_name"])];
+    return { ...Object.fromEntries(names.map(name => [name, this.getValue(model, record, name)])), id: record.id };
+  }
+
+  private searchRead(model: string, domain: Domain, options: Record<string, unknown>): FixtureRecord[] {
+    return this.search(model, domain, options).map(record => this.project(model, record, options.fields as string[]));
+  }
+
+  private read(model: string, ids: number[], fields?: string[]): FixtureRecord[] {
+    return ids
+      .map(id => this.records[model].find(record => record.id === id))
+      .filter((record): record is FixtureRecord => !!record)
+      .map(record => this.project(model, record, fields));
+  }
+
+  private nameSearch(model: string, kwargs: Record<string, unknown>): [number, string][] {
+    const name = String(kwargs.name || "");
+    const domain = [
+      ...((kwargs.args as Domain) || []),
+      ...(name ? [["display_name", kwargs.operator || "ilike", name]] : []),
+    ];
+    return this.search(model, domain, { limit: kwargs.limit ?? 100 }).map(record => [
+      record.id,
+      String(this.getValue(model, record, "display_name")),
+    ]);
+  }
+
+  private fieldsGet(model: string, names: string[], attributes?: string[]): OdooFields {
+    // Champs décrits par la fixture, complétés par ceux déduits des valeurs des enregistrements
+    const fields: OdooFields = {
+      id: { type: "integer", string: "ID" },
+      display_name: { type: "char", string: "Name" },
+    };
+    for (const record of this.records[model]) {
+      for (const [name, value] of Object.entries(record)) {
+        if (!(name in fields) && !isEmpty(value)) fields[name] = inferField(name, value);
+      }
+    }
+    Object.assign(fields, this.fields[model]);
+
+    const selected = names.length ? names.filter(name => name in fields) : Object.keys(fields);
+    return Object.fromEntries(
+      selected.map(name => {
+        const field = fields[name];
+        const filtered = attributes?.length
+          ? Object.fromEntries(Object.entries(field).filter(([key]) => attributes.includes(key)))
+          : field;
+        return [name, { ...filtered, type: field.type, string: field.string }];
+      }),
+    );
+  }
+
+  /**
+   * Valeurs au format de lecture : many2one en [id, nom], commandes x2many appliquées
+   */
+  private normalizeValues(model: string, record: FixtureRecord, values: Record<string, unknown>): void {
+    for (const [name, value] of Object.entries(values)) {
+      const field = this.getField(model, name);
+      const related = field?.relation ? this.records[field.relation] : undefined;
+
+      if (field?.type === "many2one" && typeof value === "number") {
+        const target = related?.find(item => item.id === value);
+        record[name] = target ? [value, String(this.getValue(field.relation!, target, "display_name"))] : [value, ""];
+      } else if ((field?.type === "many2many" || field?.type === "one2many") && Array.isArray(value)) {
+        let ids = Array.isArray(record[name]) ? [...(record[name] as number[])] : [];
+        for (const command of value) {
+          if (typeof command === "number") {
+            ids.push(command);
+          } else if (Array.isArray(command)) {
+            const [code, id, extra] = command as [number, number, unknown];
+            if (code === 6) ids = [...(extra as number[])];
+            if (code === 5) ids = [];
+            if (code === 4) ids.push(id);
+            if (code === 3 || code === 2) ids = ids.filter(item => item !== id);
+          }
+        }
+        record[name] = [...new Set(ids)];
+      } else {
+        record[name] = value;
+      }
+    }
+  }
+
+  private create(model: string, values: Record<string, unknown>): number {
+    if (!values || typeof values !== "object") {
+      throw new OdooValidationError(`Missing values to create a ${model} record`);
+    }
+    const records = this.records[model];
+    const id = records.reduce((max, record) => Math.max(max, record.id), 0) + 1;
+    const now = toOdooDate(new Date(), "datetime");
+    const record: FixtureRecord = { id, create_date: now, write_date: now };
+    this.normalizeValues(model, record, values);
+
+    // Comme dans Odoo, un nouvel enregistrement commence à la première étape
+    const stages = this.getField(model, "stage_id")?.relation;
+    if (!record.stage_id && stages && this.records[stages]?.length) {
+      const [first] = this.search(stages, [], { order: "sequence, id", limit: 1 });
+      record.stage_id = [first.id, String(this.getValue(stages, first, "display_name"))];
+    }
+
+    records.push(record);
+    return id;
+  }
+
+  private write(model: string, ids: number[], values: Record<string, unknown>): boolean {
+    const now = toOdooDate(new Date(), "datetime");
+    for (const id of ids) {
+      const record = this.records[model].find(item => item.id === id);
+      if (!record) {
+        throw new OdooValidationError(`Record does not exist or has been deleted. (Record: ${model}(${id},))`);
+      }
+      this.normalizeValues(model, record, values);
+      record.write_date = now;
+    }
+    return true;
+  }
+
+  private messagePost(model: string, ids: number[], kwargs: Record<string, unknown>): number {
+    const [resId] = ids;
+    const [recordName] = this.read(model, [resId], ["display_name"]);
+    const [user] = this.records["res.users"]?.filter(item => item.id === this.uid) || [];
+    const messages = (this.records["mail.message"] ??= []);
+    const id = messages.reduce((max, message) => Math.max(max, message.id), 0) + 1;
+
+    messages.push({
+      id,
+      model,
+      res_id: resId,
+      record_name: recordName?.display_name ?? false,
+      body: kwargs.body ?? "",
+      subject: kwargs.subject ?? false,
+      message_type: kwargs.message_type ?? "comment",
+      author_id: user?.partner_id ?? false,
+      date: toOdooDate(new Date(), "datetime"),
+      needaction: false,
+    });
+    return id;
+  }
+}
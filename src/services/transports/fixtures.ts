@@ -0,0 +1,133 @@
+import { readFile } from "fs/promises";
+import { OdooFields } from "../../types";
+import { toOdooDate } from "../../utils/validation";
+import {
+  OdooAccessError,
+  OdooAuthError,
+  OdooError,
+  OdooModelNotFoundError,
+  OdooNetworkError,
+  OdooServerError,
+  OdooTwoFactorError,
+  OdooUnavailableError,
+  OdooValidationError,
+  toOdooError,
+} from "../errors";
+
+export type FixtureCall = "version" | "listDatabases" | "authenticate" | "executeKw";
+
+export type FixtureRecord = { id: number } & Record<string, unknown>;
+
+/**
+ * Échange enregistré avec le serveur : l'appel et sa réponse, ou l'erreur renvoyée
+ */
+export interface FixtureExchange {
+  call: FixtureCall;
+  model?: string;
+  method?: string;
+  args?: unknown[];
+  kwargs?: Record<string, unknown>;
+  result?: unknown;
+  error?: { type: string; message: string; odooName?: string; model?: string };
+}
+
+/**
+ * Fichier de fixtures : échanges rejoués à l'identique, et données optionnelles d'une base simulée
+ * pour répondre aux appels qui n'ont pas été enregistrés (recherches saisies, formulaires...)
+ */
+export interface Fixture {
+  connection: { odooUrl: string; database: string; userLogin: string }; // Jamais de clé API ni de mot de passe
+  recordedAt?: string;
+  exchanges: FixtureExchange[];
+  records?: Record<string, FixtureRecord[]>;
+  fields?: Record<string, OdooFields>;
+}
+
+// Classes reconstruites au rejeu, par nom d'erreur enregistré
+const ERROR_TYPES: Record<string, new (message: string, odooName?: string) => OdooError> = {
+  OdooAuthError,
+  OdooTwoFactorError,
+  OdooAccessError,
+  OdooNetworkError,
+  OdooUnavailableError,
+  OdooValidationError,
+  OdooServerError,
+};
+
+export function serializeError(error: unknown): NonNullable<FixtureExchange["error"]> {
+  const odooError = toOdooError(error);
+  return {
+    type: odooError.name,
+    message: odooError.message,
+    odooName: odooError.odooName,
+    model: odooError instanceof OdooModelNotFoundError ? odooError.model : undefined,
+  };
+}
+
+export function reviveError(error: NonNullable<FixtureExchange["error"]>): OdooError {
+  if (error.type === "OdooModelNotFoundError" && error.model) {
+    return new OdooModelNotFoundError(error.message, error.model, error.odooName);
+  }
+  const ErrorType = ERROR_TYPES[error.type] || OdooServerError;
+  return new ErrorType(error.message, error.odooName);
+}
+
+/**
+ * JSON aux clés triées, pour comparer des appels quel que soit l'ordre de leurs options
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Clé d'un appel ; le contexte (langue, sociétés autorisées) n'en fait pas partie
+ */
+export function getExchangeKey({ call, model, method, args, kwargs }: FixtureExchange) {
+  const options = { ...kwargs };
+  delete options.context;
+  return stableStringify({ call, model, method, args, kwargs: options });
+}
+
+// Dates relatives des fixtures de démonstration : "${today}", "${today+3}", "${now-2h}"
+const RELATIVE_DATE = /^\$\{(today|now)(?:([+-]\d+)([dh])?)?\}$/;
+
+function resolveDates(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(resolveDates);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveDates(item)]));
+  }
+  const match = typeof value === "string" ? value.match(RELATIVE_DATE) : null;
+  if (!match) return value;
+
+  const [, base, offset, unit] = match;
+  const date = new Date();
+  const amount = Number(offset || 0);
+  if (unit === "h") {
+    date.setHours(date.getHours() + amount);
+  } else {
+    date.setDate(date.getDate() + amount);
+  }
+  return toOdooDate(date, base === "now" ? "datetime" : "date");
+}
+
+const fixtures = new Map<string, Promise<Fixture>>();
+
+/**
+ * Lit un fichier de fixtures, une seule fois par session
+ */
+export function loadFixture(path: string): Promise<Fixture> {
+  let fixture = fixtures.get(path);
+  if (!fixture) {
+    fixture = readFile(path, "utf8").then(content => resolveDates(JSON.parse(content)) as Fixture);
+    fixture.catch(() => fixtures.delete(path));
+    fixtures.set(path, fixture);
+  }
+  return fixture;
+}
@@ -0,0 +1,71 @@
+import { getPreferenceValues } from "@raycast/api";
+import { OdooConnection, Preferences } from "../../types";
+import { Json2Transport } from "./json2";
+import { JsonRpcTransport } from "./json-rpc";
+import { RecordingTransport } from "./recording";
+import { ReplayTransport } from "./replay";
+import { SessionTransport } from "./session";
+import { XmlRpcTransport } from "./xml-rpc";
+import { ConcreteProtocol, OdooTransport, TransportFactory, TransportOptions } from "./types";
+
+export type { ConcreteProtocol, OdooTransport, TransportOptions } from "./types";
+export { getBaseUrl } from "./types";
+export { getRecordingsPath } from "./recording";
+
+const FACTORIES: Record<Exclude<ConcreteProtocol, "replay">, TransportFactory> = {
+  jsonrpc: connection => new JsonRpcTransport(connection),
+  xmlrpc: connection => new XmlRpcTransport(connection),
+  json2: connection => new Json2Transport(connection),
+  session: connection => new SessionTransport(connection),
+};
+
+// Première version d'Odoo exposant l'API JSON-2
+const JSON2_MIN_VERSION = 19;
+
+/**
+ * Détecte le protocole disponible : JSON-RPC, sinon XML-RPC, et JSON-2 sur les versions récentes
+ */
+async function detectTransport(connection: OdooConnection, options?: TransportOptions): Promise<OdooTransport> {
+  const jsonRpc = FACTORIES.jsonrpc(connection);
+  try {
+    const version = await jsonRpc.version(options);
+    const major = Number(version.server_version_info?.[0]);
+    return major >= JSON2_MIN_VERSION ? FACTORIES.json2(connection) : jsonRpc;
+  } catch (jsonRpcError) {
+    console.warn("JSON-RPC unavailable, trying XML-RPC:", jsonRpcError);
+  }
+
+  const xmlRpc = FACTORIES.xmlrpc(connection);
+  await xmlRpc.version(options);
+  return xmlRpc;
+}
+
+/**
+ * Transport vers le serveur : session web pour une connexion par mot de passe,
+ * sinon protocole choisi explicitement ou détecté automatiquement
+ */
+async function createServerTransport(connection: OdooConnection, options?: TransportOptions): Promise<OdooTransport> {
+  if (connection.authMethod === "session") {
+    return FACTORIES.session(connection);
+  }
+
+  const protocol = connection.protocol || "auto";
+  if (protocol === "auto") {
+    return detectTransport(connection, options);
+  }
+  return FACTORIES[protocol](connection);
+}
+
+/**
+ * Crée le transport de la connexion : fixtures rejouées hors ligne, ou serveur dont les échanges
+ * sont enregistrés si la préférence est activée
+ */
+export async function createTransport(connection: OdooConnection, options?: TransportOptions): Promise<OdooTransport> {
+  if (connection.fixture) {
+    return new ReplayTransport(connection, connection.fixture);
+  }
+
+  const transport = await createServerTransport(connection, options);
+  const { recordFixtures } = getPreferenceValues<Preferences>();
+  return recordFixtures ? new RecordingTransport(transport, connection) : transport;
+}
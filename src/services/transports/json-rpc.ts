@@ -0,0 +1,72 @@
+import { OdooConnection, OdooResponse, OdooVersionInfo } from "../../types";
+import { httpError, parseOdooException } from "../errors";
+import { OdooTransport, TransportOptions, getBaseUrl } from "./types";
+
+/**
+ * Transport JSON-RPC historique sur /jsonrpc
+ */
+export class JsonRpcTransport implements OdooTransport {
+  readonly protocol = "jsonrpc" as const;
+
+  constructor(private connection: OdooConnection) {}
+
+  private get apiUrl(): string {
+    return `${getBaseUrl(this.connection)}/jsonrpc`;
+  }
+
+  private async call<T>(service: string, method: string, args: unknown[], options: TransportOptions = {}): Promise<T> {
+    const requestBody = {
+      jsonrpc: "2.0",
+      method: "call",
+      params: { service, method, args },
+      id: Math.floor(Math.random() * 1000000),
+    };
+
+    const response = await fetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(requestBody),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw httpError(response.status);
+    }
+
+    const data = (await response.json()) as OdooResponse<T>;
+
+    if (data.error) {
+      throw parseOdooException(data.error.data?.name, data.error.data?.message || data.error.message);
+    }
+
+    return data.result as T;
+  }
+
+  version(options?: TransportOptions): Promise<OdooVersionInfo> {
+    return this.call<OdooVersionInfo>("common", "version", [], options);
+  }
+
+  listDatabases(options?: TransportOptions): Promise<string[]> {
+    return this.call<string[]>("db", "list", [], options);
+  }
+
+  async authenticate(options?: TransportOptions): Promise<number | null> {
+    const { database, userLogin, apiKey } = this.connection;
+    const uid = await this.call<number | false>("common", "login", [database, userLogin, apiKey], options);
+    return uid || null;
+  }
+
+  executeKw<T>(
+    uid: number,
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+    options?: TransportOptions,
+  ) {
+    const { database, apiKey } = this.connection;
+    return this.call<T>("object", "execute_kw", [database, uid, apiKey, model, method, args, kwargs], options);
+  }
+}
@@ -0,0 +1,108 @@
+import { OdooConnection, OdooVersionInfo } from "../../types";
+import { OdooServerError, httpError, parseOdooException } from "../errors";
+import { JsonRpcTransport } from "./json-rpc";
+import { OdooTransport, TransportOptions, getBaseUrl } from "./types";
+
+// L'API JSON-2 n'accepte que des paramètres nommés : noms des arguments positionnels par méthode
+const POSITIONAL_ARGS: Record<string, string[]> = {
+  search: ["domain"],
+  search_read: ["domain", "fields"],
+  search_count: ["domain"],
+  read: ["ids", "fields"],
+  write: ["ids", "vals"],
+  create: ["vals_list"],
+  unlink: ["ids"],
+  fields_get: ["allfields", "attributes"],
+  name_search: ["name", "domain", "operator", "limit"],
+  read_group: ["domain", "fields", "groupby"],
+  message_post: ["ids"],
+  check_access_rights: ["operation", "raise_exception"],
+  has_access: ["ids", "operation"],
+};
+
+interface Json2Error {
+  name?: string;
+  message?: string;
+}
+
+/**
+ * Transport JSON-2 (/json/2/<model>/<method>) avec clé API en bearer
+ */
+export class Json2Transport implements OdooTransport {
+  readonly protocol = "json2" as const;
+
+  constructor(private connection: OdooConnection) {}
+
+  private async call<T>(
+    model: string,
+    method: string,
+    params: Record<string, unknown>,
+    options: TransportOptions = {},
+  ): Promise<T> {
+    const response = await fetch(`${getBaseUrl(this.connection)}/json/2/${model}/${method}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `bearer ${this.connection.apiKey}`,
+        "X-Odoo-Database": this.connection.database,
+      },
+      body: JSON.stringify(params),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as Json2Error;
+      if (response.status === 401 || !error.message) {
+        throw httpError(response.status);
+      }
+      throw parseOdooException(error.name, error.message);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Les routes version et db.list n'existent qu'en JSON-RPC, disponible sur toutes les versions
+   */
+  version(options?: TransportOptions): Promise<OdooVersionInfo> {
+    return new JsonRpcTransport(this.connection).version(options);
+  }
+
+  listDatabases(options?: TransportOptions): Promise<string[]> {
+    return new JsonRpcTransport(this.connection).listDatabases(options);
+  }
+
+  async authenticate(options?: TransportOptions): Promise<number | null> {
+    // La clé API identifie l'utilisateur : le contexte donne son UID
+    const context = await this.call<{ uid?: number }>("res.users", "context_get", {}, options);
+    return context.uid || null;
+  }
+
+  async executeKw<T>(
+    _uid: number,
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+    options?: TransportOptions,
+  ) {
+    const names = POSITIONAL_ARGS[method];
+    if (!names && args.length > 0) {
+      throw new OdooServerError(`Method ${method} is not supported by the JSON-2 transport`);
+    }
+
+    const params: Record<string, unknown> = { ...kwargs };
+    args.forEach((arg, index) => {
+      params[names[index]] = arg;
+    });
+
+    // create attend une liste de valeurs en JSON-2 et renvoie une liste d'IDs
+    if (method === "create" && !Array.isArray(params.vals_list)) {
+      params.vals_list = [params.vals_list];
+      const ids = await this.call<number[]>(model, method, params, options);
+      return ids[0] as T;
+    }
+
+    return this.call<T>(model, method, params, options);
+  }
+}
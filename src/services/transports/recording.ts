@@ -0,0 +1,108 @@
+import { environment } from "@raycast/api";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { OdooConnection, OdooVersionInfo } from "../../types";
+import { OdooCancelledError, toOdooError } from "../errors";
+import { Fixture, FixtureExchange, serializeError } from "./fixtures";
+import { ConcreteProtocol, OdooTransport, TransportOptions, getBaseUrl } from "./types";
+
+/**
+ * Dossier des fixtures enregistrées, dans le dossier de support de l'extension
+ */
+export const getRecordingsPath = () => join(environment.supportPath, "recordings");
+
+// Les échanges d'une rafale (synchronisation, page de résultats) sont écrits ensemble
+const FLUSH_DELAY = 500;
+
+/**
+ * Enregistre les échanges d'un transport dans un fichier de fixtures, rejouable ensuite hors ligne.
+ * Seuls les appels et leurs réponses sont écrits : jamais la clé API ni le mot de passe.
+ */
+export class RecordingTransport implements OdooTransport {
+  readonly protocol: ConcreteProtocol;
+  readonly verifyCode?: (code: string, options?: TransportOptions) => Promise<number | null>;
+  private fixture: Fixture;
+  private path: string;
+  private saving: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private inner: OdooTransport,
+    connection: OdooConnection,
+  ) {
+    this.protocol = inner.protocol;
+    // La double authentification n'est pas rejouable : le code est transmis sans être enregistré
+    if (inner.verifyCode) {
+      this.verifyCode = (code, options) => inner.verifyCode!(code, options);
+    }
+
+    const recordedAt = new Date().toISOString();
+    this.fixture = {
+      connection: { odooUrl: getBaseUrl(connection), database: connection.database, userLogin: connection.userLogin },
+      recordedAt,
+      exchanges: [],
+    };
+    this.path = join(getRecordingsPath(), `${connection.database}-${recordedAt.replace(/[:.]/g, "-")}.json`);
+  }
+
+  /**
+   * Exécute l'appel et enregistre sa réponse ou son erreur ; les annulations ne sont pas des réponses du serveur
+   */
+  private async record<T>(exchange: Omit<FixtureExchange, "result" | "error">, run: () => Promise<T>): Promise<T> {
+    try {
+      const result = await run();
+      this.save({ ...exchange, result });
+      return result;
+    } catch (error) {
+      const odooError = toOdooError(error);
+      if (!(odooError instanceof OdooCancelledError)) {
+        this.save({ ...exchange, error: serializeError(odooError) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ajoute l'échange dans l'ordre des réponses ; le fichier est réécrit une fois la rafale terminée
+   */
+  private save(exchange: FixtureExchange): void {
+    this.fixture.exchanges.push(exchange);
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY);
+  }
+
+  private flush(): void {
+    this.flushTimer = null;
+    this.saving = this.saving
+      .then(async () => {
+        await mkdir(getRecordingsPath(), { recursive: true });
+        await writeFile(this.path, JSON.stringify(this.fixture, null, 2));
+      })
+      .catch(error => console.error("Cannot save recorded fixture:", error));
+  }
+
+  version(options?: TransportOptions): Promise<OdooVersionInfo> {
+    return this.record({ call: "version" }, () => this.inner.version(options));
+  }
+
+  listDatabases(options?: TransportOptions): Promise<string[]> {
+    return this.record({ call: "listDatabases" }, () => this.inner.listDatabases(options));
+  }
+
+  authenticate(options?: TransportOptions): Promise<number | null> {
+    return this.record({ call: "authenticate" }, () => this.inner.authenticate(options));
+  }
+
+  executeKw<T>(
+    uid: number,
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+    options?: TransportOptions,
+  ): Promise<T> {
+    return this.record({ call: "executeKw", model, method, args, kwargs }, () =>
+      this.inner.executeKw<T>(uid, model, method, args, kwargs, options),
+    );
+  }
+}
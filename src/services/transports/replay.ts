@@ -0,0 +1,116 @@
+import { OdooConnection, OdooVersionInfo } from "../../types";
+import { OdooAuthError, OdooCancelledError, OdooServerError } from "../errors";
+import { FixtureDatabase } from "./fixture-database";
+import { Fixture, FixtureExchange, getExchangeKey, loadFixture, reviveError } from "./fixtures";
+import { OdooTransport, TransportOptions } from "./types";
+
+interface ReplayState {
+  fixture: Fixture;
+  answers: Map<string, FixtureExchange[]>;
+  database: FixtureDatabase | null;
+}
+
+/**
+ * Transport hors ligne : rejoue les échanges d'un fichier de fixtures, sans aucun appel réseau.
+ * Les appels qui n'ont pas été enregistrés sont servis par la base simulée de la fixture, si elle en a une.
+ */
+export class ReplayTransport implements OdooTransport {
+  readonly protocol = "replay" as const;
+  private state: Promise<ReplayState> | null = null;
+  private served = new Map<string, number>();
+
+  constructor(
+    private connection: OdooConnection,
+    private path: string,
+  ) {}
+
+  private getState(): Promise<ReplayState> {
+    if (!this.state) {
+      this.state = loadFixture(this.path).then(fixture => {
+        const answers = new Map<string, FixtureExchange[]>();
+        for (const exchange of fixture.exchanges) {
+          const key = getExchangeKey(exchange);
+          answers.set(key, [...(answers.get(key) || []), exchange]);
+        }
+        return { fixture, answers, database: null };
+      });
+    }
+    return this.state;
+  }
+
+  /**
+   * Réponse enregistrée pour un appel : les appels répétés sont servis dans l'ordre, la dernière réponse ensuite
+   */
+  private async replay(
+    exchange: Omit<FixtureExchange, "result" | "error">,
+    options: TransportOptions = {},
+  ): Promise<{ found: boolean; result?: unknown }> {
+    if (options.signal?.aborted) throw new OdooCancelledError();
+
+    const { answers } = await this.getState();
+    const key = getExchangeKey(exchange);
+    const recorded = answers.get(key);
+    if (!recorded) return { found: false };
+
+    const index = this.served.get(key) || 0;
+    this.served.set(key, index + 1);
+    const answer = recorded[Math.min(index, recorded.length - 1)];
+    if (answer.error) throw reviveError(answer.error);
+    return { found: true, result: answer.result };
+  }
+
+  /**
+   * Base simulée, créée au premier appel non enregistré pour l'utilisateur connecté
+   */
+  private async getDatabase(uid: number): Promise<FixtureDatabase | null> {
+    const state = await this.getState();
+    if (!state.database && state.fixture.records) {
+      state.database = new FixtureDatabase(state.fixture, uid);
+    }
+    return state.database;
+  }
+
+  async version(options?: TransportOptions): Promise<OdooVersionInfo> {
+    const { found, result } = await this.replay({ call: "version" }, options);
+    if (!found) {
+      throw new OdooServerError("The fixture does not contain the server version");
+    }
+    return result as OdooVersionInfo;
+  }
+
+  async listDatabases(options?: TransportOptions): Promise<string[]> {
+    const { found, result } = await this.replay({ call: "listDatabases" }, options);
+    return found ? (result as string[]) : [this.connection.database];
+  }
+
+  async authenticate(options?: TransportOptions): Promise<number | null> {
+    const { found, result } = await this.replay({ call: "authenticate" }, options);
+    if (found) return result as number | null;
+
+    // Sans connexion enregistrée, l'utilisateur est retrouvé par son identifiant dans la base simulée
+    const { fixture } = await this.getState();
+    const user = fixture.records?.["res.users"]?.find(item => item.login === this.connection.userLogin);
+    if (!user) {
+      throw new OdooAuthError(`The fixture has no user with login ${this.connection.userLogin}`);
+    }
+    return user.id;
+  }
+
+  async executeKw<T>(
+    uid: number,
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+    options?: TransportOptions,
+  ): Promise<T> {
+    const { found, result } = await this.replay({ call: "executeKw", model, method, args, kwargs }, options);
+    if (found) return result as T;
+
+    const database = await this.getDatabase(uid);
+    if (!database) {
+      throw new OdooServerError(`No recorded answer for ${model}.${method}`);
+    }
+    return database.execute(model, method, args, kwargs) as T;
+  }
+}
@@ -0,0 +1,173 @@
+import { OdooConnection, OdooResponse, OdooVersionInfo } from "../../types";
+import { OdooAuthError, OdooServerError, OdooTwoFactorError, httpError, parseOdooException } from "../errors";
+import { SessionCookies, getSessionCookies, saveSessionCookies } from "../session";
+import { JsonRpcTransport } from "./json-rpc";
+import { OdooTransport, TransportOptions, getBaseUrl } from "./types";
+
+interface SessionInfo {
+  uid: number | false | null; // null : mot de passe accepté, code de double authentification attendu
+}
+
+const SESSION_COOKIES = ["session_id", "td_id"] as const;
+
+/**
+ * Transport par session web (/web/session/authenticate) : mot de passe au lieu d'une clé API,
+ * appels ORM sur /web/dataset/call_kw avec le cookie de session
+ */
+export class SessionTransport implements OdooTransport {
+  readonly protocol = "session" as const;
+  private cookies: Promise<SessionCookies> | null = null;
+
+  constructor(private connection: OdooConnection) {}
+
+  private get baseUrl(): string {
+    return getBaseUrl(this.connection);
+  }
+
+  private getCookies(): Promise<SessionCookies> {
+    if (!this.cookies) {
+      this.cookies = getSessionCookies(this.connection);
+    }
+    return this.cookies;
+  }
+
+  private async getCookieHeader(): Promise<string> {
+    const cookies = await this.getCookies();
+    return SESSION_COOKIES.filter(name => cookies[name])
+      .map(name => `${name}=${cookies[name]}`)
+      .join("; ");
+  }
+
+  /**
+   * Conserve les cookies renvoyés par le serveur : session ouverte ou renouvelée, appareil de confiance
+   */
+  private async storeCookies(response: Response): Promise<void> {
+    const updates: SessionCookies = {};
+    for (const header of response.headers.getSetCookie()) {
+      const [pair] = header.split(";");
+      const [name, ...value] = pair.split("=");
+      if (SESSION_COOKIES.includes(name.trim() as (typeof SESSION_COOKIES)[number])) {
+        updates[name.trim() as keyof SessionCookies] = value.join("=");
+      }
+    }
+    if (Object.keys(updates).length === 0) return;
+
+    const cookies = { ...(await this.getCookies()), ...updates };
+    this.cookies = Promise.resolve(cookies);
+    await saveSessionCookies(this.connection, cookies);
+  }
+
+  private async call<T>(path: string, params: Record<string, unknown>, options: TransportOptions = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Cookie": await this.getCookieHeader(),
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", method: "call", params, id: Math.floor(Math.random() * 1000000) }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw httpError(response.status);
+    }
+    await this.storeCookies(response);
+
+    const data = (await response.json()) as OdooResponse<T>;
+    if (data.error) {
+      throw parseOdooException(data.error.data?.name, data.error.data?.message || data.error.message);
+    }
+    return data.result as T;
+  }
+
+  version(options?: TransportOptions): Promise<OdooVersionInfo> {
+    return new JsonRpcTransport(this.connection).version(options);
+  }
+
+  listDatabases(options?: TransportOptions): Promise<string[]> {
+    return new JsonRpcTransport(this.connection).listDatabases(options);
+  }
+
+  /**
+   * Reprend la session enregistrée si elle est encore ouverte, sinon se connecte avec le mot de passe
+   * @throws {OdooTwoFactorError} si le compte attend un code et que cet appareil n'est pas de confiance
+   */
+  async authenticate(options?: TransportOptions): Promise<number | null> {
+    if ((await this.getCookies()).session_id) {
+      try {
+        const info = await this.call<SessionInfo>("/web/session/get_session_info", {}, options);
+        if (info.uid) return info.uid;
+      } catch (error) {
+        // Session expirée : une nouvelle connexion suit
+        if (!(error instanceof OdooAuthError)) throw error;
+      }
+    }
+
+    const { database, userLogin, apiKey } = this.connection;
+    const info = await this.call<SessionInfo>(
+      "/web/session/authenticate",
+      { db: database, login: userLogin, password: apiKey },
+      options,
+    );
+    if (info.uid === null) {
+      throw new OdooTwoFactorError("This account uses two-factor authentication. Enter a code from your app.");
+    }
+    return info.uid || null;
+  }
+
+  /**
+   * Envoie le code du formulaire /web/login/totp en demandant à faire confiance à cet appareil,
+   * pour que les reconnexions suivantes n'en redemandent pas
+   */
+  async verifyCode(code: string, options: TransportOptions = {}): Promise<number | null> {
+    const url = `${this.baseUrl}/web/login/totp`;
+    const page = await fetch(url, {
+      headers: { Cookie: await this.getCookieHeader() },
+      redirect: "manual",
+      signal: options.signal,
+    });
+    if (page.status >= 300 && page.status < 400) {
+      throw new OdooAuthError("The sign-in attempt has expired. Please sign in again.");
+    }
+    if (!page.ok) {
+      throw httpError(page.status);
+    }
+    await this.storeCookies(page);
+
+    const csrfToken = (await page.text()).match(/name="csrf_token"\s+value="([^"]+)"/)?.[1];
+    if (!csrfToken) {
+      throw new OdooServerError("The two-factor authentication form was not found on this server");
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "Cookie": await this.getCookieHeader(),
+      },
+      body: new URLSearchParams({ csrf_token: csrfToken, totp_token: code, remember: "1" }).toString(),
+      redirect: "manual",
+      signal: options.signal,
+    });
+    await this.storeCookies(response);
+
+    // Un code refusé réaffiche le formulaire au lieu de rediriger vers l'application
+    if (response.status < 300 || response.status >= 400) {
+      throw new OdooAuthError("Invalid authentication code");
+    }
+
+    const info = await this.call<SessionInfo>("/web/session/get_session_info", {}, options);
+    return info.uid || null;
+  }
+
+  executeKw<T>(
+    _uid: number,
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+    options?: TransportOptions,
+  ) {
+    return this.call<T>(`/web/dataset/call_kw/${model}/${method}`, { model, method, args, kwargs }, options);
+  }
+}
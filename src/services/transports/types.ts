@@ -0,0 +1,45 @@
+import { OdooConnection, OdooProtocol, OdooVersionInfo } from "../../types";
+
+// "session" et "replay" ne sont pas des choix de protocole : ils découlent de la connexion
+// (mot de passe, fichier de fixtures)
+export type ConcreteProtocol = Exclude<OdooProtocol, "auto"> | "session" | "replay";
+
+/**
+ * Options d'un appel HTTP : le signal interrompt la requête (délai dépassé, recherche remplacée)
+ */
+export interface TransportOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Couche de transport vers une instance Odoo : chaque protocole implémente l'authentification et les appels ORM
+ */
+export interface OdooTransport {
+  readonly protocol: ConcreteProtocol;
+
+  /** Version du serveur (common.version) */
+  version(options?: TransportOptions): Promise<OdooVersionInfo>;
+
+  /** Bases de données de l'instance (db.list), refusé si list_db est désactivé */
+  listDatabases(options?: TransportOptions): Promise<string[]>;
+
+  /** Retourne l'UID de l'utilisateur, ou null si les identifiants sont refusés */
+  authenticate(options?: TransportOptions): Promise<number | null>;
+
+  /** Appelle une méthode de modèle, équivalent de object.execute_kw */
+  executeKw<T>(
+    uid: number,
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+    options?: TransportOptions,
+  ): Promise<T>;
+
+  /** Termine une connexion qui attend un code de double authentification, retourne l'UID */
+  verifyCode?(code: string, options?: TransportOptions): Promise<number | null>;
+}
+
+export type TransportFactory = (connection: OdooConnection) => OdooTransport;
+
+export const getBaseUrl = (connection: OdooConnection) => connection.odooUrl.replace(/\/$/, "");
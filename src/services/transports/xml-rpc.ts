@@ -0,0 +1,195 @@
+import { OdooConnection, OdooVersionInfo } from "../../types";
+import { OdooServerError, httpError, parseOdooException } from "../errors";
+import { OdooTransport, TransportOptions, getBaseUrl } from "./types";
+
+interface XmlNode {
+  name: string;
+  children: XmlNode[];
+  text: string;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Sérialise une valeur JavaScript en <value> XML-RPC
+ */
+function encodeValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "<value><nil/></value>";
+  }
+  if (typeof value === "boolean") {
+    return `<value><boolean>${value ? 1 : 0}</boolean></value>`;
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? `<value><int>${value}</int></value>` : `<value><double>${value}</double></value>`;
+  }
+  if (typeof value === "string") {
+    return `<value><string>${escapeXml(value)}</string></value>`;
+  }
+  if (value instanceof Date) {
+    return `<value><dateTime.iso8601>${value.toISOString().replace(/\.\d{3}Z$/, "")}</dateTime.iso8601></value>`;
+  }
+  if (Array.isArray(value)) {
+    return `<value><array><data>${value.map(encodeValue).join("")}</data></array></value>`;
+  }
+  const members = Object.entries(value as Record<string, unknown>)
+    .map(([name, member]) => `<member><name>${escapeXml(name)}</name>${encodeValue(member)}</member>`)
+    .join("");
+  return `<value><struct>${members}</struct></value>`;
+}
+
+export function encodeMethodCall(method: string, params: unknown[]): string {
+  const encodedParams = params.map(param => `<param>${encodeValue(param)}</param>`).join("");
+  return `<?xml version="1.0"?><methodCall><methodName>${escapeXml(method)}</methodName><params>${encodedParams}</params></methodCall>`;
+}
+
+/**
+ * Analyse minimale du XML renvoyé par Odoo (pas d'attributs ni de CDATA dans les réponses XML-RPC)
+ */
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: "#root", children: [], text: "" };
+  const stack: XmlNode[] = [root];
+  const pattern = /<(\/?)([\w.:-]+)[^>]*?(\/?)>|([^<]+)/g;
+
+  for (const match of xml.replace(/<\?[^>]*\?>/g, "").matchAll(pattern)) {
+    const [, closing, name, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+    if (text !== undefined) {
+      current.text += text;
+    } else if (closing) {
+      stack.pop();
+    } else {
+      const node: XmlNode = { name, children: [], text: "" };
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+  return root;
+}
+
+const child = (node: XmlNode | undefined, name: string) => node?.children.find(item => item.name === name);
+
+/**
+ * Convertit un nœud <value> en valeur JavaScript
+ */
+function decodeValue(node: XmlNode): unknown {
+  const typed = node.children[0];
+  if (!typed) return unescapeXml(node.text);
+
+  switch (typed.name) {
+    case "int":
+    case "i4":
+    case "i8":
+      return parseInt(typed.text, 10);
+    case "double":
+      return parseFloat(typed.text);
+    case "boolean":
+      return typed.text.trim() === "1";
+    case "nil":
+      return null;
+    case "array":
+      return (child(typed, "data")?.children || []).map(decodeValue);
+    case "struct": {
+      const result: Record<string, unknown> = {};
+      for (const member of typed.children) {
+        const name = child(member, "name");
+        const value = child(member, "value");
+        if (name && value) result[unescapeXml(name.text)] = decodeValue(value);
+      }
+      return result;
+    }
+    default:
+      return unescapeXml(typed.text);
+  }
+}
+
+export function decodeMethodResponse<T>(xml: string): T {
+  const response = child(parseXml(xml), "methodResponse");
+  const fault = child(response, "fault");
+  if (fault) {
+    const value = child(fault, "value");
+    const { faultCode, faultString = "" } = (value ? decodeValue(value) : {}) as {
+      faultCode?: number | string;
+      faultString?: string;
+    };
+    // faultString contient la trace Python, dont la dernière ligne est "<exception>: <message>"
+    const lastLine = faultString.trim().split("\n").pop() || "";
+    const match = lastLine.match(/^([\w.]+): ([\s\S]*)$/);
+    const message = typeof faultCode === "string" && faultCode ? faultCode : match?.[2] || faultString;
+    throw parseOdooException(match?.[1], message || "XML-RPC fault");
+  }
+
+  const value = child(child(child(response, "params"), "param"), "value");
+  if (!value) {
+    throw new OdooServerError("Invalid XML-RPC response");
+  }
+  return decodeValue(value) as T;
+}
+
+/**
+ * Transport XML-RPC sur /xmlrpc/2/common et /xmlrpc/2/object
+ */
+export class XmlRpcTransport implements OdooTransport {
+  readonly protocol = "xmlrpc" as const;
+
+  constructor(private connection: OdooConnection) {}
+
+  private async call<T>(
+    endpoint: "common" | "object" | "db",
+    method: string,
+    params: unknown[],
+    options: TransportOptions = {},
+  ): Promise<T> {
+    const response = await fetch(`${getBaseUrl(this.connection)}/xmlrpc/2/${endpoint}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "text/xml",
+      },
+      body: encodeMethodCall(method, params),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw httpError(response.status);
+    }
+
+    return decodeMethodResponse<T>(await response.text());
+  }
+
+  version(options?: TransportOptions): Promise<OdooVersionInfo> {
+    return this.call<OdooVersionInfo>("common", "version", [], options);
+  }
+
+  listDatabases(options?: TransportOptions): Promise<string[]> {
+    return this.call<string[]>("db", "list", [], options);
+  }
+
+  async authenticate(options?: TransportOptions): Promise<number | null> {
+    const { database, userLogin, apiKey } = this.connection;
+    const uid = await this.call<number | false>("common", "authenticate", [database, userLogin, apiKey, {}], options);
+    return uid || null;
+  }
+
+  executeKw<T>(
+    uid: number,
+    model: string,
+    method: string,
+    args: unknown[],
+    kwargs: Record<string, unknown>,
+    options?: TransportOptions,
+  ) {
+    const { database, apiKey } = this.connection;
+    return this.call<T>("object", "execute_kw", [database, uid, apiKey, model, method, args, kwargs], options);
+  }
+}
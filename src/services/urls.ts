@@ -0,0 +1,165 @@
+import { OdooVersionInfo } from "../types";
+import { PersistentCache } from "./cache";
+import { OdooService } from "./odoo";
+
+export type ViewType = "form" | "list" | "kanban";
+
+// Actions standard, identiques d'une base à l'autre contrairement à leurs IDs
+export const ACTIONS = {
+  projectTasks: "project.act_project_project_2_project_task_all",
+  teamTickets: "helpdesk.helpdesk_ticket_action_team",
+  discuss: "mail.action_discuss",
+} as const;
+
+/**
+ * Action à résoudre : par identifiant XML, sinon première action de fenêtre du modèle
+ */
+export interface ActionTarget {
+  model: string;
+  xmlid?: string;
+}
+
+export interface Routing {
+  modern: boolean; // Routes /odoo/... (Odoo 17.2+), sinon /web#...
+  actions: Record<string, number>; // ID d'action par identifiant XML ou modèle
+}
+
+const ROUTING_KEY = "url-routing";
+
+const getTargetKey = (target: ActionTarget) => target.xmlid || target.model;
+
+/**
+ * Les routes /odoo/... remplacent /web# à partir de la 17.2 (saas~17.2, puis 18.0)
+ */
+export function usesModernRoutes(version: OdooVersionInfo): boolean {
+  const [major, minor] = version.server_version_info || [];
+  const majorNumber = parseInt(String(major).replace(/^saas~/, ""), 10);
+  const minorNumber = Number(minor) || 0;
+  return majorNumber > 17 || (majorNumber === 17 && minorNumber >= 2);
+}
+
+/**
+ * Construit les liens vers une instance selon sa version et les IDs d'action de sa base
+ */
+export class OdooUrlBuilder {
+  constructor(
+    private baseUrl: string,
+    private routing: Routing = { modern: false, actions: {} },
+  ) {}
+
+  private getAction(target: ActionTarget): number | undefined {
+    return this.routing.actions[getTargetKey(target)] ?? this.routing.actions[target.model];
+  }
+
+  /**
+   * Formulaire d'un enregistrement
+   */
+  record(model: string, id: number): string {
+    if (this.routing.modern) {
+      return `${this.baseUrl}/odoo/${model}/${id}`;
+    }
+    return `${this.baseUrl}/web#id=${id}&model=${model}&view_type=form`;
+  }
+
+  /**
+   * Vue multi-enregistrements (liste, kanban) d'un modèle, éventuellement filtrée par l'enregistrement parent
+   */
+  view(target: ActionTarget, viewType: Exclude<ViewType, "form">, activeId?: number): string {
+    const action = this.getAction(target);
+
+    if (this.routing.modern) {
+      const path = action ? `action-${action}` : target.model;
+      const params = new URLSearchParams({ view_type: viewType });
+      if (activeId) params.set("active_id", String(activeId));
+      return `${this.baseUrl}/odoo/${path}?${params.toString()}`;
+    }
+
+    const params = new URLSearchParams({ model: target.model, view_type: viewType });
+    if (action) params.set("action", String(action));
+    if (activeId) params.set("active_id", String(activeId));
+    return `${this.baseUrl}/web#${params.toString()}`;
+  }
+
+  projectTasks(projectId: number): string {
+    return this.view({ model: "project.task", xmlid: ACTIONS.projectTasks }, "kanban", projectId);
+  }
+
+  teamTickets(teamId: number): string {
+    return this.view({ model: "helpdesk.ticket", xmlid: ACTIONS.teamTickets }, "kanban", teamId);
+  }
+
+  discuss(): string {
+    const action = this.getAction({ model: "mail.message", xmlid: ACTIONS.discuss });
+    if (this.routing.modern) {
+      return `${this.baseUrl}/odoo/discuss`;
+    }
+    return `${this.baseUrl}/web#action=${action || ACTIONS.discuss}`;
+  }
+}
+
+/**
+ * ID d'une action par son identifiant XML (ir.model.data), sinon première action de fenêtre du modèle
+ */
+async function resolveAction(odooService: OdooService, target: ActionTarget): Promise<number | null> {
+  if (target.xmlid) {
+    const [module, name] = target.xmlid.split(".");
+    const [data] = await odooService.searchRead<{ res_id: number }>(
+      "ir.model.data",
+      [
+        ["module", "=", module],
+        ["name", "=", name],
+        ["model", "=", "ir.actions.act_window"],
+      ],
+      { fields: ["res_id"], limit: 1 },
+    );
+    if (data) return data.res_id;
+  }
+
+  const [action] = await odooService.searchRead<{ id: number }>(
+    "ir.actions.act_window",
+    [["res_model", "=", target.model]],
+    { fields: ["id"], limit: 1 },
+  );
+  return action?.id ?? null;
+}
+
+/**
+ * Derniers paramètres de routage connus, sans requête réseau
+ */
+export function peekRouting(odooService: OdooService): Routing | null {
+  return new PersistentCache(odooService.connection).get<Routing>(ROUTING_KEY)?.data || null;
+}
+
+/**
+ * Détecte la version et résout les actions manquantes, en réutilisant le cache tant qu'il est frais
+ */
+export async function loadRouting(odooService: OdooService, targets: ActionTarget[]): Promise<Routing> {
+  const cache = new PersistentCache(odooService.connection);
+  const cached = cache.get<Routing>(ROUTING_KEY);
+  const missing = targets.filter(target => !(getTargetKey(target) in (cached?.data.actions || {})));
+  if (cached && !cached.isStale && missing.length === 0) {
+    return cached.data;
+  }
+
+  const version = await odooService.version();
+  const routing: Routing = {
+    modern: usesModernRoutes(version),
+    actions: { ...(cached?.data.actions || {}) },
+  };
+
+  const toResolve = cached && !cached.isStale ? missing : targets;
+  await Promise.all(
+    toResolve.map(async target => {
+      try {
+        // 0 mémorise une action introuvable, pour ne pas la rechercher à chaque ouverture
+        routing.actions[getTargetKey(target)] = (await resolveAction(odooService, target)) ?? 0;
+      } catch (error) {
+        // Module absent ou droits insuffisants : le lien retombe sur le modèle seul
+        console.error(`Cannot resolve action for ${getTargetKey(target)}:`, error);
+      }
+    }),
+  );
+
+  cache.set(ROUTING_KEY, "ir.actions.act_window", routing);
+  return routing;
+}
@@ -0,0 +1,95 @@
+import { LocalStorage } from "@raycast/api";
+import { OdooConnection } from "../types";
+import { getConnectionNamespace } from "./cache";
+
+const MAX_VISITS = 50; // Par modèle, les moins fréquents sont oubliés au-delà
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface UsageRecord {
+  id: number;
+}
+
+interface Visit<T> {
+  record: T; // Dernière version connue, pour l'affichage avant la réponse du serveur
+  count: number;
+  lastVisitedAt: string; // ISO 8601
+}
+
+export interface ModelUsage<T> {
+  pinned: T[]; // Dans l'ordre d'épinglage
+  visits: Record<number, Visit<T>>;
+}
+
+const emptyUsage = <T>(): ModelUsage<T> => ({ pinned: [], visits: {} });
+
+// Épingles et visites propres à une instance / base / utilisateur
+const getUsageKey = (connection: OdooConnection, model: string) =>
+  `usage-${getConnectionNamespace(connection)}-${model}`;
+
+// Les descriptions HTML peuvent être volumineuses : le serveur les fournit à nouveau au chargement
+const toSnapshot = <T extends UsageRecord>(record: T): T => ({ ...record, description: undefined });
+
+export async function getModelUsage<T extends UsageRecord>(
+  connection: OdooConnection,
+  model: string,
+): Promise<ModelUsage<T>> {
+  const raw = await LocalStorage.getItem<string>(getUsageKey(connection, model));
+  return raw ? (JSON.parse(raw) as ModelUsage<T>) : emptyUsage<T>();
+}
+
+async function saveModelUsage<T>(connection: OdooConnection, model: string, usage: ModelUsage<T>): Promise<void> {
+  await LocalStorage.setItem(getUsageKey(connection, model), JSON.stringify(usage));
+}
+
+/**
+ * Score de fréquence pondéré par l'ancienneté de la dernière visite (à la manière de Firefox)
+ */
+export function getFrecency(visit: Visit<unknown> | undefined, now = Date.now()): number {
+  if (!visit) return 0;
+
+  const age = now - new Date(visit.lastVisitedAt).getTime();
+  const weight = age < DAY ? 100 : age < 7 * DAY ? 70 : age < 30 * DAY ? 50 : age < 90 * DAY ? 30 : 10;
+  return visit.count * weight;
+}
+
+export async function togglePin<T extends UsageRecord>(
+  connection: OdooConnection,
+  model: string,
+  record: T,
+): Promise<ModelUsage<T>> {
+  const usage = await getModelUsage<T>(connection, model);
+  const isPinned = usage.pinned.some(item => item.id === record.id);
+  usage.pinned = isPinned ? usage.pinned.filter(item => item.id !== record.id) : [...usage.pinned, toSnapshot(record)];
+
+  await saveModelUsage(connection, model, usage);
+  return usage;
+}
+
+/**
+ * Enregistre l'ouverture d'un enregistrement, pour la section Récents et le classement par frécence
+ */
+export async function recordVisit<T extends UsageRecord>(
+  connection: OdooConnection,
+  model: string,
+  record: T,
+): Promise<ModelUsage<T>> {
+  const usage = await getModelUsage<T>(connection, model);
+  const previous = usage.visits[record.id];
+  usage.visits[record.id] = {
+    record: toSnapshot(record),
+    count: (previous?.count || 0) + 1,
+    lastVisitedAt: new Date().toISOString(),
+  };
+
+  const ids = Object.keys(usage.visits).map(Number);
+  if (ids.length > MAX_VISITS) {
+    const now = Date.now();
+    ids
+      .sort((a, b) => getFrecency(usage.visits[b], now) - getFrecency(usage.visits[a], now))
+      .slice(MAX_VISITS)
+      .forEach(id => delete usage.visits[id]);
+  }
+
+  await saveModelUsage(connection, model, usage);
+  return usage;
+}
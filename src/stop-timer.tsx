@@ -0,0 +1,48 @@
+import { Action, ActionPanel, Icon, LaunchType, List, launchCommand, popToRoot } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useState, useEffect } from "react";
+import { TimesheetForm } from "./components/timesheet-form";
+import { getRunningTimer } from "./services/timer";
+import { RunningTimer } from "./types";
+
+export default function StopTimer() {
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getRunningTimer()
+      .then(setTimer)
+      .catch(error => showFailureToast(error, { title: "Could not read the running timer" }))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  if (timer) {
+    return <TimesheetForm timer={timer} onLogged={() => popToRoot({ clearSearchBar: true })} />;
+  }
+
+  return (
+    <List isLoading={isLoading}>
+      {!isLoading && (
+        <List.EmptyView
+          icon={Icon.Clock}
+          title="No running timer"
+          description="Start a timer from a task or ticket with the Start Timer action."
+          actions={
+            <ActionPanel>
+              <Action
+                title="Search Tasks"
+                icon={Icon.List}
+                onAction={() => launchCommand({ name: "search-tasks", type: LaunchType.UserInitiated })}
+              />
+              <Action
+                title="Search Helpdesk Tickets"
+                icon={Icon.List}
+                onAction={() => launchCommand({ name: "search-tickets", type: LaunchType.UserInitiated })}
+              />
+            </ActionPanel>
+          }
+        />
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,75 @@
+import { Icon, LaunchType, MenuBarExtra, launchCommand, open, showHUD } from "@raycast/api";
+import { useState, useEffect } from "react";
+import { toOdooError } from "./services/errors";
+import { getOdooService, getProfile } from "./services/profiles";
+import { clearTimer, getElapsedHours, getRunningTimer } from "./services/timer";
+import { getBaseUrl } from "./services/transports";
+import { OdooUrlBuilder, loadRouting } from "./services/urls";
+import { RunningTimer } from "./types";
+import { formatDuration } from "./utils/date";
+
+export default function TimerMenuBar() {
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getRunningTimer()
+      .then(setTimer)
+      .catch(error => console.error("Error reading the running timer:", error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Un menu bar n'affiche pas les toasts : les échecs sont signalés par un HUD
+  const openRecord = async (running: RunningTimer) => {
+    try {
+      const profile = await getProfile(running.profileId);
+      if (!profile) {
+        await showHUD("The timer's connection profile no longer exists");
+        return;
+      }
+      const odooService = getOdooService(profile);
+      const routing = await loadRouting(odooService, []).catch(() => undefined);
+      await open(new OdooUrlBuilder(getBaseUrl(profile), routing).record(running.model, running.recordId));
+    } catch (error) {
+      console.error("Error opening the timer record:", error);
+      await showHUD(`Could not open ${running.recordName}: ${toOdooError(error).message}`);
+    }
+  };
+
+  const discard = async () => {
+    await clearTimer();
+    setTimer(null);
+    await showHUD("Timer discarded");
+  };
+
+  const openTimesheets = () => launchCommand({ name: "my-timesheets", type: LaunchType.UserInitiated });
+
+  if (!timer) {
+    return (
+      <MenuBarExtra icon={Icon.Clock} tooltip="No running Odoo timer" isLoading={isLoading}>
+        <MenuBarExtra.Item title="No running timer" />
+        <MenuBarExtra.Item title="My Timesheets This Week" icon={Icon.Calendar} onAction={openTimesheets} />
+      </MenuBarExtra>
+    );
+  }
+
+  const elapsed = formatDuration(getElapsedHours(timer));
+
+  return (
+    <MenuBarExtra icon={Icon.Stopwatch} title={elapsed} tooltip={timer.recordName} isLoading={isLoading}>
+      <MenuBarExtra.Section title={`Running since ${new Date(timer.startedAt).toLocaleTimeString()}`}>
+        <MenuBarExtra.Item title={timer.recordName} icon={Icon.Globe} onAction={() => openRecord(timer)} />
+      </MenuBarExtra.Section>
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Stop & Log…"
+          icon={Icon.Clock}
+          shortcut={{ modifiers: ["cmd"], key: "s" }}
+          onAction={() => launchCommand({ name: "stop-timer", type: LaunchType.UserInitiated })}
+        />
+        <MenuBarExtra.Item title="Discard Timer" icon={Icon.Trash} onAction={discard} />
+        <MenuBarExtra.Item title="My Timesheets This Week" icon={Icon.Calendar} onAction={openTimesheets} />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -0,0 +1,69 @@
+import { Tool } from "@raycast/api";
+import { describeTask, findProject, getToolContext } from "../services/ai";
+import { textToHtml } from "../utils/html";
+
+type Input = {
+  /**
+   * Name of the project to create the task in.
+   */
+  project: string;
+  /**
+   * Title of the task.
+   */
+  name: string;
+  /**
+   * Optional plain-text description of the task.
+   */
+  description?: string;
+  /**
+   * Assign the task to the current user.
+   */
+  assignToMe?: boolean;
+  /**
+   * Optional deadline formatted as YYYY-MM-DD.
+   */
+  deadline?: string;
+  /**
+   * Mark the task as high priority.
+   */
+  highPriority?: boolean;
+};
+
+/**
+ * Create a task in an Odoo project. The user confirms the task before it is created.
+ */
+export default async function tool(input: Input) {
+  const context = await getToolContext();
+  const project = await findProject(context.odooService, input.project);
+
+  const values: Record<string, unknown> = {
+    name: input.name.trim(),
+    project_id: project.id,
+    priority: input.highPriority ? "1" : "0",
+    ...(input.deadline ? { date_deadline: input.deadline } : {}),
+    ...(input.assignToMe ? { user_ids: [[6, 0, [context.uid]]] } : {}),
+    ...(input.description?.trim() ? { description: textToHtml(input.description.trim()) } : {}),
+  };
+  const id = await context.odooService.create("project.task", values);
+
+  return describeTask(
+    { id, name: values.name as string, display_name: values.name as string, project_id: [project.id, project.name] },
+    context,
+  );
+}
+
+export const confirmation: Tool.Confirmation<Input> = async input => {
+  const { odooService } = await getToolContext();
+  const project = await findProject(odooService, input.project);
+  return {
+    message: "Create this task in Odoo?",
+    info: [
+      { name: "Project", value: project.name },
+      { name: "Task", value: input.name },
+      { name: "Description", value: input.description },
+      { name: "Assigned to", value: input.assignToMe ? "Me" : undefined },
+      { name: "Deadline", value: input.deadline },
+      { name: "Priority", value: input.highPriority ? "High" : undefined },
+    ],
+  };
+};
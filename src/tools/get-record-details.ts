@@ -0,0 +1,78 @@
+import {
+  RECORD_MODELS,
+  RecordType,
+  describePartner,
+  describeProject,
+  describeTask,
+  describeTicket,
+  getAssigneeNames,
+  getToolContext,
+  readRecord,
+  textOf,
+} from "../services/ai";
+import { fetchRelations } from "../services/relations";
+import { HelpdeskTicket, OdooPartner, Project, Task } from "../types";
+
+type Input = {
+  /**
+   * Kind of record to read.
+   */
+  recordType: RecordType;
+  /**
+   * Numeric ID of the record, as returned by the search tools.
+   */
+  id: number;
+};
+
+/**
+ * Read one task, ticket, project or contact with its description, latest chatter messages, followers and subtasks.
+ * Use it to summarize a record or answer questions about its history.
+ */
+export default async function tool(input: Input) {
+  const context = await getToolContext();
+  const { odooService } = context;
+
+  const describe = async () => {
+    switch (input.recordType) {
+      case "task": {
+        const task = await readRecord<Task>(odooService, "task", input.id);
+        return {
+          ...describeTask(task, context, await getAssigneeNames(odooService, [task])),
+          description: textOf(task.description),
+        };
+      }
+      case "ticket": {
+        const ticket = await readRecord<HelpdeskTicket>(odooService, "ticket", input.id);
+        return { ...describeTicket(ticket, context), description: textOf(ticket.description) };
+      }
+      case "project": {
+        const project = await readRecord<Project>(odooService, "project", input.id);
+        return { ...describeProject(project, context), description: textOf(project.description) };
+      }
+      case "partner":
+        return describePartner(await readRecord<OdooPartner>(odooService, "partner", input.id), context);
+    }
+  };
+
+  const [record, relations] = await Promise.all([
+    describe(),
+    fetchRelations(odooService, RECORD_MODELS[input.recordType].model, input.id),
+  ]);
+
+  return {
+    ...record,
+    followers: relations.followers,
+    attachments: relations.attachments.map(attachment => attachment.name),
+    subtasks: relations.subtasks.map(subtask => ({
+      id: subtask.id,
+      name: subtask.name,
+      stage: subtask.stage_id ? subtask.stage_id[1] : undefined,
+    })),
+    latestMessages: relations.messages.map(message => ({
+      author: message.author_id ? message.author_id[1] : undefined,
+      date: message.date,
+      subject: message.subject || undefined,
+      body: textOf(message.body),
+    })),
+  };
+}
@@ -0,0 +1,41 @@
+import { Tool } from "@raycast/api";
+import { RECORD_MODELS, getToolContext, readRecord } from "../services/ai";
+import { textToHtml } from "../utils/html";
+
+type Input = {
+  /**
+   * Kind of record to post the note on.
+   */
+  recordType: "task" | "ticket";
+  /**
+   * Numeric ID of the task or ticket, as returned by the search tools.
+   */
+  id: number;
+  /**
+   * Plain-text content of the internal note. It is only visible to internal users, customers are not notified.
+   */
+  note: string;
+};
+
+/**
+ * Post an internal note in the chatter of a task or ticket. The user confirms the note before it is posted.
+ */
+export default async function tool(input: Input) {
+  const { odooService, urls } = await getToolContext();
+  const { model } = RECORD_MODELS[input.recordType];
+
+  const messageId = await odooService.postNote(model, input.id, textToHtml(input.note.trim()));
+  return { messageId, url: urls.record(model, input.id) };
+}
+
+export const confirmation: Tool.Confirmation<Input> = async input => {
+  const { odooService } = await getToolContext();
+  const record = await readRecord<{ name: string }>(odooService, input.recordType, input.id);
+  return {
+    message: `Post this internal note on the ${input.recordType}?`,
+    info: [
+      { name: input.recordType === "task" ? "Task" : "Ticket", value: record.name },
+      { name: "Note", value: input.note },
+    ],
+  };
+};
@@ -0,0 +1,44 @@
+import { DomainBuilder } from "../services/domain";
+import { PARTNER_FIELDS, clampLimit, describePartner, getToolContext } from "../services/ai";
+import { OdooPartner } from "../types";
+
+type Input = {
+  /**
+   * Name, email, phone number or reference of the contact or company to find.
+   */
+  query: string;
+  /**
+   * Only return companies (true) or only individual people (false). Leave empty for both.
+   */
+  isCompany?: boolean;
+  /**
+   * Maximum number of contacts to return, 20 by default and 50 at most.
+   */
+  limit?: number;
+};
+
+/**
+ * Search contacts and companies (partners) in Odoo with their email, phone and location.
+ */
+export default async function tool(input: Input) {
+  const context = await getToolContext();
+  const domain = new DomainBuilder();
+
+  const query = input.query.trim();
+  if (query) {
+    domain.any(
+      [["complete_name", "ilike", query]],
+      [["email", "ilike", query]],
+      [["phone", "ilike", query]],
+      [["ref", "ilike", query]],
+    );
+  }
+  if (input.isCompany !== undefined) domain.where("is_company", "=", input.isCompany);
+
+  const partners = await context.odooService.searchRead<OdooPartner>("res.partner", domain.build(), {
+    fields: PARTNER_FIELDS,
+    limit: clampLimit(input.limit),
+    order: "is_company desc, name, id",
+  });
+  return partners.map(partner => describePartner(partner, context));
+}
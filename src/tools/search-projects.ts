@@ -0,0 +1,37 @@
+import { DomainBuilder } from "../services/domain";
+import { PROJECT_FIELDS, clampLimit, describeProject, getToolContext } from "../services/ai";
+import { Project } from "../types";
+
+type Input = {
+  /**
+   * Words to look for in the project name or customer name. Leave empty to list all projects.
+   */
+  query?: string;
+  /**
+   * Only return projects managed by the current user.
+   */
+  managedByMe?: boolean;
+  /**
+   * Maximum number of projects to return, 20 by default and 50 at most.
+   */
+  limit?: number;
+};
+
+/**
+ * Search projects in Odoo with their manager, customer and number of open tasks.
+ */
+export default async function tool(input: Input) {
+  const context = await getToolContext();
+  const domain = new DomainBuilder();
+
+  const query = input.query?.trim();
+  if (query) domain.any([["name", "ilike", query]], [["partner_id.name", "ilike", query]]);
+  if (input.managedByMe) domain.where("user_id", "=", context.uid);
+
+  const projects = await context.odooService.searchRead<Project>("project.project", domain.build(), {
+    fields: PROJECT_FIELDS,
+    limit: clampLimit(input.limit),
+    order: "sequence, name, id",
+  });
+  return projects.map(project => describeProject(project, context));
+}
@@ -0,0 +1,53 @@
+import { DomainBuilder } from "../services/domain";
+import { TASK_FIELDS, clampLimit, describeTask, findProject, getAssigneeNames, getToolContext } from "../services/ai";
+import { Task } from "../types";
+
+type Input = {
+  /**
+   * Words to look for in the task name. Leave empty to list tasks matching the other filters.
+   */
+  query?: string;
+  /**
+   * Only return tasks assigned to the current user ("my tasks").
+   */
+  assignedToMe?: boolean;
+  /**
+   * Name of the project the tasks belong to.
+   */
+  project?: string;
+  /**
+   * Only return tasks whose deadline is on or before this date, formatted as YYYY-MM-DD.
+   */
+  deadlineBefore?: string;
+  /**
+   * Also return tasks in folded (done or cancelled) stages. Defaults to false.
+   */
+  includeClosed?: boolean;
+  /**
+   * Maximum number of tasks to return, 20 by default and 50 at most.
+   */
+  limit?: number;
+};
+
+/**
+ * Search project tasks in Odoo, most urgent first. Use it to list, count or summarize tasks.
+ */
+export default async function tool(input: Input) {
+  const context = await getToolContext();
+  const domain = new DomainBuilder();
+
+  if (input.query?.trim()) domain.where("name", "ilike", input.query.trim());
+  if (input.assignedToMe) domain.where("user_ids", "in", [context.uid]);
+  if (input.project?.trim())
+    domain.where("project_id", "=", (await findProject(context.odooService, input.project)).id);
+  if (input.deadlineBefore) domain.where("date_deadline", "<=", input.deadlineBefore);
+  if (!input.includeClosed) domain.where("stage_id.fold", "=", false);
+
+  const tasks = await context.odooService.searchRead<Task>("project.task", domain.build(), {
+    fields: TASK_FIELDS,
+    limit: clampLimit(input.limit),
+    order: "priority desc, date_deadline asc, id desc",
+  });
+  const assignees = await getAssigneeNames(context.odooService, tasks);
+  return tasks.map(task => describeTask(task, context, assignees));
+}
@@ -0,0 +1,64 @@
+import { DomainBuilder } from "../services/domain";
+import { TICKET_FIELDS, clampLimit, describeTicket, getToolContext } from "../services/ai";
+import { HelpdeskTicket } from "../types";
+import { toOdooDate } from "../utils/validation";
+
+type Input = {
+  /**
+   * Words to look for in the ticket subject, reference or customer name. Leave empty to list tickets matching the other filters.
+   */
+  query?: string;
+  /**
+   * Only return tickets assigned to the current user.
+   */
+  assignedToMe?: boolean;
+  /**
+   * Name of the helpdesk team handling the tickets.
+   */
+  team?: string;
+  /**
+   * Only return tickets whose SLA deadline has passed or falls before the end of today.
+   */
+  breachingSla?: boolean;
+  /**
+   * Also return tickets in folded (solved or cancelled) stages. Defaults to false.
+   */
+  includeClosed?: boolean;
+  /**
+   * Maximum number of tickets to return, 20 by default and 50 at most.
+   */
+  limit?: number;
+};
+
+/**
+ * Search helpdesk tickets in Odoo, earliest SLA deadline first. Use it to list, count or summarize tickets.
+ */
+export default async function tool(input: Input) {
+  const context = await getToolContext();
+  const domain = new DomainBuilder();
+
+  const query = input.query?.trim();
+  if (query) {
+    domain.any(
+      [["name", "ilike", query]],
+      [["ticket_ref", "ilike", query]],
+      [["partner_id.name", "ilike", query]],
+      [["partner_name", "ilike", query]],
+    );
+  }
+  if (input.assignedToMe) domain.where("user_id", "=", context.uid);
+  if (input.team?.trim()) domain.where("team_id.name", "ilike", input.team.trim());
+  if (input.breachingSla) {
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 0);
+    domain.where("sla_deadline", "<=", toOdooDate(endOfToday, "datetime"));
+  }
+  if (!input.includeClosed) domain.where("stage_id.fold", "=", false);
+
+  const tickets = await context.odooService.searchRead<HelpdeskTicket>("helpdesk.ticket", domain.build(), {
+    fields: TICKET_FIELDS,
+    limit: clampLimit(input.limit),
+    order: "sla_deadline asc, priority desc, id desc",
+  });
+  return tickets.map(ticket => describeTicket(ticket, context));
+}
@@ -1,8 +1,28 @@
-export interface Preferences {
+export type OdooProtocol = "auto" | "jsonrpc" | "xmlrpc" | "json2";
+
+export type OdooAuthMethod = "apiKey" | "session";
+
+export interface OdooConnection {
   odooUrl: string;
-  apiKey: string;
+  apiKey: string; // Clé API, ou mot de passe pour une connexion par session web
   database: string;
   userLogin: string;
+  protocol?: OdooProtocol; // Protocole d'API, détecté automatiquement par défaut
+  authMethod?: OdooAuthMethod; // Clé API par défaut
+  fixture?: string; // Fichier de fixtures rejoué à la place du serveur (instance de démonstration)
+}
+
+export interface Preferences extends OdooConnection {
+  requestTimeout?: string; // Délai maximal d'une requête, en secondes
+  batchRequests?: boolean; // Regroupe les lectures simultanées d'un même modèle
+  demoMode?: boolean; // Ajoute l'instance de démonstration, servie par les fixtures fournies
+  recordFixtures?: boolean; // Enregistre les échanges avec le serveur dans des fichiers de fixtures
+  replayFixture?: string; // Fichier de fixtures enregistré, rejoué comme un profil hors ligne
+}
+
+export interface OdooProfile extends OdooConnection {
+  id: string;
+  name: string; // Nom affiché (ex: Production, Staging)
 }
 
 export interface OdooResponse<T = unknown> {
@@ -16,6 +36,13 @@ export interface OdooResponse<T = unknown> {
   };
 }
 
+export interface OdooVersionInfo {
+  server_version: string; // ex: "17.0+e"
+  server_version_info: (number | string)[]; // ex: [17, 0, 0, "final", 0, "e"]
+  server_serie?: string;
+  protocol_version?: number;
+}
+
 export interface Project {
   id: number;
   name: string;
@@ -45,8 +72,172 @@ export interface HelpdeskTeam {
   active?: boolean; // Équipe active ou non
 }
 
+export interface Task {
+  id: number;
+  name: string;
+  display_name: string;
+  description?: string;
+  project_id?: [number, string]; // Projet parent
+  stage_id?: [number, string]; // Étape de la tâche
+  user_ids?: number[]; // Assignés
+  date_deadline?: string; // Échéance
+  priority?: string; // "0" normal, "1" prioritaire
+  tag_ids?: number[]; // Étiquettes
+  active?: boolean; // Tâche active ou non
+  company_id?: [number, string]; // Société
+}
+
+export interface HelpdeskTicket {
+  id: number;
+  name: string;
+  display_name: string;
+  description?: string; // Description HTML
+  ticket_ref?: string; // Numéro du ticket
+  team_id?: [number, string]; // Équipe helpdesk
+  partner_id?: [number, string]; // Client
+  partner_name?: string;
+  partner_email?: string;
+  stage_id?: [number, string]; // Étape du ticket
+  priority?: string; // "0" faible à "3" urgent
+  sla_deadline?: string; // Échéance SLA
+  user_id?: [number, string]; // Assigné
+  create_date?: string;
+  company_id?: [number, string]; // Société
+}
+
+export interface OdooPartner {
+  id: number;
+  name: string;
+  display_name?: string;
+  email?: string | false;
+  phone?: string | false;
+  mobile?: string | false; // Absent des versions récentes, remplacé par phone
+  is_company?: boolean;
+  parent_id?: [number, string] | false; // Société du contact
+  child_ids?: number[]; // Contacts de la société
+  function?: string | false; // Poste occupé
+  street?: string | false;
+  street2?: string | false;
+  zip?: string | false;
+  city?: string | false;
+  state_id?: [number, string] | false;
+  country_id?: [number, string] | false;
+  website?: string | false;
+  category_id?: number[]; // Étiquettes
+  user_id?: [number, string] | false; // Commercial
+  comment?: string | false; // Notes internes (HTML)
+}
+
+export interface MailMessage {
+  id: number;
+  subject?: string | false;
+  body?: string; // HTML
+  record_name?: string | false; // Nom de l'enregistrement lié
+  model?: string | false;
+  res_id?: number | false;
+  author_id?: [number, string] | false;
+  date: string;
+}
+
+export interface OdooAttachment {
+  id: number;
+  name: string;
+  mimetype?: string;
+  file_size?: number; // Octets
+}
+
+export interface OdooFollower {
+  id: number;
+  partner_id: [number, string] | false;
+}
+
+export interface TimesheetLine {
+  id: number;
+  name: string; // Description
+  date: string; // YYYY-MM-DD
+  unit_amount: number; // Durée en heures
+  project_id?: [number, string] | false;
+  task_id?: [number, string] | false;
+  helpdesk_ticket_id?: [number, string] | false;
+}
+
+export interface RunningTimer {
+  profileId: string; // Profil de l'instance sur laquelle le temps sera saisi
+  model: "project.task" | "helpdesk.ticket";
+  recordId: number;
+  recordName: string;
+  projectId?: number; // Projet de la tâche, ou du ticket (helpdesk_timesheet)
+  startedAt: string; // ISO 8601
+}
+
+export type SearchCommand = "search-projects" | "search-helpdesk" | "search-tasks" | "search-tickets";
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  command: SearchCommand; // Liste sur laquelle la recherche s'applique
+  query: string; // Syntaxe de recherche, ex. stage:"In Progress" user:me
+}
+
+// Contexte passé par les quicklinks des recherches enregistrées
+export interface SearchLaunchContext {
+  query?: string;
+}
+
+export interface OdooField {
+  type: string; // char, text, html, integer, float, boolean, date, datetime, selection, many2one, ...
+  string: string; // Libellé du champ
+  required?: boolean;
+  readonly?: boolean;
+  size?: number; // Taille maximale (char)
+  selection?: [string, string][]; // Valeurs possibles (selection)
+  relation?: string; // Modèle lié (relationnels)
+}
+
+export type OdooFields = Record<string, OdooField>;
+
+export interface OdooStage {
+  id: number;
+  name: string;
+  sequence?: number;
+  fold?: boolean;
+}
+
+export interface OdooUser {
+  id: number;
+  name: string;
+  login?: string;
+}
+
+export interface OdooModel {
+  id: number;
+  model: string; // Nom technique (ex: crm.lead)
+  name: string; // Libellé
+}
+
+export type OdooRecord = { id: number; display_name?: string } & Record<string, unknown>;
+
 export interface OdooSearchOptions {
   fields: string[];
   domain?: unknown[];
   limit?: number;
+  offset?: number;
+  order?: string; // Ex. "priority desc, id desc"
+}
+
+// Page de résultats avec le nombre total d'enregistrements du domaine
+export interface OdooPage<T> {
+  records: T[];
+  total: number;
+  hasMore: boolean;
+}
+
+export interface OdooCompany {
+  id: number;
+  name: string;
+}
+
+export interface UserCompanies {
+  current: number | null; // Société par défaut de l'utilisateur (company_id)
+  allowed: OdooCompany[]; // Sociétés autorisées (company_ids)
 }
@@ -0,0 +1,38 @@
+/**
+ * Formate l'heure de la dernière synchronisation de façon relative ("5 min ago")
+ */
+export function formatSyncedAt(date: Date): string {
+  const seconds = Math.round((Date.now() - date.getTime()) / 1000);
+  if (seconds < 60) return "synced just now";
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `synced ${minutes} min ago`;
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `synced ${hours} h ago`;
+
+  return `synced ${date.toLocaleDateString()}`;
+}
+
+/**
+ * Formate une durée en heures au format h:mm (1.5 → "1:30")
+ */
+export function formatDuration(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  return `${Math.floor(totalMinutes / 60)}:${String(totalMinutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Lit une durée saisie en h:mm ou en heures décimales ("1:30", "1.5", "1,5"), null si invalide
+ */
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim();
+  const clock = trimmed.match(/^(\d+):([0-5]\d)$/);
+  if (clock) {
+    return Number(clock[1]) + Number(clock[2]) / 60;
+  }
+  if (/^\d+([.,]\d+)?$/.test(trimmed)) {
+    return Number(trimmed.replace(",", "."));
+  }
+  return null;
+}
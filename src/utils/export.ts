@@ -0,0 +1,88 @@
+import { OdooFields } from "../types";
+import { htmlToMarkdown } from "./html";
+
+export type ExportFormat = "csv" | "markdown" | "json";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { title: string; extension: string }> = {
+  csv: { title: "CSV", extension: "csv" },
+  markdown: { title: "Markdown Table", extension: "md" },
+  json: { title: "JSON", extension: "json" },
+};
+
+type ExportValue = string | number | boolean | null;
+
+// Champ HTML (description, notes) reconnu à sa balise d'ouverture, faute de métadonnées
+const HTML_PATTERN = /^\s*<[a-z][^>]*>/i;
+
+/**
+ * Valeur à plat : many2one réduit à son nom, listes jointes (many2many résolus ou IDs), HTML en texte, false vide
+ */
+export function flattenValue(value: unknown, fields: OdooFields = {}, name = ""): ExportValue {
+  if (value === false || value === null || value === undefined) {
+    return fields[name]?.type === "boolean" ? false : null;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 2 && typeof value[0] === "number" && typeof value[1] === "string") return value[1];
+    return value.join(", ");
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  if (typeof value === "string") {
+    const selection = fields[name]?.selection?.find(([key]) => key === value);
+    if (selection) return selection[1];
+    return fields[name]?.type === "html" || HTML_PATTERN.test(value) ? htmlToMarkdown(value) : value;
+  }
+  return value as ExportValue;
+}
+
+/**
+ * Colonnes présentes dans les enregistrements, dans l'ordre de leur première apparition
+ */
+export function getExportColumns(records: object[]): string[] {
+  const columns = new Set<string>();
+  for (const record of records) {
+    Object.keys(record).forEach(key => columns.add(key));
+  }
+  return [...columns];
+}
+
+const toText = (value: ExportValue) => (value === null ? "" : String(value));
+
+const csvCell = (value: ExportValue) => {
+  const text = toText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const markdownCell = (value: ExportValue) =>
+  toText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>").trim() || " ";
+
+/**
+ * Sérialise des enregistrements dans le format choisi, en-têtes libellés d'après les métadonnées si connues
+ */
+export function serializeRecords(
+  records: object[],
+  columns: string[],
+  format: ExportFormat,
+  fields: OdooFields = {},
+): string {
+  const rows = records.map(record =>
+    columns.map(column => flattenValue((record as Record<string, unknown>)[column], fields, column)),
+  );
+  const headers = columns.map(column => fields[column]?.string || column);
+
+  switch (format) {
+    case "csv":
+      return [headers, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n");
+    case "markdown":
+      return [
+        `| ${headers.map(markdownCell).join(" | ")} |`,
+        `| ${headers.map(() => "---").join(" | ")} |`,
+        ...rows.map(row => `| ${row.map(markdownCell).join(" | ")} |`),
+      ].join("\n");
+    case "json":
+      return JSON.stringify(
+        rows.map(row => Object.fromEntries(columns.map((column, index) => [column, row[index]]))),
+        null,
+        2,
+      );
+  }
+}
@@ -0,0 +1,100 @@
+import { Color, Icon, List } from "@raycast/api";
+import { OdooField, OdooFields } from "../types";
+
+export interface ModelColumns {
+  title: string;
+  subtitle?: string;
+  accessories: string[];
+}
+
+// Champs candidats par ordre de préférence, les plus parlants en premier
+const SUBTITLE_CANDIDATES = ["partner_id", "email", "ref", "default_code", "code", "project_id", "team_id"];
+const ACCESSORY_CANDIDATES = [
+  "stage_id",
+  "state",
+  "user_id",
+  "date_deadline",
+  "date_order",
+  "amount_total",
+  "priority",
+  "company_id",
+  "create_date",
+];
+const DISPLAYABLE_TYPES = ["char", "many2one", "selection", "date", "datetime", "integer", "float", "monetary"];
+
+const isDisplayable = (field?: OdooField) => !!field && DISPLAYABLE_TYPES.includes(field.type);
+
+/**
+ * Choisit les colonnes titre / sous-titre / accessoires à partir des métadonnées de fields_get
+ */
+export function pickColumns(fields: OdooFields): ModelColumns {
+  const title = fields.display_name ? "display_name" : fields.name ? "name" : "id";
+  const used = new Set([title, "name", "display_name"]);
+
+  const subtitle =
+    SUBTITLE_CANDIDATES.find(name => isDisplayable(fields[name])) ||
+    Object.keys(fields).find(name => !used.has(name) && fields[name].type === "many2one");
+  if (subtitle) used.add(subtitle);
+
+  const accessories = ACCESSORY_CANDIDATES.filter(name => !used.has(name) && isDisplayable(fields[name])).slice(0, 3);
+
+  return { title, subtitle, accessories };
+}
+
+/**
+ * Formate une valeur brute Odoo en texte lisible
+ */
+export function formatFieldValue(value: unknown, field?: OdooField): string {
+  if (value === false || value === null || value === undefined) return "";
+  if (!field) return String(value);
+
+  switch (field.type) {
+    case "many2one":
+      return Array.isArray(value) ? String(value[1]) : String(value);
+    case "one2many":
+    case "many2many":
+      return Array.isArray(value) ? `${value.length} record${value.length !== 1 ? "s" : ""}` : "";
+    case "selection":
+      return field.selection?.find(([key]) => key === value)?.[1] ?? String(value);
+    case "boolean":
+      return value ? "Yes" : "No";
+    case "date":
+      return new Date(String(value)).toLocaleDateString();
+    case "datetime":
+      return parseOdooDatetime(String(value)).toLocaleString();
+    case "float":
+    case "monetary":
+      return Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Les datetimes Odoo sont en UTC sans suffixe de fuseau
+ */
+export function parseOdooDatetime(value: string): Date {
+  return new Date(`${value.replace(" ", "T")}Z`);
+}
+
+/**
+ * Construit l'accessoire de liste adapté au type de champ
+ */
+export function toAccessory(value: unknown, field?: OdooField): List.Item.Accessory | null {
+  const text = formatFieldValue(value, field);
+  if (!text || !field) return null;
+
+  const tooltip = field.string;
+  switch (field.type) {
+    case "date":
+      return { date: new Date(String(value)), tooltip };
+    case "datetime":
+      return { date: parseOdooDatetime(String(value)), tooltip };
+    case "selection":
+      return { tag: { value: text, color: Color.SecondaryText }, tooltip };
+    case "many2one":
+      return { text, icon: field.relation === "res.users" ? Icon.Person : Icon.Link, tooltip };
+    default:
+      return { text, tooltip };
+  }
+}
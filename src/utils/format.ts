@@ -0,0 +1,28 @@
+import { OdooPartner } from "../types";
+
+/**
+ * Nombre d'enregistrements affichés, avec le total du serveur s'il est connu ("100 of 2,431 projects")
+ */
+export function formatRecordCount(loaded: number, total: number | null, noun: string): string {
+  const count = total ?? loaded;
+  const label = `${noun}${count !== 1 ? "s" : ""}`;
+  if (total === null || total <= loaded) {
+    return `${count.toLocaleString()} ${label}`;
+  }
+  return `${loaded.toLocaleString()} of ${total.toLocaleString()} ${label}`;
+}
+
+/**
+ * Adresse postale d'un contact sur plusieurs lignes, vide si elle n'est pas renseignée
+ */
+export function formatAddress(partner: OdooPartner): string {
+  const name = (value?: [number, string] | false) => (value ? value[1] : "");
+  return [
+    partner.street,
+    partner.street2,
+    [partner.zip, partner.city].filter(Boolean).join(" "),
+    [name(partner.state_id), name(partner.country_id)].filter(Boolean).join(", "),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
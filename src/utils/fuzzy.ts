@@ -0,0 +1,97 @@
+export interface FuzzyField {
+  value: string;
+  weight: number;
+}
+
+/**
+ * Minuscules sans accents, pour comparer "Équipe" et "equipe"
+ */
+export function normalize(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+function tokenize(value: string): string[] {
+  return normalize(value)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Distance de Damerau-Levenshtein (transpositions adjacentes comprises)
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Nombre de fautes tolérées selon la longueur du mot recherché
+const maxTypos = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+function scoreToken(token: string, words: string[]): number {
+  let best = 0;
+  for (const word of words) {
+    if (word === token) return 1;
+    if (word.startsWith(token)) {
+      best = Math.max(best, 0.9);
+    } else if (word.includes(token)) {
+      best = Math.max(best, 0.7);
+    } else if (best < 0.6) {
+      const allowed = maxTypos(token.length);
+      if (allowed > 0) {
+        // Compare aussi au préfixe de même longueur pour tolérer une faute en cours de frappe
+        const distance = Math.min(editDistance(token, word), editDistance(token, word.slice(0, token.length)));
+        if (distance <= allowed) {
+          best = Math.max(best, 0.6 - 0.15 * distance);
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Score de pertinence d'un enregistrement : 0 si un mot de la recherche est introuvable
+ */
+export function fuzzyScore(query: string, fields: FuzzyField[]): number {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return 0;
+
+  const tokenized = fields.map(field => ({ words: tokenize(field.value), weight: field.weight }));
+  let total = 0;
+  for (const token of tokens) {
+    const score = Math.max(...tokenized.map(field => scoreToken(token, field.words) * field.weight));
+    if (score === 0) return 0;
+    total += score;
+  }
+
+  // Bonus lorsque le champ principal commence par la recherche complète
+  const primary = fields[0] ? normalize(fields[0].value) : "";
+  const bonus = primary.startsWith(normalize(query.trim())) ? 0.5 : 0;
+  return total / tokens.length + bonus;
+}
+
+/**
+ * Filtre et trie des éléments par pertinence
+ */
+export function fuzzySearch<T>(items: T[], query: string, getFields: (item: T) => FuzzyField[], limit = 100): T[] {
+  return items
+    .map(item => ({ item, score: fuzzyScore(query, getFields(item)) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => result.item);
+}
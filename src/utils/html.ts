@@ -0,0 +1,43 @@
+const ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+};
+
+/**
+ * Convertit le HTML d'un champ Odoo (description, chatter) en markdown simplifié
+ */
+export function htmlToMarkdown(html?: string | false): string {
+  if (!html) return "";
+
+  return html
+    .replace(/\r?\n/g, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(
+      /<h([1-6])[^>]*>(.*?)<\/h\1>/gi,
+      (_, level: string, text: string) => `\n${"#".repeat(Number(level))} ${text}\n`,
+    )
+    .replace(/<(strong|b)[^>]*>(.*?)<\/\1>/gi, "**$2**")
+    .replace(/<(em|i)[^>]*>(.*?)<\/\1>/gi, "_$2_")
+    .replace(/<code[^>]*>(.*?)<\/code>/gi, "`$1`")
+    .replace(/<a[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, "[$2]($1)")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|ul|ol|table|tr|blockquote)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&[a-z#0-9]+;/gi, entity => ENTITIES[entity] ?? entity)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const ESCAPED: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+/**
+ * Convertit un texte saisi en HTML pour un champ Odoo ou le chatter : balises échappées, retours à la ligne conservés
+ */
+export function textToHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ESCAPED[char]).replace(/\r?\n/g, "<br/>");
+}
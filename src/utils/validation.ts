@@ -0,0 +1,94 @@
+import { OdooValidationError } from "../services/errors";
+import { OdooFields } from "../types";
+
+export type FieldErrors = Record<string, string | undefined>;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === false || (typeof value === "string" && !value.trim());
+
+/**
+ * Valide les valeurs d'un formulaire à partir des métadonnées de fields_get
+ */
+export function validateValues(values: Record<string, unknown>, fields: OdooFields): FieldErrors {
+  const errors: FieldErrors = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    const field = fields[name];
+    if (!field) continue;
+
+    if (isEmpty(value)) {
+      if (field.required) {
+        errors[name] = `${field.string} is required`;
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case "char":
+        if (field.size && String(value).length > field.size) {
+          errors[name] = `${field.string} must be at most ${field.size} characters`;
+        }
+        break;
+      case "integer":
+        if (!Number.isInteger(Number(value))) {
+          errors[name] = `${field.string} must be a whole number`;
+        }
+        break;
+      case "float":
+      case "monetary":
+        if (Number.isNaN(Number(value))) {
+          errors[name] = `${field.string} must be a number`;
+        }
+        break;
+      case "selection":
+        if (field.selection && !field.selection.some(([key]) => key === value)) {
+          errors[name] = `${field.string} must be one of ${field.selection.map(([, label]) => label).join(", ")}`;
+        }
+        break;
+      case "many2one":
+        if (!Number.isInteger(Number(value)) || Number(value) <= 0) {
+          errors[name] = `${field.string} must reference an existing record`;
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
+
+export function hasErrors(errors: FieldErrors): boolean {
+  return Object.values(errors).some(Boolean);
+}
+
+/**
+ * Associe une erreur de validation Odoo (ValidationError, contrainte SQL...) au champ concerné
+ */
+export function mapServerError(error: unknown, fields: OdooFields, candidates: string[]): FieldErrors {
+  const errors: FieldErrors = {};
+  if (!(error instanceof OdooValidationError)) {
+    return errors;
+  }
+
+  const message = error.message;
+  const lowerMessage = message.toLowerCase();
+
+  for (const name of candidates) {
+    const label = fields[name]?.string?.toLowerCase();
+    if (lowerMessage.includes(name.toLowerCase()) || (label && lowerMessage.includes(label))) {
+      errors[name] = message;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Formate une date pour un champ Odoo date (locale) / datetime (UTC)
+ */
+export function toOdooDate(date: Date, type: "date" | "datetime" = "date"): string {
+  if (type === "date") {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
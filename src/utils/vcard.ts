@@ -0,0 +1,38 @@
+import { OdooPartner } from "../types";
+
+// Caractères réservés d'une valeur vCard (RFC 6350, section 3.4)
+const escape = (value: string) => value.replace(/[\\,;]/g, match => `\\${match}`).replace(/\r?\n/g, "\\n");
+
+const nameOf = (value?: [number, string] | false) => (value ? value[1] : "");
+
+/**
+ * Fiche vCard 3.0 d'un contact, lisible par Contacts et la plupart des carnets d'adresses
+ */
+export function toVCard(partner: OdooPartner, tags: string[] = []): string {
+  const lines = ["BEGIN:VCARD", "VERSION:3.0", `FN:${escape(partner.name)}`];
+
+  if (partner.is_company) {
+    lines.push("N:;;;;", `ORG:${escape(partner.name)}`, "X-ABShowAs:COMPANY");
+  } else {
+    // Odoo ne stocke qu'un nom complet : le dernier mot sert de nom de famille
+    const words = partner.name.trim().split(/\s+/);
+    const last = words.length > 1 ? words.pop() || "" : "";
+    lines.push(`N:${escape(last)};${escape(words.join(" "))};;;`);
+    if (partner.parent_id) lines.push(`ORG:${escape(partner.parent_id[1])}`);
+  }
+
+  if (partner.function) lines.push(`TITLE:${escape(partner.function)}`);
+  if (partner.email) lines.push(`EMAIL;TYPE=INTERNET,WORK:${escape(partner.email)}`);
+  if (partner.phone) lines.push(`TEL;TYPE=WORK,VOICE:${escape(partner.phone)}`);
+  if (partner.mobile) lines.push(`TEL;TYPE=CELL:${escape(partner.mobile)}`);
+  if (partner.street || partner.city || partner.zip || partner.country_id) {
+    const street = [partner.street, partner.street2].filter(Boolean).join("\n");
+    const parts = [street, partner.city || "", nameOf(partner.state_id), partner.zip || "", nameOf(partner.country_id)];
+    lines.push(`ADR;TYPE=WORK:;;${parts.map(escape).join(";")}`);
+  }
+  if (partner.website) lines.push(`URL:${escape(partner.website)}`);
+  if (tags.length > 0) lines.push(`CATEGORIES:${tags.map(escape).join(",")}`);
+
+  lines.push("END:VCARD");
+  return lines.join("\r\n") + "\r\n";
+}